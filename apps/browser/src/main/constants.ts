@@ -2,21 +2,58 @@
  * Application constants and configuration
  */
 
-// iPhone 15 Pro dimensions
-export const IPHONE_WIDTH = 393;
-export const IPHONE_HEIGHT = 852;
+import { DeviceOrientation, TabGroupColor, UserAgentRule } from "./types";
+
+// Device frame dimensions (screen sizes come from the device profile registry)
 export const FRAME_PADDING = 28; // 14px border on each side
 export const TOP_BAR_HEIGHT = 52;
-export const STATUS_BAR_HEIGHT = 58; // Height of status bar in portrait mode
-export const STATUS_BAR_WIDTH = 58; // Width of status bar in landscape mode
 
-// User Agents
-export const IPHONE_USER_AGENT =
-  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1";
+// Drag handle above the web view in bare mode, the only window chrome left
+export const BARE_MODE_HANDLE_HEIGHT = 12;
+
+// Device orientations, in the order offered in menus
+export const DEVICE_ORIENTATIONS: DeviceOrientation[] = [
+  "portrait",
+  "portrait-upside-down",
+  "landscape-left",
+  "landscape-right",
+];
 
+// Frame zoom levels offered next to "fit to screen"
+export const FRAME_ZOOM_PRESETS = [0.5, 0.75, 1, 1.25];
+
+// Closed tabs kept for reopening (Cmd/Ctrl+Shift+T)
+export const RECENTLY_CLOSED_TABS_LIMIT = 25;
+
+// Tab group colors, new groups take the next one in order
+export const TAB_GROUP_COLORS: TabGroupColor[] = [
+  "blue",
+  "green",
+  "yellow",
+  "orange",
+  "red",
+  "purple",
+  "pink",
+  "gray",
+];
+
+// Mirror mode window layout
+export const MIRROR_PADDING = 16;
+export const MIRROR_GAP = 16;
+
+// Passed to follower views so the webview preload skips frame-only UI (kept in sync with webview-preload.ts)
+export const MIRROR_FOLLOWER_ARG = "--aka-mirror-follower";
+
+// User Agents
 export const DESKTOP_USER_AGENT =
   "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
 
+// Built-in user agent rules, users can override them in settings
+export const DEFAULT_USER_AGENT_RULES: UserAgentRule[] = [
+  // Netflix only serves its player to desktop browsers
+  { id: "builtin-netflix", domain: "netflix.com", preset: "desktop", enabled: true, isBuiltIn: true },
+];
+
 // URL validation and security
 export const ALLOWED_PROTOCOLS =
   process.env.NODE_ENV === "development"
@@ -0,0 +1,201 @@
+/**
+ * User-defined device profile storage
+ */
+
+import { app } from "electron";
+import path from "path";
+import fs from "fs";
+import {
+  DeviceCutout,
+  DevicePlatform,
+  DeviceProfile,
+  NavigationBarType,
+  SafeAreaInsets,
+} from "./types";
+import { DEVICE_PROFILES, getDefaultDeviceProfile } from "./device-profiles";
+
+export type CustomDeviceProfileInput = Pick<
+  DeviceProfile,
+  | "name"
+  | "platform"
+  | "viewport"
+  | "devicePixelRatio"
+  | "userAgent"
+  | "cornerRadius"
+  | "cutout"
+  | "navigationBar"
+>;
+
+const PLATFORMS: DevicePlatform[] = ["ios", "android"];
+const CUTOUTS: DeviceCutout[] = ["dynamic-island", "notch", "punch-hole", "none"];
+const NAVIGATION_BARS: NavigationBarType[] = ["gesture", "three-button", "none"];
+
+/**
+ * Derive safe area insets from the cutout type of a custom profile
+ */
+function getSafeAreaInsetsForCutout(cutout: DeviceCutout): SafeAreaInsets {
+  switch (cutout) {
+    case "dynamic-island":
+      return { top: 58, right: 0, bottom: 34, left: 0 };
+    case "notch":
+      return { top: 47, right: 0, bottom: 34, left: 0 };
+    case "punch-hole":
+      return { top: 32, right: 0, bottom: 0, left: 0 };
+    default:
+      return { top: 20, right: 0, bottom: 0, left: 0 };
+  }
+}
+
+export class DeviceProfileStore {
+  private profilesPath: string;
+  private customProfiles: DeviceProfile[] = [];
+
+  constructor() {
+    const userDataPath = app.getPath("userData");
+    this.profilesPath = path.join(userDataPath, "device-profiles.json");
+    this.loadProfiles();
+  }
+
+  /**
+   * Load custom profiles from file
+   */
+  private loadProfiles(): void {
+    try {
+      if (fs.existsSync(this.profilesPath)) {
+        const data = fs.readFileSync(this.profilesPath, "utf-8");
+        const profiles: DeviceProfile[] = JSON.parse(data);
+        // Profiles saved before navigation bars existed have none
+        this.customProfiles = profiles.map((p) => ({ ...p, navigationBar: p.navigationBar ?? "none" }));
+        console.log(`[DeviceProfileStore] Loaded ${this.customProfiles.length} custom profiles`);
+      } else {
+        this.customProfiles = [];
+      }
+    } catch (error) {
+      console.error("[DeviceProfileStore] Failed to load profiles:", error);
+      this.customProfiles = [];
+    }
+  }
+
+  /**
+   * Save custom profiles to file
+   */
+  private saveProfiles(): void {
+    try {
+      const data = JSON.stringify(this.customProfiles, null, 2);
+      fs.writeFileSync(this.profilesPath, data, "utf-8");
+      console.log(`[DeviceProfileStore] Saved ${this.customProfiles.length} custom profiles`);
+    } catch (error) {
+      console.error("[DeviceProfileStore] Failed to save profiles:", error);
+    }
+  }
+
+  /**
+   * Build a complete profile from the editable fields, which come from IPC unchecked
+   */
+  private buildProfile(id: string, input: CustomDeviceProfileInput): DeviceProfile {
+    const fallback = getDefaultDeviceProfile();
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    const userAgent = typeof input.userAgent === "string" ? input.userAgent.trim() : "";
+    const cutout = CUTOUTS.includes(input.cutout) ? input.cutout : "none";
+    const devicePixelRatio = Number(input.devicePixelRatio);
+    // Input without a platform falls back to the user agent's
+    const platform = PLATFORMS.includes(input.platform)
+      ? input.platform
+      : /android/i.test(userAgent)
+        ? "android"
+        : "ios";
+
+    return {
+      id,
+      name: name || "Custom Device",
+      platform,
+      viewport: {
+        width: Math.max(1, Math.round(Number(input.viewport?.width) || fallback.viewport.width)),
+        height: Math.max(1, Math.round(Number(input.viewport?.height) || fallback.viewport.height)),
+      },
+      devicePixelRatio: devicePixelRatio > 0 ? devicePixelRatio : 1,
+      userAgent: userAgent || fallback.userAgent,
+      safeAreaInsets: getSafeAreaInsetsForCutout(cutout),
+      cutout,
+      navigationBar: NAVIGATION_BARS.includes(input.navigationBar) ? input.navigationBar : "none",
+      cornerRadius: Math.max(0, Math.round(Number(input.cornerRadius) || 0)),
+      isCustom: true,
+    };
+  }
+
+  /**
+   * Get built-in and custom profiles
+   */
+  getAll(): DeviceProfile[] {
+    return [...DEVICE_PROFILES, ...this.customProfiles];
+  }
+
+  /**
+   * Get profile by ID (built-in or custom)
+   */
+  getById(id: string): DeviceProfile | undefined {
+    return this.getAll().find((p) => p.id === id);
+  }
+
+  /**
+   * Add a new custom profile
+   */
+  add(input: CustomDeviceProfileInput): DeviceProfile {
+    const id = `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const profile = this.buildProfile(id, input);
+
+    this.customProfiles.push(profile);
+    this.saveProfiles();
+    console.log(`[DeviceProfileStore] Added profile: ${profile.name}`);
+    return profile;
+  }
+
+  /**
+   * Update an existing custom profile
+   */
+  update(id: string, updates: Partial<CustomDeviceProfileInput>): DeviceProfile | null {
+    const index = this.customProfiles.findIndex((p) => p.id === id);
+    if (index === -1) {
+      console.error(`[DeviceProfileStore] Custom profile not found: ${id}`);
+      return null;
+    }
+
+    this.customProfiles[index] = this.buildProfile(id, {
+      ...this.customProfiles[index],
+      ...updates,
+    });
+
+    this.saveProfiles();
+    console.log(`[DeviceProfileStore] Updated profile: ${id}`);
+    return this.customProfiles[index];
+  }
+
+  /**
+   * Duplicate any profile (built-in or custom) as a new custom profile
+   */
+  duplicate(id: string): DeviceProfile | null {
+    const source = this.getById(id);
+    if (!source) {
+      console.error(`[DeviceProfileStore] Profile not found: ${id}`);
+      return null;
+    }
+
+    return this.add({ ...source, name: `${source.name} Copy` });
+  }
+
+  /**
+   * Remove a custom profile
+   */
+  remove(id: string): boolean {
+    const index = this.customProfiles.findIndex((p) => p.id === id);
+    if (index === -1) {
+      console.error(`[DeviceProfileStore] Custom profile not found: ${id}`);
+      return false;
+    }
+
+    const removed = this.customProfiles.splice(index, 1)[0];
+    this.saveProfiles();
+    console.log(`[DeviceProfileStore] Removed profile: ${removed.name}`);
+    return true;
+  }
+}
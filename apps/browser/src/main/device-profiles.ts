@@ -0,0 +1,141 @@
+/**
+ * Built-in device profile registry
+ */
+
+import { DeviceOrientation, DeviceProfile, NavigationBarType, SafeAreaInsets } from "./types";
+
+const IOS_17_USER_AGENT =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1";
+
+// Height of the Android navigation bar (width when docked to the side)
+export const NAVIGATION_BAR_SIZES: Record<NavigationBarType, number> = {
+  gesture: 24,
+  "three-button": 48,
+  none: 0,
+};
+
+export const DEFAULT_DEVICE_PROFILE_ID = "iphone-15-pro";
+
+export const DEVICE_PROFILES: DeviceProfile[] = [
+  {
+    id: "iphone-se",
+    name: "iPhone SE",
+    platform: "ios",
+    viewport: { width: 375, height: 667 },
+    devicePixelRatio: 2,
+    userAgent: IOS_17_USER_AGENT,
+    safeAreaInsets: { top: 20, right: 0, bottom: 0, left: 0 },
+    cutout: "none",
+    navigationBar: "none",
+    cornerRadius: 0,
+  },
+  {
+    id: "iphone-15-pro",
+    name: "iPhone 15 Pro",
+    platform: "ios",
+    viewport: { width: 393, height: 852 },
+    devicePixelRatio: 3,
+    userAgent: IOS_17_USER_AGENT,
+    safeAreaInsets: { top: 58, right: 0, bottom: 34, left: 0 },
+    cutout: "dynamic-island",
+    navigationBar: "none",
+    cornerRadius: 32,
+  },
+  {
+    id: "iphone-15-pro-max",
+    name: "iPhone 15 Pro Max",
+    platform: "ios",
+    viewport: { width: 430, height: 932 },
+    devicePixelRatio: 3,
+    userAgent: IOS_17_USER_AGENT,
+    safeAreaInsets: { top: 58, right: 0, bottom: 34, left: 0 },
+    cutout: "dynamic-island",
+    navigationBar: "none",
+    cornerRadius: 32,
+  },
+  {
+    id: "pixel-8",
+    name: "Pixel 8",
+    platform: "android",
+    viewport: { width: 412, height: 915 },
+    devicePixelRatio: 2.625,
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
+    safeAreaInsets: { top: 32, right: 0, bottom: 0, left: 0 },
+    cutout: "punch-hole",
+    navigationBar: "gesture",
+    cornerRadius: 28,
+  },
+  {
+    id: "galaxy-s24",
+    name: "Galaxy S24",
+    platform: "android",
+    viewport: { width: 360, height: 780 },
+    devicePixelRatio: 3,
+    userAgent:
+      "Mozilla/5.0 (Linux; Android 14; SM-S921B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36",
+    safeAreaInsets: { top: 32, right: 0, bottom: 0, left: 0 },
+    cutout: "punch-hole",
+    navigationBar: "three-button",
+    cornerRadius: 24,
+  },
+];
+
+/**
+ * Find a built-in device profile by ID
+ */
+export function getDeviceProfile(id: string): DeviceProfile | undefined {
+  return DEVICE_PROFILES.find((profile) => profile.id === id);
+}
+
+/**
+ * Get the default device profile (iPhone 15 Pro)
+ */
+export function getDefaultDeviceProfile(): DeviceProfile {
+  return getDeviceProfile(DEFAULT_DEVICE_PROFILE_ID) ?? DEVICE_PROFILES[0];
+}
+
+/**
+ * Screen edges covered by system UI (status bar and navigation bar),
+ * i.e. the space the web content does not get
+ */
+export function getSystemBarInsets(
+  profile: DeviceProfile,
+  orientation: DeviceOrientation
+): SafeAreaInsets {
+  const statusBarSize = profile.safeAreaInsets.top;
+  const navigationBarSize = NAVIGATION_BAR_SIZES[profile.navigationBar];
+
+  if (orientation === "portrait") {
+    return { top: statusBarSize, right: 0, bottom: navigationBarSize, left: 0 };
+  }
+
+  // Upside down: the status bar stays at the top, the cutout at the bottom edge is letterboxed
+  if (orientation === "portrait-upside-down") {
+    const cutoutSize = profile.cutout === "none" ? 0 : statusBarSize;
+    return { top: statusBarSize, right: 0, bottom: navigationBarSize + cutoutSize, left: 0 };
+  }
+
+  // Landscape: status bar follows the cutout to the top of the device,
+  // three-button navigation docks to the bottom of the device, gesture handle stays at the bottom
+  const isSideNavigation = profile.navigationBar === "three-button";
+  const sideNavigationSize = isSideNavigation ? navigationBarSize : 0;
+  const isLeft = orientation === "landscape-left";
+  return {
+    top: 0,
+    right: isLeft ? sideNavigationSize : statusBarSize,
+    bottom: isSideNavigation ? 0 : navigationBarSize,
+    left: isLeft ? statusBarSize : sideNavigationSize,
+  };
+}
+
+export function isLandscapeOrientation(orientation: DeviceOrientation): boolean {
+  return orientation === "landscape-left" || orientation === "landscape-right";
+}
+
+/**
+ * Whether pages can be shown upside down: iPhones keep portrait-up, Android phones rotate freely
+ */
+export function supportsUpsideDown(profile: DeviceProfile): boolean {
+  return profile.platform === "android";
+}
@@ -0,0 +1,326 @@
+/**
+ * Device emulation for tab WebContents via the Chrome DevTools Protocol
+ */
+
+import { session, webContents } from "electron";
+import {
+  AppState,
+  DeviceOrientation,
+  DeviceProfile,
+  EmulatedMediaFeatures,
+  GeolocationOverride,
+  LocaleOverride,
+  NetworkConditions,
+} from "./types";
+import { isLandscapeOrientation } from "./device-profiles";
+import { applyClientHintHeaders, getUserAgentFingerprint } from "./user-agent-metadata";
+
+const DEBUGGER_PROTOCOL_VERSION = "1.3";
+
+// screen.orientation reported for each device orientation (angle is window.orientation on iOS)
+const SCREEN_ORIENTATIONS: Record<DeviceOrientation, { type: string; angle: number }> = {
+  portrait: { type: "portraitPrimary", angle: 0 },
+  "portrait-upside-down": { type: "portraitSecondary", angle: 180 },
+  "landscape-left": { type: "landscapePrimary", angle: 90 },
+  "landscape-right": { type: "landscapeSecondary", angle: 270 },
+};
+
+// CSS media feature names for each emulated feature
+const MEDIA_FEATURE_NAMES: Record<keyof EmulatedMediaFeatures, string> = {
+  prefersColorScheme: "prefers-color-scheme",
+  prefersReducedMotion: "prefers-reduced-motion",
+  prefersContrast: "prefers-contrast",
+  forcedColors: "forced-colors",
+  prefersReducedTransparency: "prefers-reduced-transparency",
+};
+
+// Round finger-sized cursor shown while touch emulation is on
+const TOUCH_CURSOR_CSS = `html, html * {
+  cursor: url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='24' height='24'%3E%3Ccircle cx='12' cy='12' r='10' fill='rgba(0,0,0,0.25)' stroke='white' stroke-width='2'/%3E%3C/svg%3E") 12 12, auto !important;
+}`;
+
+export class EmulationManager {
+  private state: AppState;
+  private touchCursorKeys = new Map<number, string>(); // webContents id -> inserted CSS key
+  private hookedSessions = new WeakSet<Electron.Session>();
+
+  constructor(state: AppState) {
+    this.state = state;
+  }
+
+  /**
+   * Attach the debugger to a tab and apply the current device emulation
+   */
+  attach(contents: Electron.WebContents): void {
+    if (!this.ensureAttached(contents)) return;
+
+    contents.debugger.on("detach", (_event, reason) => {
+      console.log(`[EmulationManager] Debugger detached: ${reason}`);
+    });
+
+    this.ensureRequestHeaderHook(contents.session);
+
+    this.applyDeviceMetrics(contents);
+  }
+
+  /**
+   * Apply DPR, screen size, mobile flag and orientation of the active device
+   */
+  applyDeviceMetrics(contents: Electron.WebContents): void {
+    const profile = this.state.deviceProfile;
+    const scale = this.state.frameScale;
+    const bounds = this.state.tabs.find((t) => t.view.webContents === contents)?.view.getBounds();
+
+    // A zoomed frame keeps the page at true CSS pixels and only scales the rendering;
+    // 0 keeps the layout viewport in sync with the WebContentsView bounds
+    const size =
+      scale !== 1 && bounds && bounds.width > 0
+        ? {
+            width: Math.round(bounds.width / scale),
+            height: Math.round(bounds.height / scale),
+            scale,
+          }
+        : { width: 0, height: 0 };
+
+    this.sendCommand(contents, "Emulation.setDeviceMetricsOverride", {
+      ...size,
+      deviceScaleFactor: profile.devicePixelRatio,
+      mobile: true,
+      ...this.getScreenMetrics(profile, this.state.orientation),
+    });
+  }
+
+  /**
+   * Re-apply device metrics to every open tab (device or orientation changed)
+   */
+  applyDeviceMetricsToAllTabs(): void {
+    this.state.tabs.forEach((tab) => {
+      if (!tab.view.webContents.isDestroyed()) {
+        this.applyDeviceMetrics(tab.view.webContents);
+      }
+    });
+  }
+
+  /**
+   * Set the user agent together with the matching navigator.platform and userAgentData
+   * (client hint headers are rewritten by the request header hook)
+   */
+  setUserAgent(contents: Electron.WebContents, userAgent: string): void {
+    if (contents.isDestroyed()) return;
+
+    contents.setUserAgent(userAgent);
+
+    const { platform, metadata } = getUserAgentFingerprint(userAgent);
+    this.sendCommand(contents, "Emulation.setUserAgentOverride", {
+      userAgent,
+      ...(platform ? { platform } : {}),
+      ...(metadata ? { userAgentMetadata: metadata } : {}),
+    });
+  }
+
+  /**
+   * Throttle the shared tab session (tabs and mirror followers) to the given network conditions
+   */
+  setNetworkConditions(conditions: NetworkConditions): void {
+    this.state.networkConditions = conditions;
+
+    // Throughput is configured in bytes per second, 0 means unthrottled
+    session.fromPartition("persist:main").enableNetworkEmulation({
+      offline: conditions.offline,
+      latency: conditions.latency,
+      downloadThroughput: (conditions.downloadKbps * 1000) / 8,
+      uploadThroughput: (conditions.uploadKbps * 1000) / 8,
+    });
+
+    console.log(`[EmulationManager] Network conditions: ${conditions.name}`);
+  }
+
+  /**
+   * Deliver mouse input as touch events and report a touch screen to the page
+   */
+  setTouchEmulation(contents: Electron.WebContents, enabled: boolean): void {
+    this.sendCommand(
+      contents,
+      "Emulation.setTouchEmulationEnabled",
+      enabled ? { enabled, maxTouchPoints: 5 } : { enabled }
+    );
+    this.sendCommand(contents, "Emulation.setEmitTouchEventsForMouse", {
+      enabled,
+      configuration: "mobile",
+    });
+    this.applyTouchCursor(contents, enabled);
+  }
+
+  /**
+   * Show or hide the touch cursor (inserted CSS is lost on navigation, so re-apply on dom-ready)
+   */
+  async applyTouchCursor(contents: Electron.WebContents, enabled: boolean): Promise<void> {
+    if (contents.isDestroyed()) return;
+
+    const key = this.touchCursorKeys.get(contents.id);
+    if (key) {
+      this.touchCursorKeys.delete(contents.id);
+      await contents.removeInsertedCSS(key).catch(() => {
+        // Already gone after a navigation
+      });
+    }
+
+    if (enabled) {
+      try {
+        this.touchCursorKeys.set(contents.id, await contents.insertCSS(TOUCH_CURSOR_CSS));
+      } catch (error) {
+        console.error("[EmulationManager] Failed to insert touch cursor:", error);
+      }
+    }
+  }
+
+  /**
+   * Override the time zone and locale of a tab (Accept-Language is set by the request header hook)
+   */
+  setLocaleOverride(contents: Electron.WebContents, override: LocaleOverride): void {
+    // Empty timezone id and missing locale restore the host settings
+    this.sendCommand(contents, "Emulation.setTimezoneOverride", {
+      timezoneId: override.timezone ?? "",
+    });
+    this.sendCommand(
+      contents,
+      "Emulation.setLocaleOverride",
+      override.locale ? { locale: override.locale } : {}
+    );
+  }
+
+  /**
+   * Override the position reported by the Geolocation API, or restore the real one
+   */
+  setGeolocation(contents: Electron.WebContents, override: GeolocationOverride | null): void {
+    if (override) {
+      this.sendCommand(contents, "Emulation.setGeolocationOverride", { ...override });
+    } else {
+      this.sendCommand(contents, "Emulation.clearGeolocationOverride");
+    }
+  }
+
+  /**
+   * Emulate CSS media features; an empty value restores the system setting
+   */
+  setEmulatedMedia(contents: Electron.WebContents, features: EmulatedMediaFeatures): void {
+    this.sendCommand(contents, "Emulation.setEmulatedMedia", {
+      features: (Object.keys(MEDIA_FEATURE_NAMES) as Array<keyof EmulatedMediaFeatures>).map(
+        (key) => ({ name: MEDIA_FEATURE_NAMES[key], value: features[key] ?? "" })
+      ),
+    });
+  }
+
+  /**
+   * Attach the debugger to a mirror follower and apply its own device emulation
+   */
+  attachMirror(
+    contents: Electron.WebContents,
+    profile: DeviceProfile,
+    orientation: DeviceOrientation,
+    size: { width: number; height: number },
+    scale: number
+  ): void {
+    if (!this.ensureAttached(contents)) return;
+    this.applyMirrorMetrics(contents, profile, orientation, size, scale);
+  }
+
+  /**
+   * Emulate a follower device at its true CSS size, scaled down to fit the mirror window
+   */
+  applyMirrorMetrics(
+    contents: Electron.WebContents,
+    profile: DeviceProfile,
+    orientation: DeviceOrientation,
+    size: { width: number; height: number },
+    scale: number
+  ): void {
+    this.sendCommand(contents, "Emulation.setDeviceMetricsOverride", {
+      width: size.width,
+      height: size.height,
+      deviceScaleFactor: profile.devicePixelRatio,
+      mobile: true,
+      scale,
+      ...this.getScreenMetrics(profile, orientation),
+    });
+  }
+
+  /**
+   * Rewrite request headers of tabs and mirror followers with emulation overrides (once per session)
+   */
+  private ensureRequestHeaderHook(tabSession: Electron.Session): void {
+    if (this.hookedSessions.has(tabSession)) return;
+    this.hookedSessions.add(tabSession);
+
+    tabSession.webRequest.onBeforeSendHeaders((details, callback) => {
+      const tab = this.state.tabs.find(
+        (t) => !t.view.webContents.isDestroyed() && t.view.webContents.id === details.webContentsId
+      );
+      const requestHeaders = { ...details.requestHeaders };
+
+      // Client hints follow the user agent the request is sent with
+      const contents =
+        details.webContentsId !== undefined ? webContents.fromId(details.webContentsId) : undefined;
+      if (contents && !contents.isDestroyed()) {
+        applyClientHintHeaders(
+          requestHeaders,
+          getUserAgentFingerprint(contents.getUserAgent()).metadata
+        );
+      }
+
+      if (tab?.localeOverride?.acceptLanguage) {
+        requestHeaders["Accept-Language"] = tab.localeOverride.acceptLanguage;
+      }
+
+      callback({ requestHeaders });
+    });
+  }
+
+  /**
+   * Screen size and orientation reported to the page
+   */
+  private getScreenMetrics(profile: DeviceProfile, orientation: DeviceOrientation) {
+    const { width, height } = profile.viewport;
+    const isLandscape = isLandscapeOrientation(orientation);
+
+    return {
+      screenWidth: isLandscape ? height : width,
+      screenHeight: isLandscape ? width : height,
+      screenOrientation: SCREEN_ORIENTATIONS[orientation],
+    };
+  }
+
+  /**
+   * Attach the debugger if needed, returns false when it cannot be attached
+   */
+  private ensureAttached(contents: Electron.WebContents): boolean {
+    if (contents.isDestroyed()) return false;
+    if (contents.debugger.isAttached()) return true;
+
+    try {
+      contents.debugger.attach(DEBUGGER_PROTOCOL_VERSION);
+      return true;
+    } catch (error) {
+      console.error("[EmulationManager] Failed to attach debugger:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Send a CDP command, re-attaching the debugger if it was detached
+   */
+  private async sendCommand(
+    contents: Electron.WebContents,
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<unknown> {
+    if (!this.ensureAttached(contents)) return null;
+
+    try {
+      return await contents.debugger.sendCommand(method, params);
+    } catch (error) {
+      console.error(`[EmulationManager] ${method} failed:`, error);
+      return null;
+    }
+  }
+}
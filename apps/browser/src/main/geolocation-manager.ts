@@ -0,0 +1,256 @@
+/**
+ * Geolocation emulation: saved locations and route playback for the active tab
+ */
+
+import { app } from "electron";
+import path from "path";
+import fs from "fs";
+import { AppState, GeolocationOverride, GeolocationRoute, SavedLocation } from "./types";
+import { TabManager } from "./tab-manager";
+
+// Seeded the first time, before the user saves their own locations
+const DEFAULT_SAVED_LOCATIONS: SavedLocation[] = [
+  { id: "location-seoul", name: "Seoul City Hall", latitude: 37.5663, longitude: 126.9779, accuracy: 20 },
+  { id: "location-gangnam", name: "Gangnam Station", latitude: 37.4979, longitude: 127.0276, accuracy: 20 },
+  { id: "location-tokyo", name: "Tokyo Station", latitude: 35.6812, longitude: 139.7671, accuracy: 20 },
+  { id: "location-san-francisco", name: "San Francisco", latitude: 37.7749, longitude: -122.4194, accuracy: 20 },
+];
+
+// How often the position is updated while a route is playing
+const ROUTE_TICK_MS = 1000;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Great-circle distance between two positions in meters
+ */
+function getDistance(from: GeolocationOverride, to: GeolocationOverride): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+export class GeolocationManager {
+  private state: AppState;
+  private tabManager: TabManager;
+  private locationsPath: string;
+  private savedLocations: SavedLocation[] = [];
+  private route: GeolocationRoute | null = null;
+  private routeTabId: string | null = null;
+  private routeTimer: NodeJS.Timeout | null = null;
+  private routeDistance = 0; // Meters travelled since the route started
+
+  constructor(state: AppState, tabManager: TabManager) {
+    this.state = state;
+    this.tabManager = tabManager;
+    this.locationsPath = path.join(app.getPath("userData"), "locations.json");
+    this.loadLocations();
+  }
+
+  /**
+   * Load saved locations from file
+   */
+  private loadLocations(): void {
+    try {
+      if (fs.existsSync(this.locationsPath)) {
+        const data = fs.readFileSync(this.locationsPath, "utf-8");
+        this.savedLocations = JSON.parse(data);
+        console.log(`[GeolocationManager] Loaded ${this.savedLocations.length} saved locations`);
+      } else {
+        this.savedLocations = [...DEFAULT_SAVED_LOCATIONS];
+        console.log("[GeolocationManager] No locations file found, using defaults");
+      }
+    } catch (error) {
+      console.error("[GeolocationManager] Failed to load saved locations:", error);
+      this.savedLocations = [...DEFAULT_SAVED_LOCATIONS];
+    }
+  }
+
+  /**
+   * Save locations to file
+   */
+  private saveLocations(): void {
+    try {
+      const data = JSON.stringify(this.savedLocations, null, 2);
+      fs.writeFileSync(this.locationsPath, data, "utf-8");
+    } catch (error) {
+      console.error("[GeolocationManager] Failed to save locations:", error);
+    }
+  }
+
+  /**
+   * Serializable geolocation state of the active tab for the renderer
+   */
+  getState() {
+    const tab = this.state.tabs.find((t) => t.id === this.state.activeTabId);
+
+    return {
+      override: tab?.geolocation ?? null,
+      savedLocations: [...this.savedLocations],
+      route: this.route,
+      isRoutePlaying: this.routeTimer !== null && this.routeTabId === this.state.activeTabId,
+    };
+  }
+
+  /**
+   * Set or clear the emulated position of the active tab
+   */
+  setOverride(override: GeolocationOverride | null): void {
+    const tabId = this.state.activeTabId;
+    if (!tabId) return;
+
+    if (this.routeTabId === tabId) {
+      this.stopRoute();
+    }
+
+    this.tabManager.setGeolocation(tabId, override ? this.normalize(override) : null);
+    this.notifyStateChanged();
+  }
+
+  /**
+   * Save a named location
+   */
+  addLocation(name: string, position: GeolocationOverride): SavedLocation {
+    const location: SavedLocation = {
+      id: `location-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim() || "Untitled",
+      ...this.normalize(position),
+    };
+
+    this.savedLocations.push(location);
+    this.saveLocations();
+    this.notifyStateChanged();
+    console.log(`[GeolocationManager] Saved location: ${location.name}`);
+    return location;
+  }
+
+  /**
+   * Remove a saved location
+   */
+  removeLocation(id: string): boolean {
+    const index = this.savedLocations.findIndex((l) => l.id === id);
+    if (index === -1) {
+      console.error(`[GeolocationManager] Saved location not found: ${id}`);
+      return false;
+    }
+
+    this.savedLocations.splice(index, 1);
+    this.saveLocations();
+    this.notifyStateChanged();
+    return true;
+  }
+
+  /**
+   * Move the active tab's position along saved locations at the given speed
+   */
+  startRoute(route: GeolocationRoute): boolean {
+    const tabId = this.state.activeTabId;
+    const waypoints = this.getWaypoints(route);
+    if (!tabId || waypoints.length < 2) {
+      console.error("[GeolocationManager] A route needs an active tab and at least two locations");
+      return false;
+    }
+
+    this.stopRoute();
+    this.route = { ...route, speedKmh: Math.max(1, route.speedKmh) };
+    this.routeTabId = tabId;
+    this.routeDistance = 0;
+    this.tabManager.setGeolocation(tabId, this.normalize(waypoints[0]));
+
+    this.routeTimer = setInterval(() => this.advanceRoute(), ROUTE_TICK_MS);
+    this.notifyStateChanged();
+    console.log(`[GeolocationManager] Route started with ${waypoints.length} locations`);
+    return true;
+  }
+
+  /**
+   * Stop route playback, the tab keeps its last position
+   */
+  stopRoute(): void {
+    if (this.routeTimer) {
+      clearInterval(this.routeTimer);
+      this.routeTimer = null;
+      this.notifyStateChanged();
+    }
+    this.routeTabId = null;
+  }
+
+  /**
+   * Advance the route by one tick and update the tab's position
+   */
+  private advanceRoute(): void {
+    const tab = this.state.tabs.find((t) => t.id === this.routeTabId);
+    const waypoints = this.route ? this.getWaypoints(this.route) : [];
+    if (!this.route || !tab || waypoints.length < 2) {
+      this.stopRoute();
+      return;
+    }
+
+    const segments = waypoints.slice(1).map((to, i) => ({
+      from: waypoints[i],
+      to,
+      length: getDistance(waypoints[i], to),
+    }));
+    const totalLength = segments.reduce((sum, segment) => sum + segment.length, 0);
+
+    this.routeDistance += (this.route.speedKmh * 1000 * ROUTE_TICK_MS) / 3600000;
+    if (this.routeDistance >= totalLength) {
+      if (!this.route.loop || totalLength === 0) {
+        this.tabManager.setGeolocation(tab.id, this.normalize(waypoints[waypoints.length - 1]));
+        this.stopRoute();
+        return;
+      }
+      this.routeDistance %= totalLength;
+    }
+
+    // Find the segment we are on and interpolate linearly within it
+    let remaining = this.routeDistance;
+    const segment =
+      segments.find((s) => {
+        if (remaining <= s.length) return true;
+        remaining -= s.length;
+        return false;
+      }) ?? segments[segments.length - 1];
+    const progress = segment.length === 0 ? 1 : remaining / segment.length;
+
+    this.tabManager.setGeolocation(tab.id, {
+      latitude: segment.from.latitude + (segment.to.latitude - segment.from.latitude) * progress,
+      longitude: segment.from.longitude + (segment.to.longitude - segment.from.longitude) * progress,
+      accuracy: segment.to.accuracy,
+    });
+    this.notifyStateChanged();
+  }
+
+  /**
+   * Saved locations of a route that still exist
+   */
+  private getWaypoints(route: GeolocationRoute): SavedLocation[] {
+    return route.locationIds
+      .map((id) => this.savedLocations.find((l) => l.id === id))
+      .filter((l): l is SavedLocation => !!l);
+  }
+
+  /**
+   * Clamp a position to valid coordinates
+   */
+  private normalize(position: GeolocationOverride): GeolocationOverride {
+    return {
+      latitude: Math.min(90, Math.max(-90, Number(position.latitude) || 0)),
+      longitude: Math.min(180, Math.max(-180, Number(position.longitude) || 0)),
+      accuracy: Math.max(1, Number(position.accuracy) || 1),
+    };
+  }
+
+  /**
+   * Notify the main window about geolocation changes
+   */
+  notifyStateChanged(): void {
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send("geolocation-changed", this.getState());
+    }
+  }
+}
@@ -6,12 +6,32 @@ import { app } from "electron";
 import { AppState } from "./types";
 import { ThemeColorCache } from "./theme-cache";
 import { TabManager } from "./tab-manager";
+import { TabDiscardManager } from "./tab-discard-manager";
 import { WindowManager } from "./window-manager";
 import { BookmarkManager } from "./bookmark-manager";
 import { FaviconCache } from "./favicon-cache";
+import { DeviceProfileStore } from "./device-profile-store";
+import { MediaFeatureStore } from "./media-feature-store";
+import { PreferencesStore } from "./preferences-store";
+import { SessionStore } from "./session-store";
+import { UserAgentRuleStore } from "./user-agent-rule-store";
 import { IPCHandlers } from "./ipc-handlers";
 import { TrayManager } from "./tray-manager";
 import { AppLifecycle } from "./app-lifecycle";
+import { EmulationManager } from "./emulation-manager";
+import { MirrorManager } from "./mirror-manager";
+import { GeolocationManager } from "./geolocation-manager";
+import { getDefaultDeviceProfile } from "./device-profiles";
+import { getDefaultNetworkConditions } from "./network-conditions";
+
+const preferencesStore = new PreferencesStore();
+const userAgentRuleStore = new UserAgentRuleStore();
+const sessionStore = new SessionStore();
+const deviceProfileStore = new DeviceProfileStore();
+
+// The device and orientation of the last session come back even when tabs start blank
+const lastSession = sessionStore.getLastSession();
+const lastDeviceProfile = lastSession && deviceProfileStore.getById(lastSession.deviceProfileId);
 
 // Initialize application state
 const appState: AppState = {
@@ -19,20 +39,35 @@ const appState: AppState = {
   tray: null,
   isAlwaysOnTop: false,
   webContentsView: null,
-  isLandscape: false,
+  orientation: (lastDeviceProfile && lastSession?.orientation) || "portrait",
+  deviceProfile: lastDeviceProfile || getDefaultDeviceProfile(),
+  frameZoom: 1,
+  frameScale: 1,
+  isBareMode: preferencesStore.get("isBareMode"),
+  networkConditions: getDefaultNetworkConditions(),
+  userAgentRules: userAgentRuleStore.getAll(),
   tabs: [],
+  tabGroups: [],
   activeTabId: null,
   latestThemeColor: null,
+  mirrorWindow: null,
+  isMirrorEnabled: false,
+  mirrorDevices: [],
 };
 
 // Initialize managers
 const themeColorCache = new ThemeColorCache();
 const bookmarkManager = new BookmarkManager();
 const faviconCache = new FaviconCache();
-const tabManager = new TabManager(appState, themeColorCache);
-const windowManager = new WindowManager(appState, tabManager);
+const mediaFeatureStore = new MediaFeatureStore();
+const emulationManager = new EmulationManager(appState);
+const tabManager = new TabManager(appState, themeColorCache, emulationManager, mediaFeatureStore, sessionStore);
+const tabDiscardManager = new TabDiscardManager(appState, tabManager, preferencesStore);
+const windowManager = new WindowManager(appState, tabManager, emulationManager, preferencesStore);
+const mirrorManager = new MirrorManager(appState, tabManager, emulationManager, deviceProfileStore);
+const geolocationManager = new GeolocationManager(appState, tabManager);
 const trayManager = new TrayManager(appState, windowManager);
-const ipcHandlers = new IPCHandlers(appState, tabManager, windowManager, bookmarkManager, faviconCache, themeColorCache);
+const ipcHandlers = new IPCHandlers(appState, tabManager, windowManager, bookmarkManager, faviconCache, themeColorCache, deviceProfileStore, mirrorManager, emulationManager, geolocationManager, userAgentRuleStore, tabDiscardManager);
 const appLifecycle = new AppLifecycle(appState, windowManager, trayManager);
 
 // Initialize Widevine
@@ -47,4 +82,5 @@ app.on("ready", async () => {
 app.whenReady().then(async () => {
   await appLifecycle.setupApp();
   ipcHandlers.registerHandlers();
+  tabDiscardManager.start();
 });
@@ -3,13 +3,46 @@
  */
 
 import { ipcMain, app, nativeTheme } from "electron";
-import { AppState } from "./types";
+import {
+  AppState,
+  DeviceOrientation,
+  EmulatedMediaFeatures,
+  FrameZoom,
+  GeolocationOverride,
+  GeolocationRoute,
+  LocaleOverride,
+  MirrorEvent,
+  SensorReading,
+  TabDiscardSettings,
+  TabGroup,
+  TabGroupColor,
+  UserAgentPreset,
+} from "./types";
 import { TabManager } from "./tab-manager";
+import { TabDiscardManager } from "./tab-discard-manager";
 import { WindowManager } from "./window-manager";
 import { BookmarkManager } from "./bookmark-manager";
 import { FaviconCache } from "./favicon-cache";
-import { isValidUrl, sanitizeUrl, getUserAgentForUrl, logSecurityEvent } from "./security";
+import {
+  isValidUrl,
+  sanitizeUrl,
+  getUserAgentForUrl,
+  findUserAgentRule,
+  logSecurityEvent,
+} from "./security";
 import { ThemeColorCache } from "./theme-cache";
+import { getDefaultDeviceProfile } from "./device-profiles";
+import { DeviceProfileStore, CustomDeviceProfileInput } from "./device-profile-store";
+import { MirrorManager } from "./mirror-manager";
+import { EmulationManager } from "./emulation-manager";
+import { GeolocationManager } from "./geolocation-manager";
+import { UserAgentRuleStore, UserAgentRuleInput } from "./user-agent-rule-store";
+import {
+  NETWORK_CONDITIONS_PRESETS,
+  getNetworkConditionsPreset,
+  createCustomNetworkConditions,
+} from "./network-conditions";
+import { DEVICE_ORIENTATIONS, FRAME_ZOOM_PRESETS } from "./constants";
 
 export class IPCHandlers {
   private state: AppState;
@@ -18,6 +51,12 @@ export class IPCHandlers {
   private bookmarkManager: BookmarkManager;
   private faviconCache: FaviconCache;
   private themeColorCache: ThemeColorCache;
+  private deviceProfileStore: DeviceProfileStore;
+  private mirrorManager: MirrorManager;
+  private emulationManager: EmulationManager;
+  private geolocationManager: GeolocationManager;
+  private userAgentRuleStore: UserAgentRuleStore;
+  private tabDiscardManager: TabDiscardManager;
 
   constructor(
     state: AppState,
@@ -25,7 +64,13 @@ export class IPCHandlers {
     windowManager: WindowManager,
     bookmarkManager: BookmarkManager,
     faviconCache: FaviconCache,
-    themeColorCache: ThemeColorCache
+    themeColorCache: ThemeColorCache,
+    deviceProfileStore: DeviceProfileStore,
+    mirrorManager: MirrorManager,
+    emulationManager: EmulationManager,
+    geolocationManager: GeolocationManager,
+    userAgentRuleStore: UserAgentRuleStore,
+    tabDiscardManager: TabDiscardManager
   ) {
     this.state = state;
     this.tabManager = tabManager;
@@ -33,6 +78,12 @@ export class IPCHandlers {
     this.bookmarkManager = bookmarkManager;
     this.faviconCache = faviconCache;
     this.themeColorCache = themeColorCache;
+    this.deviceProfileStore = deviceProfileStore;
+    this.mirrorManager = mirrorManager;
+    this.emulationManager = emulationManager;
+    this.geolocationManager = geolocationManager;
+    this.userAgentRuleStore = userAgentRuleStore;
+    this.tabDiscardManager = tabDiscardManager;
   }
 
   /**
@@ -44,6 +95,13 @@ export class IPCHandlers {
     this.registerWebContentsHandlers();
     this.registerThemeHandlers();
     this.registerOrientationHandlers();
+    this.registerFrameZoomHandlers();
+    this.registerDeviceHandlers();
+    this.registerMirrorHandlers();
+    this.registerEmulationHandlers();
+    this.registerGeolocationHandlers();
+    this.registerUserAgentHandlers();
+    this.registerVirtualKeyboardHandlers();
     this.registerAppHandlers();
     this.registerBookmarkHandlers();
     this.registerFaviconHandlers();
@@ -100,23 +158,22 @@ export class IPCHandlers {
       }
 
       return {
-        tabs: this.state.tabs.map((t) => ({
-          id: t.id,
-          title: t.title,
-          url: t.url,
-          preview: t.preview,
-        })),
+        tabs: this.tabManager.getTabsInfo(),
         activeTabId: this.state.activeTabId,
       };
     });
 
-    ipcMain.handle("tabs-create", (event, url?: string) => {
+    ipcMain.handle("tabs-create", (event, url?: string, groupId?: string | null) => {
       if (event.sender !== this.state.mainWindow?.webContents) {
         logSecurityEvent("Unauthorized IPC call to tabs-create");
         throw new Error("Unauthorized");
       }
 
       const newTab = this.tabManager.createTab(url);
+      // Without a group the new tab joins the group of the tab it was opened from
+      if (groupId !== undefined) {
+        this.tabManager.setTabGroup(newTab.id, groupId);
+      }
       this.tabManager.switchToTab(newTab.id);
 
       return {
@@ -141,7 +198,7 @@ export class IPCHandlers {
         throw new Error("Unauthorized");
       }
 
-      this.tabManager.closeTab(tabId);
+      return this.tabManager.closeTab(tabId);
     });
 
     ipcMain.handle("tabs-close-all", (event) => {
@@ -152,6 +209,110 @@ export class IPCHandlers {
 
       this.tabManager.closeAllTabs();
     });
+
+    ipcMain.handle("tabs-get-recently-closed", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to tabs-get-recently-closed");
+        return [];
+      }
+
+      return this.tabManager.getRecentlyClosedInfo();
+    });
+
+    ipcMain.handle("tabs-reopen-closed", (event, closedTabId?: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to tabs-reopen-closed");
+        throw new Error("Unauthorized");
+      }
+
+      return this.tabManager.reopenClosedTab(closedTabId) !== null;
+    });
+
+    ipcMain.handle("tabs-set-pinned", (event, tabId: string, pinned: boolean) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to tabs-set-pinned");
+        throw new Error("Unauthorized");
+      }
+
+      return this.tabManager.setTabPinned(tabId, pinned);
+    });
+
+    ipcMain.handle("tabs-get-groups", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to tabs-get-groups");
+        return [];
+      }
+
+      return this.tabManager.getTabGroups();
+    });
+
+    ipcMain.handle(
+      "tabs-create-group",
+      (event, name: string, tabIds?: string[], color?: TabGroupColor) => {
+        if (event.sender !== this.state.mainWindow?.webContents) {
+          logSecurityEvent("Unauthorized IPC call to tabs-create-group");
+          throw new Error("Unauthorized");
+        }
+
+        return this.tabManager.createTabGroup(name, tabIds, color);
+      }
+    );
+
+    ipcMain.handle(
+      "tabs-update-group",
+      (event, groupId: string, updates: Partial<Pick<TabGroup, "name" | "color" | "collapsed">>) => {
+        if (event.sender !== this.state.mainWindow?.webContents) {
+          logSecurityEvent("Unauthorized IPC call to tabs-update-group");
+          throw new Error("Unauthorized");
+        }
+
+        return this.tabManager.updateTabGroup(groupId, updates);
+      }
+    );
+
+    ipcMain.handle("tabs-set-group", (event, tabId: string, groupId: string | null) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to tabs-set-group");
+        throw new Error("Unauthorized");
+      }
+
+      return this.tabManager.setTabGroup(tabId, groupId);
+    });
+
+    ipcMain.handle("tabs-close-group", (event, groupId: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to tabs-close-group");
+        throw new Error("Unauthorized");
+      }
+
+      this.tabManager.closeTabGroup(groupId);
+    });
+
+    ipcMain.handle("session-get-restore", () => {
+      return this.windowManager.getRestoreSession();
+    });
+
+    ipcMain.handle("session-set-restore", (event, enabled: boolean) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to session-set-restore");
+        throw new Error("Unauthorized");
+      }
+
+      this.windowManager.setRestoreSession(enabled);
+    });
+
+    ipcMain.handle("tabs-get-discard-settings", () => {
+      return this.tabDiscardManager.getSettings();
+    });
+
+    ipcMain.handle("tabs-set-discard-settings", (event, updates: Partial<TabDiscardSettings>) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to tabs-set-discard-settings");
+        throw new Error("Unauthorized");
+      }
+
+      return this.tabDiscardManager.updateSettings(updates);
+    });
   }
 
   /**
@@ -186,8 +347,20 @@ export class IPCHandlers {
       if (this.state.webContentsView && !this.state.webContentsView.webContents.isDestroyed()) {
         const sanitized = sanitizeUrl(url);
         if (isValidUrl(sanitized)) {
-          const userAgent = getUserAgentForUrl(sanitized);
-          this.state.webContentsView.webContents.setUserAgent(userAgent);
+          // Typed URLs of other sites don't replace a pinned tab's page either
+          if (
+            this.state.activeTabId &&
+            this.tabManager.openLeavingPinnedTab(this.state.activeTabId, sanitized)
+          ) {
+            return;
+          }
+
+          const userAgent = getUserAgentForUrl(
+            sanitized,
+            this.state.deviceProfile.userAgent,
+            this.state.userAgentRules
+          );
+          this.emulationManager.setUserAgent(this.state.webContentsView.webContents, userAgent);
           this.state.webContentsView.webContents.loadURL(sanitized);
         } else {
           logSecurityEvent(`Rejected invalid URL`, { url });
@@ -295,7 +468,14 @@ export class IPCHandlers {
           throw new Error("Unauthorized");
         }
         if (this.state.webContentsView) {
-          this.state.webContentsView.setBounds(bounds);
+          // Bounds are measured in CSS pixels of the zoomed main window
+          const zoom = this.state.mainWindow.webContents.getZoomFactor();
+          this.state.webContentsView.setBounds({
+            x: Math.round(bounds.x * zoom),
+            y: Math.round(bounds.y * zoom),
+            width: Math.round(bounds.width * zoom),
+            height: Math.round(bounds.height * zoom),
+          });
         }
       }
     );
@@ -316,6 +496,20 @@ export class IPCHandlers {
         }
       }
     });
+
+    // Fullscreen API emulation in the page (webview preload)
+    ipcMain.on("webview-fullscreen-request", (event, enabled: boolean) => {
+      if (
+        this.state.webContentsView &&
+        event.sender === this.state.webContentsView.webContents &&
+        this.state.activeTabId
+      ) {
+        this.tabManager.setPageFullscreen(this.state.activeTabId, enabled === true);
+      } else {
+        // Background tabs can't go fullscreen
+        event.sender.send("set-fullscreen-state", false);
+      }
+    });
   }
 
   /**
@@ -370,12 +564,532 @@ export class IPCHandlers {
    */
   private registerOrientationHandlers(): void {
     ipcMain.handle("get-orientation", () => {
-      return this.state.isLandscape ? "landscape" : "portrait";
+      return this.state.orientation;
     });
 
     ipcMain.handle("toggle-orientation", () => {
       return this.windowManager.toggleOrientation();
     });
+
+    ipcMain.handle("set-orientation", (event, orientation: DeviceOrientation) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to set-orientation");
+        throw new Error("Unauthorized");
+      }
+      if (!DEVICE_ORIENTATIONS.includes(orientation)) {
+        throw new Error(`Invalid orientation: ${orientation}`);
+      }
+      return this.windowManager.setOrientation(orientation);
+    });
+
+    // screen.orientation.lock() from a page rotates the device, but only from the active tab
+    ipcMain.handle("orientation-lock", (event, orientation: DeviceOrientation) => {
+      if (event.sender !== this.state.webContentsView?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to orientation-lock");
+        throw new Error("Unauthorized");
+      }
+      if (!DEVICE_ORIENTATIONS.includes(orientation)) {
+        throw new Error(`Invalid orientation: ${orientation}`);
+      }
+      return this.windowManager.setOrientation(orientation);
+    });
+
+    // Also read by the webview preload to skip corner masks
+    ipcMain.handle("bare-mode-get", () => {
+      return this.state.isBareMode;
+    });
+
+    ipcMain.handle("bare-mode-toggle", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to bare-mode-toggle");
+        throw new Error("Unauthorized");
+      }
+      return this.windowManager.toggleBareMode();
+    });
+  }
+
+  /**
+   * Register device frame zoom handlers
+   */
+  private registerFrameZoomHandlers(): void {
+    ipcMain.handle("frame-zoom-get", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to frame-zoom-get");
+        throw new Error("Unauthorized");
+      }
+      return this.windowManager.getFrameZoom();
+    });
+
+    ipcMain.handle("frame-zoom-set", (event, zoom: FrameZoom) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to frame-zoom-set");
+        throw new Error("Unauthorized");
+      }
+      if (zoom !== "fit" && !FRAME_ZOOM_PRESETS.includes(zoom)) {
+        throw new Error(`Invalid frame zoom: ${zoom}`);
+      }
+      this.windowManager.setFrameZoom(zoom);
+      return this.windowManager.getFrameZoom();
+    });
+  }
+
+  /**
+   * Notify the main window about custom device profile changes
+   */
+  private notifyDevicesUpdate(): void {
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send("devices-updated");
+    }
+
+    // Mirror followers pick up edited or deleted profiles
+    this.mirrorManager.refresh();
+  }
+
+  /**
+   * Register device profile handlers
+   */
+  private registerDeviceHandlers(): void {
+    ipcMain.handle("devices-get-all", () => {
+      return this.deviceProfileStore.getAll();
+    });
+
+    // Also used by the webview preload to shape corner masks
+    ipcMain.handle("device-get-active", () => {
+      return this.state.deviceProfile;
+    });
+
+    ipcMain.handle("device-set-active", (event, profileId: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to device-set-active");
+        throw new Error("Unauthorized");
+      }
+
+      const profile = this.deviceProfileStore.getById(profileId);
+      if (!profile) {
+        throw new Error(`Unknown device profile: ${profileId}`);
+      }
+
+      this.windowManager.setDeviceProfile(profile);
+      return profile;
+    });
+
+    ipcMain.handle("devices-add", (event, input: CustomDeviceProfileInput) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to devices-add");
+        throw new Error("Unauthorized");
+      }
+
+      const profile = this.deviceProfileStore.add(input);
+      this.notifyDevicesUpdate();
+      return profile;
+    });
+
+    ipcMain.handle(
+      "devices-update",
+      (event, id: string, updates: Partial<CustomDeviceProfileInput>) => {
+        if (event.sender !== this.state.mainWindow?.webContents) {
+          logSecurityEvent("Unauthorized IPC call to devices-update");
+          throw new Error("Unauthorized");
+        }
+
+        const profile = this.deviceProfileStore.update(id, updates);
+        this.notifyDevicesUpdate();
+
+        // Re-apply edits to the device currently being emulated
+        if (profile && this.state.deviceProfile.id === id) {
+          this.windowManager.setDeviceProfile(profile);
+        }
+        return profile;
+      }
+    );
+
+    ipcMain.handle("devices-duplicate", (event, id: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to devices-duplicate");
+        throw new Error("Unauthorized");
+      }
+
+      const profile = this.deviceProfileStore.duplicate(id);
+      this.notifyDevicesUpdate();
+      return profile;
+    });
+
+    ipcMain.handle("devices-remove", (event, id: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to devices-remove");
+        throw new Error("Unauthorized");
+      }
+
+      const result = this.deviceProfileStore.remove(id);
+      this.notifyDevicesUpdate();
+
+      // Fall back to the default device when the active profile is deleted
+      if (result && this.state.deviceProfile.id === id) {
+        this.windowManager.setDeviceProfile(getDefaultDeviceProfile());
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Register mirror mode handlers
+   */
+  private registerMirrorHandlers(): void {
+    ipcMain.handle("mirror-get-state", () => {
+      return this.mirrorManager.getState();
+    });
+
+    ipcMain.handle("mirror-set-enabled", (event, enabled: boolean) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to mirror-set-enabled");
+        throw new Error("Unauthorized");
+      }
+      this.mirrorManager.setEnabled(enabled);
+    });
+
+    ipcMain.handle("mirror-add-device", (event, profileId: string, isLandscape: boolean) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to mirror-add-device");
+        throw new Error("Unauthorized");
+      }
+      return this.mirrorManager.addDevice(profileId, isLandscape) !== null;
+    });
+
+    ipcMain.handle(
+      "mirror-update-device",
+      (event, id: string, updates: { enabled?: boolean; isLandscape?: boolean }) => {
+        if (event.sender !== this.state.mainWindow?.webContents) {
+          logSecurityEvent("Unauthorized IPC call to mirror-update-device");
+          throw new Error("Unauthorized");
+        }
+        return this.mirrorManager.updateDevice(id, updates);
+      }
+    );
+
+    ipcMain.handle("mirror-remove-device", (event, id: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to mirror-remove-device");
+        throw new Error("Unauthorized");
+      }
+      return this.mirrorManager.removeDevice(id);
+    });
+
+    // Interactions captured by the leader tab's webview preload
+    ipcMain.on("mirror-event", (event, mirrorEvent: MirrorEvent) => {
+      if (this.state.webContentsView && event.sender === this.state.webContentsView.webContents) {
+        this.tabManager.replayMirrorEvent(mirrorEvent);
+      }
+    });
+  }
+
+  /**
+   * Register per-tab emulation handlers (apply to the active tab)
+   */
+  private registerEmulationHandlers(): void {
+    ipcMain.handle("emulation-get-touch", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to emulation-get-touch");
+        throw new Error("Unauthorized");
+      }
+      const tab = this.state.tabs.find((t) => t.id === this.state.activeTabId);
+      return tab?.touchEmulation ?? false;
+    });
+
+    ipcMain.handle("emulation-set-touch", (event, enabled: boolean) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to emulation-set-touch");
+        throw new Error("Unauthorized");
+      }
+      if (this.state.activeTabId) {
+        this.tabManager.setTouchEmulation(this.state.activeTabId, enabled);
+      }
+    });
+
+    ipcMain.handle("emulation-get-media", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to emulation-get-media");
+        throw new Error("Unauthorized");
+      }
+      const tab = this.state.tabs.find((t) => t.id === this.state.activeTabId);
+      return tab?.emulatedMedia ?? {};
+    });
+
+    ipcMain.handle("emulation-set-media", (event, features: EmulatedMediaFeatures) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to emulation-set-media");
+        throw new Error("Unauthorized");
+      }
+      if (this.state.activeTabId) {
+        this.tabManager.setEmulatedMedia(this.state.activeTabId, features);
+      }
+    });
+
+    ipcMain.handle("emulation-get-locale", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to emulation-get-locale");
+        throw new Error("Unauthorized");
+      }
+      const tab = this.state.tabs.find((t) => t.id === this.state.activeTabId);
+      return tab?.localeOverride ?? {};
+    });
+
+    ipcMain.handle("emulation-set-locale", (event, override: LocaleOverride) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to emulation-set-locale");
+        throw new Error("Unauthorized");
+      }
+      if (this.state.activeTabId) {
+        this.tabManager.setLocaleOverride(this.state.activeTabId, override);
+      }
+    });
+
+    ipcMain.handle("sensors-get", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to sensors-get");
+        throw new Error("Unauthorized");
+      }
+      const tab = this.state.tabs.find((t) => t.id === this.state.activeTabId);
+      return tab?.sensors ?? null;
+    });
+
+    ipcMain.handle("sensors-set", (event, reading: SensorReading | null) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to sensors-set");
+        throw new Error("Unauthorized");
+      }
+      if (this.state.activeTabId) {
+        this.tabManager.setSensors(this.state.activeTabId, reading);
+      }
+    });
+
+    ipcMain.handle("sensors-shake", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to sensors-shake");
+        throw new Error("Unauthorized");
+      }
+      if (this.state.activeTabId) {
+        this.tabManager.shakeDevice(this.state.activeTabId);
+      }
+    });
+
+    ipcMain.handle("network-get-presets", () => {
+      return NETWORK_CONDITIONS_PRESETS;
+    });
+
+    ipcMain.handle("network-get-active", () => {
+      return this.state.networkConditions;
+    });
+
+    ipcMain.handle("network-set-active", (event, presetId: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to network-set-active");
+        throw new Error("Unauthorized");
+      }
+
+      const conditions = getNetworkConditionsPreset(presetId);
+      if (!conditions) {
+        throw new Error(`Unknown network preset: ${presetId}`);
+      }
+
+      this.emulationManager.setNetworkConditions(conditions);
+      this.notifyNetworkChanged();
+      return conditions;
+    });
+
+    ipcMain.handle(
+      "network-set-custom",
+      (event, values: { latency: number; downloadKbps: number; uploadKbps: number }) => {
+        if (event.sender !== this.state.mainWindow?.webContents) {
+          logSecurityEvent("Unauthorized IPC call to network-set-custom");
+          throw new Error("Unauthorized");
+        }
+
+        const conditions = createCustomNetworkConditions(values);
+        this.emulationManager.setNetworkConditions(conditions);
+        this.notifyNetworkChanged();
+        return conditions;
+      }
+    );
+  }
+
+  /**
+   * Notify the renderer and re-apply user agents after the rules changed
+   */
+  private notifyUserAgentRulesUpdate(): void {
+    this.state.userAgentRules = this.userAgentRuleStore.getAll();
+    this.tabManager.applyUserAgentRules();
+
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send("user-agent-rules-updated");
+    }
+  }
+
+  /**
+   * Register per-domain user agent rule handlers
+   */
+  private registerUserAgentHandlers(): void {
+    ipcMain.handle("user-agent-rules-get-all", () => {
+      return this.state.userAgentRules;
+    });
+
+    ipcMain.handle("user-agent-rules-add", (event, input: UserAgentRuleInput) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to user-agent-rules-add");
+        throw new Error("Unauthorized");
+      }
+
+      const rule = this.userAgentRuleStore.add(input);
+      this.notifyUserAgentRulesUpdate();
+      return rule;
+    });
+
+    ipcMain.handle(
+      "user-agent-rules-update",
+      (event, id: string, updates: Partial<UserAgentRuleInput & { enabled: boolean }>) => {
+        if (event.sender !== this.state.mainWindow?.webContents) {
+          logSecurityEvent("Unauthorized IPC call to user-agent-rules-update");
+          throw new Error("Unauthorized");
+        }
+
+        const rule = this.userAgentRuleStore.update(id, updates);
+        this.notifyUserAgentRulesUpdate();
+        return rule;
+      }
+    );
+
+    ipcMain.handle("user-agent-rules-remove", (event, id: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to user-agent-rules-remove");
+        throw new Error("Unauthorized");
+      }
+
+      const result = this.userAgentRuleStore.remove(id);
+      this.notifyUserAgentRulesUpdate();
+      return result;
+    });
+
+    // Preset the active tab's site is loaded with, null for pages without a domain
+    ipcMain.handle("user-agent-get-site-preset", (event): UserAgentPreset | null => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to user-agent-get-site-preset");
+        throw new Error("Unauthorized");
+      }
+
+      const url = this.state.webContentsView?.webContents.getURL() ?? "";
+      if (!/^https?:/.test(url)) return null;
+      return findUserAgentRule(url, this.state.userAgentRules)?.preset ?? "mobile";
+    });
+
+    // "Request Desktop Website": remember the choice for the site and reload it
+    ipcMain.handle("user-agent-request-desktop", (event, desktop: boolean) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to user-agent-request-desktop");
+        throw new Error("Unauthorized");
+      }
+
+      const contents = this.state.webContentsView?.webContents;
+      if (!contents || contents.isDestroyed()) return false;
+
+      const preset: UserAgentPreset = desktop ? "desktop" : "mobile";
+      if (!this.userAgentRuleStore.setPresetForUrl(contents.getURL(), preset)) return false;
+
+      this.notifyUserAgentRulesUpdate();
+      contents.reload();
+      return true;
+    });
+  }
+
+  /**
+   * Register virtual keyboard handlers
+   */
+  private registerVirtualKeyboardHandlers(): void {
+    // Focus changes reported by the active tab's webview preload
+    ipcMain.on("virtual-keyboard-focus", (event, focus: unknown) => {
+      if (this.state.webContentsView && event.sender === this.state.webContentsView.webContents) {
+        this.state.mainWindow?.webContents.send("virtual-keyboard-changed", focus);
+      }
+    });
+
+    ipcMain.handle("virtual-keyboard-key", (event, key: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to virtual-keyboard-key");
+        throw new Error("Unauthorized");
+      }
+      this.tabManager.sendVirtualKey(key);
+    });
+
+    ipcMain.handle("virtual-keyboard-dismiss", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to virtual-keyboard-dismiss");
+        throw new Error("Unauthorized");
+      }
+      this.tabManager.dismissVirtualKeyboard();
+    });
+  }
+
+  /**
+   * Register geolocation emulation handlers (apply to the active tab)
+   */
+  private registerGeolocationHandlers(): void {
+    ipcMain.handle("geolocation-get-state", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to geolocation-get-state");
+        throw new Error("Unauthorized");
+      }
+      return this.geolocationManager.getState();
+    });
+
+    ipcMain.handle("geolocation-set", (event, override: GeolocationOverride | null) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to geolocation-set");
+        throw new Error("Unauthorized");
+      }
+      this.geolocationManager.setOverride(override);
+    });
+
+    ipcMain.handle(
+      "geolocation-add-location",
+      (event, name: string, position: GeolocationOverride) => {
+        if (event.sender !== this.state.mainWindow?.webContents) {
+          logSecurityEvent("Unauthorized IPC call to geolocation-add-location");
+          throw new Error("Unauthorized");
+        }
+        return this.geolocationManager.addLocation(name, position);
+      }
+    );
+
+    ipcMain.handle("geolocation-remove-location", (event, id: string) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to geolocation-remove-location");
+        throw new Error("Unauthorized");
+      }
+      return this.geolocationManager.removeLocation(id);
+    });
+
+    ipcMain.handle("geolocation-start-route", (event, route: GeolocationRoute) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to geolocation-start-route");
+        throw new Error("Unauthorized");
+      }
+      return this.geolocationManager.startRoute(route);
+    });
+
+    ipcMain.handle("geolocation-stop-route", (event) => {
+      if (event.sender !== this.state.mainWindow?.webContents) {
+        logSecurityEvent("Unauthorized IPC call to geolocation-stop-route");
+        throw new Error("Unauthorized");
+      }
+      this.geolocationManager.stopRoute();
+    });
+  }
+
+  /**
+   * Notify the main window that the network conditions changed
+   */
+  private notifyNetworkChanged(): void {
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send("network-changed", this.state.networkConditions);
+    }
   }
 
   /**
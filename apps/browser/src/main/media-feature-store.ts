@@ -0,0 +1,88 @@
+/**
+ * Emulated CSS media features remembered per domain
+ */
+
+import { app } from "electron";
+import path from "path";
+import fs from "fs";
+import { EmulatedMediaFeatures } from "./types";
+
+export class MediaFeatureStore {
+  private storePath: string;
+  private features: Record<string, EmulatedMediaFeatures> = {}; // hostname -> features
+
+  constructor() {
+    const userDataPath = app.getPath("userData");
+    this.storePath = path.join(userDataPath, "media-features.json");
+    this.loadFeatures();
+  }
+
+  /**
+   * Load remembered features from file
+   */
+  private loadFeatures(): void {
+    try {
+      if (fs.existsSync(this.storePath)) {
+        const data = fs.readFileSync(this.storePath, "utf-8");
+        this.features = JSON.parse(data);
+        console.log(`[MediaFeatureStore] Loaded features for ${Object.keys(this.features).length} domains`);
+      } else {
+        this.features = {};
+      }
+    } catch (error) {
+      console.error("[MediaFeatureStore] Failed to load media features:", error);
+      this.features = {};
+    }
+  }
+
+  /**
+   * Save remembered features to file
+   */
+  private saveFeatures(): void {
+    try {
+      const data = JSON.stringify(this.features, null, 2);
+      fs.writeFileSync(this.storePath, data, "utf-8");
+    } catch (error) {
+      console.error("[MediaFeatureStore] Failed to save media features:", error);
+    }
+  }
+
+  /**
+   * Features remembered for the URL's domain (empty when none)
+   */
+  getForUrl(url: string): EmulatedMediaFeatures {
+    const hostname = this.getHostname(url);
+    return hostname ? { ...this.features[hostname] } : {};
+  }
+
+  /**
+   * Remember features for the URL's domain, returns false for URLs without a domain
+   */
+  setForUrl(url: string, features: EmulatedMediaFeatures): boolean {
+    const hostname = this.getHostname(url);
+    if (!hostname) return false;
+
+    // Drop features that follow the system
+    const overrides = Object.fromEntries(
+      Object.entries(features).filter(([, value]) => !!value)
+    ) as EmulatedMediaFeatures;
+
+    if (Object.keys(overrides).length > 0) {
+      this.features[hostname] = overrides;
+    } else {
+      delete this.features[hostname];
+    }
+
+    this.saveFeatures();
+    return true;
+  }
+
+  private getHostname(url: string): string | null {
+    try {
+      const { protocol, hostname } = new URL(url);
+      return protocol === "http:" || protocol === "https:" ? hostname : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Multi-device mirror mode: follower views replay the active tab on other devices
+ */
+
+import { BrowserWindow, screen } from "electron";
+import { AppState, DeviceOrientation, DeviceProfile, MirrorDevice } from "./types";
+import { TabManager } from "./tab-manager";
+import { EmulationManager } from "./emulation-manager";
+import { DeviceProfileStore } from "./device-profile-store";
+import { getSystemBarInsets } from "./device-profiles";
+import { MIRROR_GAP, MIRROR_PADDING } from "./constants";
+
+// Devices shown the first time mirror mode is turned on
+const DEFAULT_MIRROR_DEVICES: Array<Pick<MirrorDevice, "profileId" | "isLandscape">> = [
+  { profileId: "iphone-se", isLandscape: false },
+  { profileId: "iphone-15-pro-max", isLandscape: false },
+  { profileId: "iphone-15-pro", isLandscape: true },
+];
+
+export class MirrorManager {
+  private state: AppState;
+  private tabManager: TabManager;
+  private emulationManager: EmulationManager;
+  private deviceProfileStore: DeviceProfileStore;
+
+  constructor(
+    state: AppState,
+    tabManager: TabManager,
+    emulationManager: EmulationManager,
+    deviceProfileStore: DeviceProfileStore
+  ) {
+    this.state = state;
+    this.tabManager = tabManager;
+    this.emulationManager = emulationManager;
+    this.deviceProfileStore = deviceProfileStore;
+
+    this.state.mirrorDevices = DEFAULT_MIRROR_DEVICES.map((device) => ({
+      ...device,
+      id: this.generateId(),
+      enabled: true,
+    }));
+  }
+
+  /**
+   * Serializable mirror state for the renderer
+   */
+  getState() {
+    return {
+      enabled: this.state.isMirrorEnabled,
+      devices: this.state.mirrorDevices.map(({ id, profileId, isLandscape, enabled }) => ({
+        id,
+        profileId,
+        isLandscape,
+        enabled,
+      })),
+    };
+  }
+
+  /**
+   * Turn mirror mode on or off
+   */
+  setEnabled(enabled: boolean): void {
+    if (this.state.isMirrorEnabled === enabled) return;
+
+    this.state.isMirrorEnabled = enabled;
+    console.log(`[MirrorManager] Mirror mode ${enabled ? "enabled" : "disabled"}`);
+    this.refresh();
+  }
+
+  /**
+   * Add a device to the mirror layout
+   */
+  addDevice(profileId: string, isLandscape: boolean): MirrorDevice | null {
+    if (!this.deviceProfileStore.getById(profileId)) {
+      console.error(`[MirrorManager] Unknown device profile: ${profileId}`);
+      return null;
+    }
+
+    const device: MirrorDevice = {
+      id: this.generateId(),
+      profileId,
+      isLandscape,
+      enabled: true,
+    };
+    this.state.mirrorDevices.push(device);
+    this.refresh();
+    return device;
+  }
+
+  /**
+   * Toggle a mirror device on or off, or change its orientation
+   */
+  updateDevice(id: string, updates: { enabled?: boolean; isLandscape?: boolean }): boolean {
+    const device = this.state.mirrorDevices.find((d) => d.id === id);
+    if (!device) {
+      console.error(`[MirrorManager] Mirror device not found: ${id}`);
+      return false;
+    }
+
+    if (updates.enabled !== undefined) device.enabled = updates.enabled;
+    if (updates.isLandscape !== undefined) device.isLandscape = updates.isLandscape;
+    this.refresh();
+    return true;
+  }
+
+  /**
+   * Remove a device from the mirror layout
+   */
+  removeDevice(id: string): boolean {
+    const index = this.state.mirrorDevices.findIndex((d) => d.id === id);
+    if (index === -1) {
+      console.error(`[MirrorManager] Mirror device not found: ${id}`);
+      return false;
+    }
+
+    this.destroyFollower(this.state.mirrorDevices[index]);
+    this.state.mirrorDevices.splice(index, 1);
+    this.refresh();
+    return true;
+  }
+
+  /**
+   * Create or destroy follower views and the mirror window to match the current state
+   */
+  refresh(): void {
+    // Drop devices whose custom profile was deleted
+    this.state.mirrorDevices = this.state.mirrorDevices.filter((device) => {
+      if (this.deviceProfileStore.getById(device.profileId)) return true;
+      this.destroyFollower(device);
+      return false;
+    });
+
+    const activeDevices = this.state.isMirrorEnabled
+      ? this.state.mirrorDevices.filter((d) => d.enabled)
+      : [];
+
+    // Destroy followers that are no longer shown
+    this.state.mirrorDevices.forEach((device) => {
+      if (!activeDevices.includes(device)) {
+        this.destroyFollower(device);
+      }
+    });
+
+    if (activeDevices.length === 0) {
+      this.closeWindow();
+    } else {
+      const mirrorWindow = this.ensureWindow();
+
+      activeDevices.forEach((device) => {
+        const profile = this.deviceProfileStore.getById(device.profileId)!;
+
+        // Recreate the follower when its device profile was edited
+        if (device.follower && device.follower.profile !== profile) {
+          this.destroyFollower(device);
+        }
+
+        if (!device.follower) {
+          const view = this.tabManager.createMirrorView(profile);
+          mirrorWindow.contentView.addChildView(view);
+          device.follower = { view, profile };
+          this.emulationManager.attachMirror(
+            view.webContents,
+            profile,
+            this.getOrientation(device.isLandscape),
+            this.getContentSize(profile, device.isLandscape),
+            1
+          );
+        }
+      });
+
+      this.resizeWindow();
+      this.layout();
+    }
+
+    this.tabManager.updateMirrorLeader();
+    this.notifyStateChanged();
+  }
+
+  /**
+   * CSS size of the web content on a device (screen minus system bars)
+   */
+  private getContentSize(profile: DeviceProfile, isLandscape: boolean) {
+    const { width, height } = profile.viewport;
+    const insets = getSystemBarInsets(profile, this.getOrientation(isLandscape));
+
+    return {
+      width: (isLandscape ? height : width) - insets.left - insets.right,
+      height: (isLandscape ? width : height) - insets.top - insets.bottom,
+    };
+  }
+
+  /**
+   * Mirror devices are shown upright or rotated to landscape-left
+   */
+  private getOrientation(isLandscape: boolean): DeviceOrientation {
+    return isLandscape ? "landscape-left" : "portrait";
+  }
+
+  /**
+   * Followers currently shown in the mirror window, left to right
+   */
+  private getShownDevices(): MirrorDevice[] {
+    return this.state.mirrorDevices.filter((d) => d.follower);
+  }
+
+  /**
+   * Common scale that fits the tallest device into the given height
+   */
+  private getScale(availableHeight: number): number {
+    const heights = this.getShownDevices().map(
+      (d) => this.getContentSize(d.follower!.profile, d.isLandscape).height
+    );
+    return Math.min(1, ...heights.map((height) => availableHeight / height));
+  }
+
+  /**
+   * Size the mirror window to fit every shown device side by side
+   */
+  private resizeWindow(): void {
+    const mirrorWindow = this.state.mirrorWindow;
+    if (!mirrorWindow || mirrorWindow.isDestroyed()) return;
+
+    const workArea = screen.getDisplayMatching(mirrorWindow.getBounds()).workArea;
+    const devices = this.getShownDevices();
+    const tallest = Math.max(
+      ...devices.map((d) => this.getContentSize(d.follower!.profile, d.isLandscape).height)
+    );
+    const height = Math.min(tallest + MIRROR_PADDING * 2, workArea.height - 40);
+    const scale = this.getScale(height - MIRROR_PADDING * 2);
+
+    const width =
+      devices.reduce(
+        (sum, d) =>
+          sum + Math.round(this.getContentSize(d.follower!.profile, d.isLandscape).width * scale),
+        0
+      ) +
+      MIRROR_GAP * (devices.length - 1) +
+      MIRROR_PADDING * 2;
+
+    mirrorWindow.setContentSize(Math.min(width, workArea.width), Math.round(height));
+  }
+
+  /**
+   * Position follower views next to each other, scaled to the window height
+   */
+  private layout(): void {
+    const mirrorWindow = this.state.mirrorWindow;
+    if (!mirrorWindow || mirrorWindow.isDestroyed()) return;
+
+    const [, contentHeight] = mirrorWindow.getContentSize();
+    const scale = this.getScale(contentHeight - MIRROR_PADDING * 2);
+    let x = MIRROR_PADDING;
+
+    this.getShownDevices().forEach((device) => {
+      const { view, profile } = device.follower!;
+      const size = this.getContentSize(profile, device.isLandscape);
+      const width = Math.round(size.width * scale);
+
+      view.setBounds({
+        x,
+        y: MIRROR_PADDING,
+        width,
+        height: Math.round(size.height * scale),
+      });
+      this.emulationManager.applyMirrorMetrics(
+        view.webContents,
+        profile,
+        this.getOrientation(device.isLandscape),
+        size,
+        scale
+      );
+
+      x += width + MIRROR_GAP;
+    });
+
+    mirrorWindow.setTitle(
+      `Mirror — ${this.getShownDevices()
+        .map((d) => `${d.follower!.profile.name}${d.isLandscape ? " (Landscape)" : ""}`)
+        .join(" · ")}`
+    );
+  }
+
+  /**
+   * Open the mirror window if needed
+   */
+  private ensureWindow(): BrowserWindow {
+    if (this.state.mirrorWindow && !this.state.mirrorWindow.isDestroyed()) {
+      return this.state.mirrorWindow;
+    }
+
+    const mirrorWindow = new BrowserWindow({
+      width: 800,
+      height: 600,
+      useContentSize: true,
+      title: "Mirror",
+      backgroundColor: "#1c1c1e",
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        sandbox: true,
+      },
+    });
+
+    mirrorWindow.on("resize", () => this.layout());
+
+    // Closed by the user (not by refresh): turn mirror mode off
+    mirrorWindow.on("closed", () => {
+      if (this.state.mirrorWindow !== mirrorWindow) return;
+
+      this.state.mirrorWindow = null;
+      this.state.mirrorDevices.forEach((device) => this.destroyFollower(device));
+      this.setEnabled(false);
+    });
+
+    this.state.mirrorWindow = mirrorWindow;
+    return mirrorWindow;
+  }
+
+  /**
+   * Close the mirror window if it is open
+   */
+  private closeWindow(): void {
+    const mirrorWindow = this.state.mirrorWindow;
+    this.state.mirrorWindow = null;
+
+    if (mirrorWindow && !mirrorWindow.isDestroyed()) {
+      mirrorWindow.close();
+    }
+  }
+
+  /**
+   * Remove and destroy a device's follower view
+   */
+  private destroyFollower(device: MirrorDevice): void {
+    if (!device.follower) return;
+
+    const { view } = device.follower;
+    if (this.state.mirrorWindow && !this.state.mirrorWindow.isDestroyed()) {
+      this.state.mirrorWindow.contentView.removeChildView(view);
+    }
+    if (!view.webContents.isDestroyed()) {
+      view.webContents.close();
+    }
+    device.follower = undefined;
+  }
+
+  /**
+   * Notify the main window about mirror state changes
+   */
+  private notifyStateChanged(): void {
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send("mirror-state-changed", this.getState());
+    }
+  }
+
+  private generateId(): string {
+    return `mirror-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
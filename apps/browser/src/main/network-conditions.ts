@@ -0,0 +1,102 @@
+/**
+ * Network throttling presets
+ */
+
+import { NetworkConditions } from "./types";
+
+export const DEFAULT_NETWORK_CONDITIONS_ID = "no-throttling";
+
+export const CUSTOM_NETWORK_CONDITIONS_ID = "custom";
+
+// Values follow the Chrome DevTools presets
+export const NETWORK_CONDITIONS_PRESETS: NetworkConditions[] = [
+  {
+    id: "no-throttling",
+    name: "No Throttling",
+    offline: false,
+    latency: 0,
+    downloadKbps: 0,
+    uploadKbps: 0,
+    label: "5G",
+    signalBars: 4,
+  },
+  {
+    id: "fast-4g",
+    name: "Fast 4G",
+    offline: false,
+    latency: 165,
+    downloadKbps: 9000,
+    uploadKbps: 1500,
+    label: "LTE",
+    signalBars: 4,
+  },
+  {
+    id: "slow-4g",
+    name: "Slow 4G",
+    offline: false,
+    latency: 563,
+    downloadKbps: 1440,
+    uploadKbps: 675,
+    label: "LTE",
+    signalBars: 2,
+  },
+  {
+    id: "slow-3g",
+    name: "Slow 3G",
+    offline: false,
+    latency: 2000,
+    downloadKbps: 400,
+    uploadKbps: 400,
+    label: "3G",
+    signalBars: 1,
+  },
+  {
+    id: "offline",
+    name: "Offline",
+    offline: true,
+    latency: 0,
+    downloadKbps: 0,
+    uploadKbps: 0,
+    label: "",
+    signalBars: 0,
+  },
+];
+
+/**
+ * Find a network preset by ID
+ */
+export function getNetworkConditionsPreset(id: string): NetworkConditions | undefined {
+  return NETWORK_CONDITIONS_PRESETS.find((preset) => preset.id === id);
+}
+
+/**
+ * Get the default network conditions (no throttling)
+ */
+export function getDefaultNetworkConditions(): NetworkConditions {
+  return getNetworkConditionsPreset(DEFAULT_NETWORK_CONDITIONS_ID) ?? NETWORK_CONDITIONS_PRESETS[0];
+}
+
+/**
+ * Build custom network conditions, deriving the status bar indicator from the throughput
+ */
+export function createCustomNetworkConditions(values: {
+  latency: number;
+  downloadKbps: number;
+  uploadKbps: number;
+}): NetworkConditions {
+  const latency = Math.max(0, Math.round(values.latency) || 0);
+  const downloadKbps = Math.max(0, Math.round(values.downloadKbps) || 0);
+  const uploadKbps = Math.max(0, Math.round(values.uploadKbps) || 0);
+  const speed = downloadKbps === 0 ? Infinity : downloadKbps;
+
+  return {
+    id: CUSTOM_NETWORK_CONDITIONS_ID,
+    name: "Custom",
+    offline: false,
+    latency,
+    downloadKbps,
+    uploadKbps,
+    label: speed >= 5000 ? "LTE" : speed >= 1000 ? "4G" : speed >= 250 ? "3G" : "E",
+    signalBars: speed >= 5000 ? 4 : speed >= 1000 ? 3 : speed >= 250 ? 2 : 1,
+  };
+}
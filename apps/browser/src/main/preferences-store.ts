@@ -0,0 +1,73 @@
+/**
+ * App preferences that survive restarts
+ */
+
+import { app } from "electron";
+import path from "path";
+import fs from "fs";
+import { TabDiscardSettings } from "./types";
+
+export interface Preferences {
+  isBareMode: boolean; // Show only the web view, without frame, status bar and top bar
+  restoreSession: boolean; // Reopen the last session's tabs on startup instead of a blank page
+  tabDiscarding: TabDiscardSettings;
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  isBareMode: false,
+  restoreSession: true,
+  tabDiscarding: {
+    enabled: true,
+    inactiveMinutes: 30,
+    maxLoadedTabs: 10,
+    memoryLimitMB: 0,
+  },
+};
+
+export class PreferencesStore {
+  private preferencesPath: string;
+  private preferences: Preferences = { ...DEFAULT_PREFERENCES };
+
+  constructor() {
+    const userDataPath = app.getPath("userData");
+    this.preferencesPath = path.join(userDataPath, "preferences.json");
+    this.loadPreferences();
+  }
+
+  /**
+   * Load preferences from file, missing keys keep their defaults
+   */
+  private loadPreferences(): void {
+    try {
+      if (fs.existsSync(this.preferencesPath)) {
+        const data = fs.readFileSync(this.preferencesPath, "utf-8");
+        this.preferences = { ...DEFAULT_PREFERENCES, ...JSON.parse(data) };
+        console.log("[PreferencesStore] Loaded preferences");
+      }
+    } catch (error) {
+      console.error("[PreferencesStore] Failed to load preferences:", error);
+      this.preferences = { ...DEFAULT_PREFERENCES };
+    }
+  }
+
+  /**
+   * Save preferences to file
+   */
+  private savePreferences(): void {
+    try {
+      const data = JSON.stringify(this.preferences, null, 2);
+      fs.writeFileSync(this.preferencesPath, data, "utf-8");
+    } catch (error) {
+      console.error("[PreferencesStore] Failed to save preferences:", error);
+    }
+  }
+
+  get<K extends keyof Preferences>(key: K): Preferences[K] {
+    return this.preferences[key];
+  }
+
+  set<K extends keyof Preferences>(key: K, value: Preferences[K]): void {
+    this.preferences[key] = value;
+    this.savePreferences();
+  }
+}
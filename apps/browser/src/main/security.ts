@@ -6,9 +6,9 @@ import {
   ALLOWED_PROTOCOLS, 
   DANGEROUS_PROTOCOLS, 
   BLOCKED_DOMAINS,
-  IPHONE_USER_AGENT,
   DESKTOP_USER_AGENT
 } from "./constants";
+import { UserAgentRule } from "./types";
 
 /**
  * Log security events
@@ -102,23 +102,46 @@ export function sanitizeUrl(urlString: string): string {
 }
 
 /**
- * Determine user agent based on URL
+ * Most specific enabled rule matching the URL's domain or a parent domain
  */
-export function getUserAgentForUrl(url: string): string {
+export function findUserAgentRule(url: string, rules: UserAgentRule[]): UserAgentRule | null {
   try {
-    const urlObj = new URL(url);
-    const hostname = urlObj.hostname.toLowerCase();
+    const hostname = new URL(url).hostname.toLowerCase();
+
+    return rules
+      .filter(
+        (rule) =>
+          rule.enabled && (hostname === rule.domain || hostname.endsWith("." + rule.domain))
+      )
+      .reduce<UserAgentRule | null>(
+        (best, rule) => (!best || rule.domain.length > best.domain.length ? rule : best),
+        null
+      );
+  } catch (error) {
+    return null;
+  }
+}
 
-    // Use desktop user agent for Netflix
-    if (hostname === "netflix.com" || hostname.endsWith(".netflix.com")) {
+/**
+ * Determine user agent based on URL
+ * @param mobileUserAgent - User agent of the active device profile
+ * @param rules - Per-domain user agent rules
+ */
+export function getUserAgentForUrl(
+  url: string,
+  mobileUserAgent: string,
+  rules: UserAgentRule[]
+): string {
+  const rule = findUserAgentRule(url, rules);
+
+  switch (rule?.preset) {
+    case "desktop":
       return DESKTOP_USER_AGENT;
-    }
-
-    // Default to mobile user agent
-    return IPHONE_USER_AGENT;
-  } catch (error) {
-    // If URL parsing fails, default to mobile user agent
-    return IPHONE_USER_AGENT;
+    case "custom":
+      return rule.customUserAgent?.trim() || mobileUserAgent;
+    default:
+      // Default to mobile user agent
+      return mobileUserAgent;
   }
 }
 
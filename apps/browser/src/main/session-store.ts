@@ -0,0 +1,83 @@
+/**
+ * Open tabs and device state of the last session, saved as they change so crashes keep them too
+ */
+
+import { app } from "electron";
+import path from "path";
+import fs from "fs";
+import { SavedSession } from "./types";
+
+export class SessionStore {
+  private sessionPath: string;
+  private lastSession: SavedSession | null = null; // As found on startup
+  private pendingSession: SavedSession | null = null;
+  private saveTimeout: NodeJS.Timeout | null = null;
+  private readonly saveDelay = 1000; // Debounce save by 1 second
+
+  constructor() {
+    const userDataPath = app.getPath("userData");
+    this.sessionPath = path.join(userDataPath, "session.json");
+    this.loadSession();
+
+    // Write the pending session on app quit
+    app.on("before-quit", () => {
+      this.saveSessionImmediate();
+    });
+  }
+
+  /**
+   * Load the last session from file
+   */
+  private loadSession(): void {
+    try {
+      if (fs.existsSync(this.sessionPath)) {
+        const data = fs.readFileSync(this.sessionPath, "utf-8");
+        const session: SavedSession = JSON.parse(data);
+        this.lastSession = Array.isArray(session.tabs) ? session : null;
+        console.log(`[SessionStore] Loaded session with ${session.tabs?.length ?? 0} tabs`);
+      }
+    } catch (error) {
+      console.error("[SessionStore] Failed to load session:", error);
+      this.lastSession = null;
+    }
+  }
+
+  /**
+   * Write the pending session to file now
+   */
+  private saveSessionImmediate(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    if (!this.pendingSession) return;
+
+    try {
+      fs.writeFileSync(this.sessionPath, JSON.stringify(this.pendingSession), "utf-8");
+      this.pendingSession = null;
+    } catch (error) {
+      console.error("[SessionStore] Failed to save session:", error);
+    }
+  }
+
+  /**
+   * Session the app was closed with, null on first launch
+   */
+  getLastSession(): SavedSession | null {
+    return this.lastSession;
+  }
+
+  /**
+   * Remember the current session (debounced)
+   */
+  save(session: SavedSession): void {
+    this.pendingSession = session;
+
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+    }
+    this.saveTimeout = setTimeout(() => {
+      this.saveSessionImmediate();
+    }, this.saveDelay);
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Background tab discarding: frees the renderers of tabs that haven't been used for a while,
+ * or of the least recently used tabs beyond a tab count or memory limit
+ */
+
+import { app } from "electron";
+import { AppState, Tab, TabDiscardSettings } from "./types";
+import { TabManager } from "./tab-manager";
+import { PreferencesStore } from "./preferences-store";
+
+// How often background tabs are checked against the limits
+const DISCARD_CHECK_INTERVAL_MS = 30 * 1000;
+
+export class TabDiscardManager {
+  private state: AppState;
+  private tabManager: TabManager;
+  private preferencesStore: PreferencesStore;
+  private checkTimer: NodeJS.Timeout | null = null;
+
+  constructor(state: AppState, tabManager: TabManager, preferencesStore: PreferencesStore) {
+    this.state = state;
+    this.tabManager = tabManager;
+    this.preferencesStore = preferencesStore;
+  }
+
+  /**
+   * Start checking background tabs periodically
+   */
+  start(): void {
+    if (this.checkTimer) return;
+    this.checkTimer = setInterval(() => this.discardTabs(), DISCARD_CHECK_INTERVAL_MS);
+  }
+
+  getSettings(): TabDiscardSettings {
+    return { ...this.preferencesStore.get("tabDiscarding") };
+  }
+
+  /**
+   * Change discard settings; tabs over the new limits are discarded right away
+   */
+  updateSettings(updates: Partial<TabDiscardSettings>): TabDiscardSettings {
+    const current = this.getSettings();
+    const limit = (value: number | undefined, fallback: number) =>
+      value !== undefined && Number.isFinite(value) ? Math.max(0, Math.round(value)) : fallback;
+
+    const settings: TabDiscardSettings = {
+      enabled: updates.enabled ?? current.enabled,
+      inactiveMinutes: limit(updates.inactiveMinutes, current.inactiveMinutes),
+      maxLoadedTabs: limit(updates.maxLoadedTabs, current.maxLoadedTabs),
+      memoryLimitMB: limit(updates.memoryLimitMB, current.memoryLimitMB),
+    };
+
+    this.preferencesStore.set("tabDiscarding", settings);
+    this.discardTabs();
+    return settings;
+  }
+
+  /**
+   * Loaded background tabs that are not playing audio or video
+   */
+  private canDiscard(tab: Tab): boolean {
+    if (tab.discarded || tab.id === this.state.activeTabId) return false;
+
+    const contents = tab.view.webContents;
+    if (contents.isDestroyed()) return false;
+    return !tab.isPlayingMedia && !contents.isCurrentlyAudible();
+  }
+
+  /**
+   * Discard background tabs over the configured limits, least recently used first
+   */
+  discardTabs(): void {
+    const settings = this.getSettings();
+    if (!settings.enabled) return;
+
+    const candidates = this.state.tabs
+      .filter((tab) => this.canDiscard(tab))
+      .sort((a, b) => a.lastActiveAt - b.lastActiveAt);
+
+    // Tabs that haven't been shown for too long
+    if (settings.inactiveMinutes > 0) {
+      const cutoff = Date.now() - settings.inactiveMinutes * 60 * 1000;
+      while (candidates.length > 0 && candidates[0].lastActiveAt <= cutoff) {
+        this.tabManager.discardTab(candidates.shift()!.id);
+      }
+    }
+
+    // The least recently used ones beyond the loaded tab limit
+    if (settings.maxLoadedTabs > 0) {
+      let loadedCount = this.state.tabs.filter((tab) => !tab.discarded).length;
+      while (candidates.length > 0 && loadedCount > settings.maxLoadedTabs) {
+        this.tabManager.discardTab(candidates.shift()!.id);
+        loadedCount--;
+      }
+    }
+
+    // And more while the app uses more memory than allowed
+    if (settings.memoryLimitMB > 0) {
+      const processMemoryMB = new Map(
+        app.getAppMetrics().map((metric) => [metric.pid, metric.memory.workingSetSize / 1024])
+      );
+      let usedMB = [...processMemoryMB.values()].reduce((sum, memory) => sum + memory, 0);
+
+      while (candidates.length > 0 && usedMB > settings.memoryLimitMB) {
+        const tab = candidates.shift()!;
+        const pid = tab.view.webContents.getOSProcessId();
+        this.tabManager.discardTab(tab.id);
+
+        // Tabs of the same site can share a renderer, count its memory once
+        usedMB -= processMemoryMB.get(pid) ?? 0;
+        processMemoryMB.delete(pid);
+      }
+    }
+  }
+}
@@ -5,7 +5,20 @@
 import { WebContentsView, Menu } from "electron";
 import path from "path";
 import fs from "fs";
-import { Tab, AppState } from "./types";
+import {
+  Tab,
+  AppState,
+  ClosedTab,
+  DeviceProfile,
+  EmulatedMediaFeatures,
+  GeolocationOverride,
+  LocaleOverride,
+  MirrorEvent,
+  SensorReading,
+  TabGroup,
+  TabGroupColor,
+  TabSnapshot,
+} from "./types";
 import {
   isValidUrl,
   sanitizeUrl,
@@ -13,76 +26,210 @@ import {
   logSecurityEvent,
 } from "./security";
 import { ThemeColorCache } from "./theme-cache";
+import { EmulationManager } from "./emulation-manager";
+import { MediaFeatureStore } from "./media-feature-store";
+import { SessionStore } from "./session-store";
+import { MIRROR_FOLLOWER_ARG, RECENTLY_CLOSED_TABS_LIMIT, TAB_GROUP_COLORS } from "./constants";
 import { generateBlankPageHtml, generateErrorPageHtml } from "./html-generator";
 
 export class TabManager {
   private state: AppState;
   private themeColorCache: ThemeColorCache;
-
-  constructor(state: AppState, themeColorCache: ThemeColorCache) {
+  private emulationManager: EmulationManager;
+  private mediaFeatureStore: MediaFeatureStore;
+  private sessionStore: SessionStore;
+  private recentlyClosed: ClosedTab[] = []; // Newest last
+  private permissionSessions = new WeakSet<Electron.Session>(); // Sessions with the handler installed
+  private pageShortcutHandler: ((event: Electron.Event, input: Electron.Input) => void) | null =
+    null;
+  private viewBoundsHandler: (() => void) | null = null;
+
+  constructor(
+    state: AppState,
+    themeColorCache: ThemeColorCache,
+    emulationManager: EmulationManager,
+    mediaFeatureStore: MediaFeatureStore,
+    sessionStore: SessionStore
+  ) {
     this.state = state;
     this.themeColorCache = themeColorCache;
+    this.emulationManager = emulationManager;
+    this.mediaFeatureStore = mediaFeatureStore;
+    this.sessionStore = sessionStore;
   }
 
   /**
-   * Create a new tab
+   * Keyboard shortcuts that also work while a page has focus (registered by WindowManager)
    */
-  createTab(url: string = ""): Tab {
-    const tabId = `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  setPageShortcutHandler(handler: (event: Electron.Event, input: Electron.Input) => void): void {
+    this.pageShortcutHandler = handler;
+  }
+
+  /**
+   * Lays out the active tab within the device frame (registered by WindowManager)
+   */
+  setViewBoundsHandler(handler: () => void): void {
+    this.viewBoundsHandler = handler;
+  }
 
+  /**
+   * Web preferences shared by tabs and mirror followers
+   */
+  private getWebPreferences(): Electron.WebPreferences {
     const webviewPreloadPath = path.join(__dirname, "..", "webview-preload.js");
     const hasWebviewPreload = fs.existsSync(webviewPreloadPath);
 
-    console.log("[TabManager] Creating tab with preload:", webviewPreloadPath);
+    console.log("[TabManager] Creating view with preload:", webviewPreloadPath);
     console.log("[TabManager] Preload exists:", hasWebviewPreload);
 
     const isDev = process.env.NODE_ENV === "development";
-    
-    const view = new WebContentsView({
-      webPreferences: {
-        nodeIntegration: false,
-        contextIsolation: true,
-        webSecurity: !isDev, // Disable webSecurity in dev mode to allow loading from Vite dev server
-        allowRunningInsecureContent: false,
-        sandbox: false, // Widevine requires sandbox: false
-        partition: "persist:main",
-        plugins: true, // Enable plugins for Widevine CDM
-        enablePreferredSizeMode: false,
-        ...(hasWebviewPreload ? { preload: webviewPreloadPath } : {}),
-      },
-    });
 
-    // Enable Widevine CDM for this webContents
-    view.webContents.session.setPermissionRequestHandler(
-      (
-        _webContents: any,
-        permission: string,
-        callback: (result: boolean) => void
-      ) => {
-        if (permission === "media" || permission === "fullscreen") {
-          callback(true); // Allow media and fullscreen permissions
-        } else {
-          callback(false);
-        }
+    return {
+      nodeIntegration: false,
+      contextIsolation: true,
+      webSecurity: !isDev, // Disable webSecurity in dev mode to allow loading from Vite dev server
+      allowRunningInsecureContent: false,
+      sandbox: false, // Widevine requires sandbox: false
+      partition: "persist:main",
+      plugins: true, // Enable plugins for Widevine CDM
+      enablePreferredSizeMode: false,
+      ...(hasWebviewPreload ? { preload: webviewPreloadPath } : {}),
+    };
+  }
+
+  /**
+   * Permission handler of the session tabs share, installed once per session
+   */
+  private setupPermissionHandler(session: Electron.Session): void {
+    if (this.permissionSessions.has(session)) return;
+    this.permissionSessions.add(session);
+
+    session.setPermissionRequestHandler((webContents, permission, callback) => {
+      const allowedPermissions = [
+        "clipboard-read",
+        "clipboard-write",
+        "media", // Widevine CDM
+        "fullscreen", // Allow fullscreen - handled by Electron native events
+      ];
+
+      let granted = allowedPermissions.includes(permission);
+      if (permission === "geolocation") {
+        // Only tabs with an emulated position may read it
+        const requester = this.state.tabs.find((t) => t.view.webContents === webContents);
+        granted = !!requester?.geolocation;
       }
-    );
 
-    // Set initial user agent based on URL
-    const userAgent = getUserAgentForUrl(url);
-    view.webContents.setUserAgent(userAgent);
+      logSecurityEvent(`Permission ${granted ? "granted" : "denied"}: ${permission}`);
+      callback(granted);
+    });
+  }
+
+  /**
+   * Create a new tab, or recreate one from a snapshot with its navigation history
+   */
+  createTab(url: string = "", snapshot?: TabSnapshot): Tab {
+    const tabId = `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    // New tabs inherit touch emulation from the tab they were opened from
+    const openerTab = snapshot
+      ? undefined
+      : this.state.tabs.find((t) => t.id === this.state.activeTabId);
+    const touchEmulation = snapshot?.touchEmulation ?? openerTab?.touchEmulation ?? false;
+    const localeOverride = snapshot ? snapshot.localeOverride : openerTab?.localeOverride;
+
+    // Links opened from a grouped tab stay in its group; the group may be gone for reopened tabs
+    const groupId = snapshot ? snapshot.groupId : openerTab?.groupId;
+    const hasGroup = this.state.tabGroups.some((group) => group.id === groupId);
+
+    const view = this.createTabView(url, touchEmulation, localeOverride);
 
     const tab: Tab = {
       id: tabId,
       view,
-      title: !url || url.trim() === "" ? "Blank Page" : "New Tab",
+      title: snapshot?.title || (!url || url.trim() === "" ? "Blank Page" : "New Tab"),
       url,
+      touchEmulation,
+      localeOverride,
+      snapshot,
+      lastActiveAt: Date.now(),
+      groupId: hasGroup && !snapshot?.pinned ? groupId : undefined,
+      pinned: snapshot?.pinned || undefined,
     };
 
-    this.state.tabs.push(tab);
+    // Pinned tabs stay in front of the others
+    if (tab.pinned) {
+      this.state.tabs.splice(this.getPinnedCount(), 0, tab);
+    } else {
+      this.state.tabs.push(tab);
+    }
     this.setupWebContentsViewHandlers(view, tabId);
+    this.loadTabContent(view, tabId, url, snapshot);
+
+    return tab;
+  }
+
+  /**
+   * Create the view of a tab with its permissions, user agent and emulation
+   */
+  private createTabView(
+    url: string,
+    touchEmulation: boolean,
+    localeOverride: LocaleOverride | undefined
+  ): WebContentsView {
+    const view = new WebContentsView({
+      webPreferences: this.getWebPreferences(),
+    });
+
+    this.setupPermissionHandler(view.webContents.session);
+
+    // Emulate the device's DPR, screen size and orientation
+    this.emulationManager.attach(view.webContents);
+
+    // Set initial user agent based on URL
+    const userAgent = getUserAgentForUrl(
+      url,
+      this.state.deviceProfile.userAgent,
+      this.state.userAgentRules
+    );
+    this.emulationManager.setUserAgent(view.webContents, userAgent);
+
+    view.webContents.on("before-input-event", (event, input) => {
+      this.pageShortcutHandler?.(event, input);
+    });
+
+    // A zoomed frame derives the emulated viewport from the bounds, keep it in sync
+    view.on("bounds-changed", () => {
+      if (this.state.frameScale !== 1 && !view.webContents.isDestroyed()) {
+        this.emulationManager.applyDeviceMetrics(view.webContents);
+      }
+    });
+
+    if (touchEmulation) {
+      this.emulationManager.setTouchEmulation(view.webContents, true);
+    }
+    if (localeOverride) {
+      this.emulationManager.setLocaleOverride(view.webContents, localeOverride);
+    }
+
+    return view;
+  }
 
-    // Load URL or blank page
-    if (!url || url.trim() === "") {
+  /**
+   * Restore history, or load URL or blank page into a new tab view
+   */
+  private loadTabContent(
+    view: WebContentsView,
+    tabId: string,
+    url: string,
+    snapshot?: TabSnapshot
+  ): void {
+    const isDev = process.env.NODE_ENV === "development";
+
+    if (snapshot?.history) {
+      view.webContents.navigationHistory.restore(snapshot.history).catch((err) => {
+        console.error("[TabManager] Failed to restore tab history:", err);
+      });
+    } else if (!url || url.trim() === "") {
       // Immediately set blank-page theme color before loading
       const blankPageThemeColor = "#1c1c1e";
       this.state.latestThemeColor = blankPageThemeColor;
@@ -158,8 +305,6 @@ export class TabManager {
         view.webContents.loadURL(sanitized);
       }
     }
-
-    return tab;
   }
 
   /**
@@ -168,6 +313,7 @@ export class TabManager {
   switchToTab(tabId: string): void {
     const tab = this.state.tabs.find((t) => t.id === tabId);
     if (!tab || !this.state.mainWindow) return;
+    const previousView = this.state.webContentsView;
 
     // Hide current active tab and capture its preview
     if (this.state.activeTabId && this.state.activeTabId !== tabId) {
@@ -180,9 +326,16 @@ export class TabManager {
           console.error("Failed to capture preview on tab switch:", err);
         });
         this.state.mainWindow.contentView.removeChildView(currentTab.view);
+        currentTab.lastActiveAt = Date.now();
       }
     }
 
+    // A discarded tab gets a new view, reloaded from its snapshot
+    if (tab.discarded) {
+      this.reloadDiscardedTab(tab);
+    }
+    tab.lastActiveAt = Date.now();
+
     // Update webContentsView reference BEFORE adding view
     this.state.webContentsView = tab.view;
     this.state.activeTabId = tabId;
@@ -229,6 +382,11 @@ export class TabManager {
       this.state.latestThemeColor = null;
     }
 
+    // Bare mode has no device frame in the renderer to report bounds, reuse the previous view's
+    if (this.state.isBareMode && previousView && previousView !== tab.view) {
+      tab.view.setBounds(previousView.getBounds());
+    }
+
     // Show new tab
     if (!this.state.mainWindow.contentView.children.includes(tab.view)) {
       this.state.mainWindow.contentView.addChildView(tab.view);
@@ -237,36 +395,531 @@ export class TabManager {
     // Notify renderer about tab change
     this.state.mainWindow.webContents.send("tab-changed", {
       tabId,
-      tabs: this.state.tabs.map((t) => ({
-        id: t.id,
-        title: t.title,
-        url: t.url,
-        preview: t.preview,
-      })),
+      tabs: this.getTabsInfo(),
     });
+
+    // The active tab leads mirror mode
+    this.updateMirrorLeader();
+    this.syncMirrorNavigation(tab.url);
+
+    this.persistSession();
   }
 
   /**
-   * Close a tab
+   * Destroy the view of a background tab to free its renderer.
+   * URL, title and preview stay in the tab and the view is recreated when it is shown again.
    */
-  closeTab(tabId: string): void {
-    const tabIndex = this.state.tabs.findIndex((t) => t.id === tabId);
-    if (tabIndex === -1) return;
+  discardTab(tabId: string): boolean {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab || tab.discarded || tab.id === this.state.activeTabId) return false;
 
-    const tab = this.state.tabs[tabIndex];
+    tab.snapshot = this.getTabSnapshot(tab);
+    tab.discarded = true;
+    tab.isPlayingMedia = false;
+    tab.emulatedMedia = undefined; // Applied again to the new view when the page loads
 
-    // Remove from window
     if (this.state.mainWindow) {
       this.state.mainWindow.contentView.removeChildView(tab.view);
     }
-
-    // Destroy the view
     if (!tab.view.webContents.isDestroyed()) {
       tab.view.webContents.close();
     }
 
-    // Remove from tabs array
-    this.state.tabs.splice(tabIndex, 1);
+    console.log(`[TabManager] Discarded tab: ${tab.url}`);
+    return true;
+  }
+
+  /**
+   * Give a discarded tab a new view and load its snapshot
+   */
+  private reloadDiscardedTab(tab: Tab): void {
+    const snapshot = tab.snapshot ?? this.getTabSnapshot(tab);
+
+    tab.view = this.createTabView(snapshot.url, !!tab.touchEmulation, tab.localeOverride);
+    tab.discarded = false;
+    if (tab.geolocation) {
+      this.emulationManager.setGeolocation(tab.view.webContents, tab.geolocation);
+    }
+
+    this.setupWebContentsViewHandlers(tab.view, tab.id);
+    this.loadTabContent(tab.view, tab.id, snapshot.url, snapshot);
+    console.log(`[TabManager] Reloaded discarded tab: ${tab.url}`);
+  }
+
+  /**
+   * Recreate a tab from a snapshot taken with getTabSnapshot
+   */
+  restoreTab(snapshot: TabSnapshot): Tab {
+    return this.createTab(snapshot.url, snapshot);
+  }
+
+  /**
+   * Reopen the tabs of the last session, returns false when there is nothing to restore
+   */
+  restoreSession(): boolean {
+    const session = this.sessionStore.getLastSession();
+    if (!session || session.tabs.length === 0) return false;
+
+    // Groups first, so restored tabs can join them
+    this.state.tabGroups = (session.groups ?? []).map((group) => ({ ...group }));
+
+    const tabs = session.tabs.map((snapshot) => this.restoreTab(snapshot));
+    this.switchToTab((tabs[session.activeTabIndex] ?? tabs[0]).id);
+    console.log(`[TabManager] Restored ${tabs.length} tabs from the last session`);
+    return true;
+  }
+
+  /**
+   * Serializable state of a tab, enough to recreate it with restoreTab
+   */
+  getTabSnapshot(tab: Tab): TabSnapshot {
+    const contents = tab.view.webContents;
+    let history: TabSnapshot["history"];
+
+    // A restored tab that hasn't committed a page yet still has its old page state,
+    // settings changed since then are taken from the tab
+    if (tab.snapshot) {
+      return {
+        ...tab.snapshot,
+        touchEmulation: tab.touchEmulation || undefined,
+        localeOverride: tab.localeOverride,
+        groupId: tab.groupId,
+        pinned: tab.pinned,
+      };
+    }
+
+    // Internal pages (blank page, error page) live in temporary files and are not kept
+    const isWebPage = (url: string) => /^https?:/.test(url);
+    if (!contents.isDestroyed() && isWebPage(contents.getURL())) {
+      const activeIndex = contents.navigationHistory.getActiveIndex();
+      const entries = contents.navigationHistory
+        .getAllEntries()
+        .map((entry, index) => ({ entry, index }))
+        .filter(({ entry }) => isWebPage(entry.url));
+
+      history = {
+        entries: entries.map(({ entry }) => entry),
+        index: Math.max(0, entries.filter(({ index }) => index <= activeIndex).length - 1),
+      };
+    }
+
+    return {
+      url: history ? history.entries[history.index].url : "",
+      title: tab.title,
+      history,
+      touchEmulation: tab.touchEmulation || undefined,
+      localeOverride: tab.localeOverride,
+      groupId: tab.groupId,
+      pinned: tab.pinned,
+    };
+  }
+
+  /**
+   * Save open tabs, the active tab and device state for session restore
+   */
+  persistSession(): void {
+    const activeTabIndex = this.state.tabs.findIndex((t) => t.id === this.state.activeTabId);
+
+    this.sessionStore.save({
+      tabs: this.state.tabs.map((tab) => this.getTabSnapshot(tab)),
+      activeTabIndex: Math.max(0, activeTabIndex),
+      groups: this.state.tabGroups,
+      deviceProfileId: this.state.deviceProfile.id,
+      orientation: this.state.orientation,
+    });
+  }
+
+  /**
+   * Serializable tab list for the renderer
+   */
+  getTabsInfo() {
+    return this.state.tabs.map((t) => ({
+      id: t.id,
+      title: t.title,
+      url: t.url,
+      preview: t.preview,
+      localeOverride: t.localeOverride,
+      groupId: t.groupId,
+      pinned: !!t.pinned,
+    }));
+  }
+
+  private getPinnedCount(): number {
+    return this.state.tabs.filter((t) => t.pinned).length;
+  }
+
+  /**
+   * Pin a tab in front of the others, or unpin it to the first place after the pinned tabs.
+   * Pinned tabs leave their group.
+   */
+  setTabPinned(tabId: string, pinned: boolean): boolean {
+    const tabIndex = this.state.tabs.findIndex((t) => t.id === tabId);
+    if (tabIndex === -1) return false;
+
+    const [tab] = this.state.tabs.splice(tabIndex, 1);
+    tab.pinned = pinned || undefined;
+    if (pinned) {
+      tab.groupId = undefined;
+    }
+    this.state.tabs.splice(this.getPinnedCount(), 0, tab);
+
+    this.notifyTabsUpdate();
+    this.persistSession();
+    return true;
+  }
+
+  private notifyTabsUpdate(): void {
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send("tabs-updated", {
+        tabs: this.getTabsInfo(),
+        activeTabId: this.state.activeTabId,
+      });
+    }
+  }
+
+  /**
+   * Tab groups in the order they were created
+   */
+  getTabGroups(): TabGroup[] {
+    return this.state.tabGroups.map((group) => ({ ...group }));
+  }
+
+  /**
+   * Create a tab group and move tabs into it; colors rotate unless one is given
+   */
+  createTabGroup(name: string, tabIds: string[] = [], color?: TabGroupColor): TabGroup {
+    const group: TabGroup = {
+      id: `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: name.trim() || `Group ${this.state.tabGroups.length + 1}`,
+      color:
+        color && TAB_GROUP_COLORS.includes(color)
+          ? color
+          : TAB_GROUP_COLORS[this.state.tabGroups.length % TAB_GROUP_COLORS.length],
+      collapsed: false,
+    };
+
+    this.state.tabGroups.push(group);
+    this.state.tabs.forEach((tab) => {
+      if (tabIds.includes(tab.id)) tab.groupId = group.id;
+    });
+
+    this.notifyTabGroupsUpdate();
+    this.notifyTabsUpdate();
+    this.persistSession();
+    return { ...group };
+  }
+
+  /**
+   * Rename, recolor, collapse or expand a tab group
+   */
+  updateTabGroup(
+    groupId: string,
+    updates: Partial<Pick<TabGroup, "name" | "color" | "collapsed">>
+  ): TabGroup | null {
+    const group = this.state.tabGroups.find((g) => g.id === groupId);
+    if (!group) {
+      console.error(`[TabManager] Tab group not found: ${groupId}`);
+      return null;
+    }
+
+    if (updates.name !== undefined && updates.name.trim()) {
+      group.name = updates.name.trim();
+    }
+    if (updates.color && TAB_GROUP_COLORS.includes(updates.color)) {
+      group.color = updates.color;
+    }
+    if (updates.collapsed !== undefined) {
+      group.collapsed = updates.collapsed;
+    }
+
+    this.notifyTabGroupsUpdate();
+    this.persistSession();
+    return { ...group };
+  }
+
+  /**
+   * Move a tab into a group, or out of its group with null
+   */
+  setTabGroup(tabId: string, groupId: string | null): boolean {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab || tab.pinned) return false;
+    if (groupId !== null && !this.state.tabGroups.some((group) => group.id === groupId)) {
+      console.error(`[TabManager] Tab group not found: ${groupId}`);
+      return false;
+    }
+
+    tab.groupId = groupId ?? undefined;
+    this.notifyTabsUpdate();
+    this.persistSession();
+    return true;
+  }
+
+  /**
+   * Close a tab group together with all of its tabs
+   */
+  closeTabGroup(groupId: string): void {
+    const groupIndex = this.state.tabGroups.findIndex((g) => g.id === groupId);
+    if (groupIndex === -1) return;
+
+    const groupTabs = this.state.tabs.filter((t) => t.groupId === groupId);
+    const activeIndex = this.state.tabs.findIndex((t) => t.id === this.state.activeTabId);
+    const closesActiveTab = groupTabs.some((t) => t.id === this.state.activeTabId);
+
+    // The nearest tab before the active one that stays open, else the first one that does
+    const remainingTabs = this.state.tabs.filter((t) => t.groupId !== groupId);
+    const nextActiveTab =
+      this.state.tabs
+        .slice(0, Math.max(0, activeIndex))
+        .reverse()
+        .find((t) => t.groupId !== groupId) ?? remainingTabs[0];
+
+    this.state.tabGroups.splice(groupIndex, 1);
+    this.removeTabs(groupTabs);
+    this.notifyTabGroupsUpdate();
+
+    if (closesActiveTab) {
+      this.switchToTab((nextActiveTab ?? this.createTab()).id);
+    } else {
+      this.notifyTabsUpdate();
+      this.persistSession();
+    }
+  }
+
+  private notifyTabGroupsUpdate(): void {
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send("tab-groups-updated", this.getTabGroups());
+    }
+  }
+
+  /**
+   * Turn touch emulation on or off for a tab
+   */
+  setTouchEmulation(tabId: string, enabled: boolean): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab || tab.view.webContents.isDestroyed()) return;
+
+    tab.touchEmulation = enabled;
+    this.emulationManager.setTouchEmulation(tab.view.webContents, enabled);
+    this.persistSession();
+  }
+
+  /**
+   * Set the emulated time zone, locale and Accept-Language of a tab
+   */
+  setLocaleOverride(tabId: string, override: LocaleOverride): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab || tab.view.webContents.isDestroyed()) return;
+
+    const hasOverride = !!(override.timezone || override.locale || override.acceptLanguage);
+    tab.localeOverride = hasOverride ? override : undefined;
+    this.emulationManager.setLocaleOverride(tab.view.webContents, override);
+    this.persistSession();
+
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send("tabs-updated", {
+        tabs: this.getTabsInfo(),
+        activeTabId: this.state.activeTabId,
+      });
+    }
+  }
+
+  /**
+   * Set or clear the emulated position of a tab
+   */
+  setGeolocation(tabId: string, override: GeolocationOverride | null): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab || tab.view.webContents.isDestroyed()) return;
+
+    tab.geolocation = override ?? undefined;
+    this.emulationManager.setGeolocation(tab.view.webContents, override);
+  }
+
+  /**
+   * Emulate media features in a tab and remember them for its domain
+   */
+  setEmulatedMedia(tabId: string, features: EmulatedMediaFeatures): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab || tab.view.webContents.isDestroyed()) return;
+
+    tab.emulatedMedia = features;
+    this.emulationManager.setEmulatedMedia(tab.view.webContents, features);
+    this.mediaFeatureStore.setForUrl(tab.view.webContents.getURL(), features);
+  }
+
+  /**
+   * Re-evaluate user agent rules for every tab (takes effect on the next load)
+   */
+  applyUserAgentRules(): void {
+    this.state.tabs.forEach((tab) => {
+      if (tab.view.webContents.isDestroyed()) return;
+      this.emulationManager.setUserAgent(
+        tab.view.webContents,
+        getUserAgentForUrl(
+          tab.view.webContents.getURL() || tab.url,
+          this.state.deviceProfile.userAgent,
+          this.state.userAgentRules
+        )
+      );
+    });
+  }
+
+  /**
+   * Set or clear the emulated device orientation of a tab
+   */
+  setSensors(tabId: string, reading: SensorReading | null): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab || tab.view.webContents.isDestroyed()) return;
+
+    tab.sensors = reading ?? undefined;
+    tab.view.webContents.send("sensor-update", reading);
+  }
+
+  /**
+   * Play a shake gesture in a tab with sensor emulation on
+   */
+  shakeDevice(tabId: string): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab?.sensors || tab.view.webContents.isDestroyed()) return;
+
+    tab.view.webContents.send("sensor-shake");
+  }
+
+  /**
+   * Type a key from the frame's virtual keyboard into the active tab
+   */
+  sendVirtualKey(key: string): void {
+    const contents = this.state.webContentsView?.webContents;
+    if (!contents || contents.isDestroyed()) return;
+
+    // Pressing a key in the frame moved focus away from the page
+    contents.focus();
+
+    if (key === "Backspace" || key === "Enter") {
+      const keyCode = key === "Enter" ? "Return" : key;
+      contents.sendInputEvent({ type: "keyDown", keyCode });
+      if (key === "Enter") {
+        contents.sendInputEvent({ type: "char", keyCode: "\r" });
+      }
+      contents.sendInputEvent({ type: "keyUp", keyCode });
+    } else {
+      contents.sendInputEvent({ type: "char", keyCode: key });
+    }
+  }
+
+  /**
+   * Blur the focused field of the active tab, which hides the virtual keyboard
+   */
+  dismissVirtualKeyboard(): void {
+    const contents = this.state.webContentsView?.webContents;
+    if (contents && !contents.isDestroyed()) {
+      contents.send("virtual-keyboard-dismiss");
+    }
+  }
+
+  /**
+   * Create a mirror follower view that shows the active tab's page on another device
+   */
+  createMirrorView(profile: DeviceProfile): WebContentsView {
+    const view = new WebContentsView({
+      webPreferences: {
+        ...this.getWebPreferences(),
+        additionalArguments: [MIRROR_FOLLOWER_ARG],
+      },
+    });
+    const contents = view.webContents;
+
+    const leaderUrl = this.state.webContentsView?.webContents.getURL() ?? "";
+    this.emulationManager.setUserAgent(
+      contents,
+      getUserAgentForUrl(leaderUrl, profile.userAgent, this.state.userAgentRules)
+    );
+
+    contents.on("will-navigate", (event: any, navigationUrl: string) => {
+      if (!isValidUrl(navigationUrl)) {
+        event.preventDefault();
+        return;
+      }
+      this.emulationManager.setUserAgent(
+        contents,
+        getUserAgentForUrl(navigationUrl, profile.userAgent, this.state.userAgentRules)
+      );
+    });
+
+    // Followers never open windows of their own, the leader drives navigation
+    contents.setWindowOpenHandler(() => ({ action: "deny" }));
+
+    if (/^https?:/.test(leaderUrl)) {
+      contents.loadURL(leaderUrl).catch((err) => {
+        console.error("[TabManager] Failed to load mirror view:", err);
+      });
+    }
+
+    return view;
+  }
+
+  /**
+   * Load a URL into every mirror follower that is not already showing it
+   */
+  syncMirrorNavigation(url: string): void {
+    // Internal pages (blank page, error page) are not mirrored
+    if (!this.state.isMirrorEnabled || !/^https?:/.test(url)) return;
+
+    this.state.mirrorDevices.forEach((device) => {
+      if (!device.follower) return;
+      const contents = device.follower.view.webContents;
+      if (contents.isDestroyed() || contents.getURL() === url) return;
+
+      this.emulationManager.setUserAgent(
+        contents,
+        getUserAgentForUrl(url, device.follower.profile.userAgent, this.state.userAgentRules)
+      );
+      contents.loadURL(url).catch((err) => {
+        console.error("[TabManager] Failed to sync mirror navigation:", err);
+      });
+    });
+  }
+
+  /**
+   * Replay a scroll or click captured in the leader tab on every follower
+   */
+  replayMirrorEvent(mirrorEvent: MirrorEvent): void {
+    if (!this.state.isMirrorEnabled) return;
+
+    this.state.mirrorDevices.forEach((device) => {
+      const contents = device.follower?.view.webContents;
+      if (contents && !contents.isDestroyed()) {
+        contents.send("mirror-replay", mirrorEvent);
+      }
+    });
+  }
+
+  /**
+   * Tell every tab whether it should capture interactions for mirror followers
+   */
+  updateMirrorLeader(): void {
+    this.state.tabs.forEach((tab) => {
+      if (!tab.view.webContents.isDestroyed()) {
+        tab.view.webContents.send(
+          "mirror-leader-changed",
+          this.state.isMirrorEnabled && tab.id === this.state.activeTabId
+        );
+      }
+    });
+  }
+
+  /**
+   * Close a tab, returns false when it stays open (pinned tabs have to be unpinned first)
+   */
+  closeTab(tabId: string): boolean {
+    const tabIndex = this.state.tabs.findIndex((t) => t.id === tabId);
+    if (tabIndex === -1) return false;
+
+    if (this.state.tabs[tabIndex].pinned) {
+      console.log(`[TabManager] Not closing pinned tab: ${tabId}`);
+      return false;
+    }
+
+    this.removeTabs([this.state.tabs[tabIndex]]);
 
     // If this was the active tab, switch to another
     if (this.state.activeTabId === tabId) {
@@ -283,25 +936,44 @@ export class TabManager {
       // Just notify renderer about tab list change
       if (this.state.mainWindow) {
         this.state.mainWindow.webContents.send("tabs-updated", {
-          tabs: this.state.tabs.map((t) => ({
-            id: t.id,
-            title: t.title,
-            url: t.url,
-            preview: t.preview,
-          })),
+          tabs: this.getTabsInfo(),
           activeTabId: this.state.activeTabId,
         });
       }
+      this.persistSession();
     }
+
+    return true;
   }
 
   /**
-   * Close all tabs and create a new one
+   * Close all tabs except pinned ones, and create a new one when none are left
    */
   closeAllTabs(): void {
-    // Close all tabs
-    const tabsToClose = [...this.state.tabs];
-    tabsToClose.forEach((tab) => {
+    // Close all unpinned tabs and the groups
+    this.removeTabs(this.state.tabs.filter((tab) => !tab.pinned));
+    this.state.tabGroups.length = 0;
+    this.notifyTabGroupsUpdate();
+
+    if (this.state.tabs.length === 0) {
+      // Create a new tab
+      const newTab = this.createTab();
+      this.switchToTab(newTab.id);
+    } else if (!this.state.tabs.some((tab) => tab.id === this.state.activeTabId)) {
+      this.switchToTab(this.state.tabs[0].id);
+    } else {
+      this.notifyTabsUpdate();
+      this.persistSession();
+    }
+  }
+
+  /**
+   * Destroy the views of closing tabs and drop them from the tab list
+   */
+  private removeTabs(tabs: Tab[]): void {
+    this.rememberClosedTabs(tabs);
+
+    tabs.forEach((tab) => {
       // Remove from window
       if (this.state.mainWindow) {
         this.state.mainWindow.contentView.removeChildView(tab.view);
@@ -311,14 +983,63 @@ export class TabManager {
       if (!tab.view.webContents.isDestroyed()) {
         tab.view.webContents.close();
       }
+
+      // Remove from tabs array
+      const index = this.state.tabs.indexOf(tab);
+      if (index !== -1) this.state.tabs.splice(index, 1);
     });
+  }
 
-    // Clear tabs array
-    this.state.tabs.length = 0;
+  /**
+   * Keep snapshots of tabs about to close so they can be reopened (blank tabs are skipped)
+   */
+  private rememberClosedTabs(tabs: Tab[]): void {
+    const closedAt = Date.now();
+    const closed = tabs
+      .map((tab) => ({ id: tab.id, snapshot: this.getTabSnapshot(tab), closedAt }))
+      .filter(({ snapshot }) => snapshot.url !== "");
+    if (closed.length === 0) return;
+
+    this.recentlyClosed = [...this.recentlyClosed, ...closed].slice(-RECENTLY_CLOSED_TABS_LIMIT);
+    this.notifyRecentlyClosedUpdate();
+  }
 
-    // Create a new tab
-    const newTab = this.createTab();
-    this.switchToTab(newTab.id);
+  /**
+   * Recently closed tabs for the renderer, newest first
+   */
+  getRecentlyClosedInfo() {
+    return [...this.recentlyClosed].reverse().map((closed) => ({
+      id: closed.id,
+      title: closed.snapshot.title,
+      url: closed.snapshot.url,
+      closedAt: closed.closedAt,
+    }));
+  }
+
+  /**
+   * Reopen a closed tab with its history (the most recently closed one by default)
+   */
+  reopenClosedTab(closedTabId?: string): Tab | null {
+    const index = closedTabId
+      ? this.recentlyClosed.findIndex((closed) => closed.id === closedTabId)
+      : this.recentlyClosed.length - 1;
+    if (index === -1) return null;
+
+    const [closed] = this.recentlyClosed.splice(index, 1);
+    this.notifyRecentlyClosedUpdate();
+
+    const tab = this.restoreTab(closed.snapshot);
+    this.switchToTab(tab.id);
+    return tab;
+  }
+
+  private notifyRecentlyClosedUpdate(): void {
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.send(
+        "tabs-recently-closed-updated",
+        this.getRecentlyClosedInfo()
+      );
+    }
   }
 
   /**
@@ -344,12 +1065,7 @@ export class TabManager {
       // Notify renderer about updated tabs
       if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
         this.state.mainWindow.webContents.send("tabs-updated", {
-          tabs: this.state.tabs.map((t) => ({
-            id: t.id,
-            title: t.title,
-            url: t.url,
-            preview: t.preview,
-          })),
+          tabs: this.getTabsInfo(),
           activeTabId: this.state.activeTabId,
         });
       }
@@ -367,10 +1083,21 @@ export class TabManager {
   ): void {
     const contents = view.webContents;
 
-    // Send initial orientation to the new webview when DOM is ready
+    // Send initial orientation and mirror role to the new webview when DOM is ready
     contents.on("dom-ready", () => {
-      const orientation = this.state.isLandscape ? "landscape" : "portrait";
-      contents.send("orientation-changed", orientation);
+      contents.send("orientation-changed", this.state.orientation);
+      contents.send(
+        "mirror-leader-changed",
+        this.state.isMirrorEnabled && this.state.activeTabId === tabId
+      );
+
+      const tab = this.state.tabs.find((t) => t.id === tabId);
+      if (tab?.touchEmulation) {
+        this.emulationManager.applyTouchCursor(contents, true);
+      }
+      if (tab?.sensors) {
+        contents.send("sensor-update", tab.sensors);
+      }
     });
 
     // Enable context menu (right-click)
@@ -420,9 +1147,22 @@ export class TabManager {
             navigationUrl
           );
         }
+      } else if (this.openLeavingPinnedTab(tabId, navigationUrl)) {
+        event.preventDefault();
       } else {
-        const userAgent = getUserAgentForUrl(navigationUrl);
-        contents.setUserAgent(userAgent);
+        const userAgent = getUserAgentForUrl(
+          navigationUrl,
+          this.state.deviceProfile.userAgent,
+          this.state.userAgentRules
+        );
+        this.emulationManager.setUserAgent(contents, userAgent);
+      }
+    });
+
+    // A server redirect must not take a pinned tab to another origin either
+    contents.on("will-redirect", (event) => {
+      if (event.isMainFrame && this.openLeavingPinnedTab(tabId, event.url)) {
+        event.preventDefault();
       }
     });
 
@@ -442,10 +1182,53 @@ export class TabManager {
       console.error("Render process crashed:", details);
     });
 
+    // Tabs playing audio or video are kept loaded
+    contents.on("media-started-playing", () => {
+      const tab = this.state.tabs.find((t) => t.id === tabId);
+      if (tab) tab.isPlayingMedia = true;
+    });
+
+    contents.on("media-paused", () => {
+      const tab = this.state.tabs.find((t) => t.id === tabId);
+      if (tab) tab.isPlayingMedia = false;
+    });
+
     this.setupNavigationHandlers(contents, tabId);
     this.setupFullscreenHandlers(contents, tabId);
   }
 
+  /**
+   * Pinned tabs keep their origin: a URL of another site opens in a new tab instead,
+   * returns false when the tab may navigate to it itself
+   */
+  openLeavingPinnedTab(tabId: string, url: string): boolean {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab || tab.view.webContents.isDestroyed()) return false;
+    if (!this.isCrossOriginFromPinnedTab(tabId, tab.view.webContents.getURL(), url)) return false;
+
+    const newTab = this.createTab(url);
+    this.switchToTab(newTab.id);
+    return true;
+  }
+
+  /**
+   * Whether a navigation would take a pinned tab's web page to another origin
+   */
+  private isCrossOriginFromPinnedTab(
+    tabId: string,
+    currentUrl: string,
+    navigationUrl: string
+  ): boolean {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab?.pinned || !/^https?:/.test(currentUrl)) return false;
+
+    try {
+      return new URL(currentUrl).origin !== new URL(navigationUrl).origin;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Setup fullscreen event handlers using Electron's native events (Plan 1.5 - Correct approach)
    * Note: We update bounds with gaps and hide status bar in fullscreen mode
@@ -456,200 +1239,81 @@ export class TabManager {
   ): void {
     // Listen for HTML fullscreen API events from Electron
     contents.on("enter-html-full-screen", () => {
-      const tab = this.state.tabs.find((t) => t.id === tabId);
-      if (!tab) return;
-
-      const timestamp = new Date().toISOString().split("T")[1].slice(0, -1);
-      console.log(
-        `[Fullscreen][${timestamp}] enter-html-full-screen event received`
-      );
-
-      // Mark tab as fullscreen (for state tracking)
-      tab.isFullscreen = true;
+      this.enterFullscreenMode(tabId);
+    });
 
-      // Update bounds with gaps and hide status bar
-      if (this.state.mainWindow) {
-        const windowBounds = this.state.mainWindow.getBounds();
-        const topBarHeight = 40; // TOP_BAR_HEIGHT
-        const deviceFramePadding = 15; // Device frame outer padding
-        const deviceBorderRadius = 32; // Device frame border radius
-
-        // Calculate safe gap to avoid rounded corners
-        // Adjust these values to fine-tune fullscreen positioning:
-        // - Increase to move content away from frame edges
-        // - Decrease to make content larger (closer to frame edges)
-        const fullscreenGapVertical =
-          deviceFramePadding + deviceBorderRadius + 20; // ~67px (Portrait: top/bottom gap)
-        const fullscreenGapHorizontal =
-          deviceFramePadding + deviceBorderRadius + 10; // ~57px (Landscape: left/right gap)
-
-        // Determine orientation based on actual window dimensions (not cached state)
-        const isCurrentlyLandscape = windowBounds.width > windowBounds.height;
-
-        if (isCurrentlyLandscape) {
-          // Landscape: gap on left and right to avoid rounded corners
-          // Note: We ignore status bar space in fullscreen mode
-          const bounds = {
-            x: fullscreenGapHorizontal - 30,
-            y: topBarHeight + deviceFramePadding,
-            width: windowBounds.width - fullscreenGapHorizontal * 2,
-            height: windowBounds.height - topBarHeight - deviceFramePadding * 2,
-          };
-          tab.view.setBounds(bounds);
-        } else {
-          // Portrait: gap on top and bottom to avoid rounded corners
-          const bounds = {
-            x: deviceFramePadding,
-            y: topBarHeight + fullscreenGapVertical - 30,
-            width: windowBounds.width - deviceFramePadding * 2,
-            height:
-              windowBounds.height -
-              topBarHeight -
-              fullscreenGapVertical -
-              fullscreenGapVertical,
-          };
-          tab.view.setBounds(bounds);
-        }
+    contents.on("leave-html-full-screen", () => {
+      this.leaveFullscreenMode(tabId);
+    });
+  }
 
-        // Notify renderer to hide status bar
-        this.state.mainWindow.webContents.send("fullscreen-mode-changed", true);
+  /**
+   * Fullscreen requested by the page's Fullscreen API emulation (webview preload)
+   */
+  setPageFullscreen(tabId: string, enabled: boolean): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab) return;
 
-        // Force a layout recalculation by resizing the main window
-        // This ensures WebContentsView properly recalculates its size
-        const windowBoundsNow = this.state.mainWindow.getBounds();
-        this.state.mainWindow.setBounds({
-          ...windowBoundsNow,
-          height: windowBoundsNow.height + 1,
-        });
+    if (tab.isFullscreen === enabled) {
+      // Already there; confirm so the page's pending request settles
+      if (!tab.view.webContents.isDestroyed()) {
+        tab.view.webContents.send("set-fullscreen-state", enabled);
+      }
+      return;
+    }
 
-        // Immediately restore to correct size and reapply adjusted bounds
-        this.state.mainWindow.setBounds(windowBoundsNow);
-        
-        // Reapply the adjusted bounds after window resize
-        if (isCurrentlyLandscape) {
-          const adjustedBounds = {
-            x: fullscreenGapHorizontal - 30,
-            y: topBarHeight + deviceFramePadding,
-            width: windowBounds.width - fullscreenGapHorizontal * 2,
-            height: windowBounds.height - topBarHeight - deviceFramePadding * 2,
-          };
-          tab.view.setBounds(adjustedBounds);
-        } else {
-          const adjustedBounds = {
-            x: deviceFramePadding,
-            y: topBarHeight + fullscreenGapVertical - 30,
-            width: windowBounds.width - deviceFramePadding * 2,
-            height:
-              windowBounds.height -
-              topBarHeight -
-              fullscreenGapVertical -
-              fullscreenGapVertical,
-          };
-          tab.view.setBounds(adjustedBounds);
-        }
+    if (enabled) {
+      this.enterFullscreenMode(tabId);
+    } else {
+      this.leaveFullscreenMode(tabId);
+    }
+  }
 
-        // Send fullscreen state immediately
-        if (!tab.view.webContents.isDestroyed()) {
-          tab.view.webContents.send("set-fullscreen-state", true);
-        }
-      }
+  /**
+   * Hide the status bar and stretch the tab within the device frame
+   */
+  private enterFullscreenMode(tabId: string): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab) return;
 
-    });
+    const timestamp = new Date().toISOString().split("T")[1].slice(0, -1);
+    console.log(
+      `[Fullscreen][${timestamp}] Entering fullscreen mode`
+    );
 
-    contents.on("leave-html-full-screen", () => {
-      const tab = this.state.tabs.find((t) => t.id === tabId);
-      if (!tab) return;
+    // Mark tab as fullscreen (for state tracking)
+    tab.isFullscreen = true;
 
-      // Clear fullscreen state
-      tab.isFullscreen = false;
+    // Update bounds with gaps and hide status bar
+    if (this.state.mainWindow) {
+      this.viewBoundsHandler?.();
 
-      // Restore normal bounds
-      if (this.state.mainWindow) {
-        this.state.mainWindow.webContents.send(
-          "fullscreen-mode-changed",
-          false
-        );
+      // Send fullscreen state immediately
+      if (!tab.view.webContents.isDestroyed()) {
+        tab.view.webContents.send("set-fullscreen-state", true);
+      }
+    }
+  }
 
-        // Restore normal WebContentsView bounds FIRST
-        const windowBounds = this.state.mainWindow.getBounds();
-        const topBarHeight = 40; // TOP_BAR_HEIGHT
-        const statusBarHeight = 58;
-        const statusBarWidth = 58;
-        const frameHalf = 15 / 2; // Device frame padding (half on each side)
-
-        // Determine orientation based on actual window dimensions (not cached state)
-        const isCurrentlyLandscape = windowBounds.width > windowBounds.height;
-
-        if (isCurrentlyLandscape) {
-          // Landscape mode: status bar is on the LEFT side
-          const bounds = {
-            x: statusBarWidth,
-            y: Math.round(topBarHeight + frameHalf),
-            width: Math.round(windowBounds.width - statusBarWidth - frameHalf),
-            height: Math.round(
-              windowBounds.height - topBarHeight - frameHalf * 2
-            ),
-          };
-          tab.view.setBounds(bounds);
-        } else {
-          // Portrait mode: status bar is on the TOP
-          const bounds = {
-            x: Math.round(frameHalf),
-            y: Math.round(topBarHeight + statusBarHeight + frameHalf),
-            width: Math.round(windowBounds.width - frameHalf * 2),
-            height: Math.round(
-              windowBounds.height -
-                topBarHeight -
-                statusBarHeight -
-                frameHalf * 2
-            ),
-          };
-          tab.view.setBounds(bounds);
-        }
+  /**
+   * Restore the status bar and the normal tab bounds
+   */
+  private leaveFullscreenMode(tabId: string): void {
+    const tab = this.state.tabs.find((t) => t.id === tabId);
+    if (!tab?.isFullscreen) return;
 
-        // Force a layout recalculation by resizing the main window
-        const windowBoundsNow = this.state.mainWindow.getBounds();
-        this.state.mainWindow.setBounds({
-          ...windowBoundsNow,
-          height: windowBoundsNow.height + 1,
-        });
+    // Clear fullscreen state
+    tab.isFullscreen = false;
 
-        // Immediately restore to correct size and reapply adjusted bounds
-        this.state.mainWindow.setBounds(windowBoundsNow);
-        
-        // Reapply the adjusted bounds after window resize
-        if (isCurrentlyLandscape) {
-          const adjustedBounds = {
-            x: statusBarWidth,
-            y: Math.round(topBarHeight + frameHalf),
-            width: Math.round(windowBounds.width - statusBarWidth - frameHalf),
-            height: Math.round(
-              windowBounds.height - topBarHeight - frameHalf * 2
-            ),
-          };
-          tab.view.setBounds(adjustedBounds);
-        } else {
-          const adjustedBounds = {
-            x: Math.round(frameHalf),
-            y: Math.round(topBarHeight + statusBarHeight + frameHalf),
-            width: Math.round(windowBounds.width - frameHalf * 2),
-            height: Math.round(
-              windowBounds.height -
-                topBarHeight -
-                statusBarHeight -
-                frameHalf * 2
-            ),
-          };
-          tab.view.setBounds(adjustedBounds);
-        }
+    // Restore normal bounds
+    if (this.state.mainWindow) {
+      this.viewBoundsHandler?.();
 
-        // Send fullscreen state immediately
-        if (!tab.view.webContents.isDestroyed()) {
-          tab.view.webContents.send("set-fullscreen-state", false);
-        }
+      // Send fullscreen state immediately
+      if (!tab.view.webContents.isDestroyed()) {
+        tab.view.webContents.send("set-fullscreen-state", false);
       }
-
-    });
+    }
   }
 
   /**
@@ -717,6 +1381,23 @@ export class TabManager {
       this.state.mainWindow?.webContents.send("webcontents-did-start-loading");
     });
 
+    // Apply media features remembered for the destination domain before the page renders
+    contents.on(
+      "did-start-navigation",
+      (_event: any, url: string, isInPlace: boolean, isMainFrame: boolean) => {
+        if (!isMainFrame || isInPlace) return;
+
+        const tab = this.state.tabs.find((t) => t.id === tabId);
+        if (!tab) return;
+
+        const features = this.mediaFeatureStore.getForUrl(url);
+        if (JSON.stringify(features) !== JSON.stringify(tab.emulatedMedia ?? {})) {
+          tab.emulatedMedia = features;
+          this.emulationManager.setEmulatedMedia(contents, features);
+        }
+      }
+    );
+
     contents.on("did-stop-loading", () => {
       this.state.mainWindow?.webContents.send("webcontents-did-stop-loading");
       setTimeout(() => {
@@ -745,21 +1426,30 @@ export class TabManager {
           tab.url = url;
           tab.title = contents.getTitle() || url;
         }
+
+        // The restored page has committed, its history is live now
+        tab.snapshot = undefined;
+
+        // A new document starts outside fullscreen
+        if (tab.isFullscreen) {
+          this.leaveFullscreenMode(tabId);
+        }
       }
 
       this.state.mainWindow?.webContents.send("webcontents-did-navigate", displayUrl);
 
+      if (this.state.activeTabId === tabId) {
+        this.syncMirrorNavigation(url);
+      }
+
       if (this.state.activeTabId === tabId && this.state.mainWindow) {
         this.state.mainWindow.webContents.send("tabs-updated", {
-          tabs: this.state.tabs.map((t) => ({
-            id: t.id,
-            title: t.title,
-            url: t.url,
-            preview: t.preview,
-          })),
+          tabs: this.getTabsInfo(),
           activeTabId: this.state.activeTabId,
         });
       }
+
+      this.persistSession();
     });
 
     contents.on("did-navigate-in-page", (event: any, url: string) => {
@@ -788,23 +1478,33 @@ export class TabManager {
         displayUrl
       );
 
+      if (this.state.activeTabId === tabId) {
+        this.syncMirrorNavigation(url);
+      }
+
       if (this.state.activeTabId === tabId && this.state.mainWindow) {
         this.state.mainWindow.webContents.send("tabs-updated", {
-          tabs: this.state.tabs.map((t) => ({
-            id: t.id,
-            title: t.title,
-            url: t.url,
-            preview: t.preview,
-          })),
+          tabs: this.getTabsInfo(),
           activeTabId: this.state.activeTabId,
         });
       }
+
+      this.persistSession();
     });
 
     contents.on("dom-ready", () => {
       this.state.mainWindow?.webContents.send("webcontents-dom-ready");
     });
 
+    // Titles usually arrive after did-navigate; internal pages keep their own titles
+    contents.on("page-title-updated", (_event: any, title: string) => {
+      const tab = this.state.tabs.find((t) => t.id === tabId);
+      if (!tab || tab.url === "/" || !title) return;
+
+      tab.title = title;
+      this.persistSession();
+    });
+
     contents.on(
       "did-fail-load",
       (event: any, errorCode: number, errorDescription: string, validatedURL: string, isMainFrame: boolean) => {
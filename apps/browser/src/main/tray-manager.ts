@@ -4,8 +4,17 @@
 
 import { Tray, Menu, nativeImage, app } from "electron";
 import path from "path";
-import { AppState } from "./types";
+import { AppState, DeviceOrientation } from "./types";
 import { WindowManager } from "./window-manager";
+import { DEVICE_ORIENTATIONS, FRAME_ZOOM_PRESETS } from "./constants";
+import { supportsUpsideDown } from "./device-profiles";
+
+const ORIENTATION_LABELS: Record<DeviceOrientation, string> = {
+  portrait: "Portrait",
+  "portrait-upside-down": "Portrait Upside Down",
+  "landscape-left": "Landscape Left",
+  "landscape-right": "Landscape Right",
+};
 
 export class TrayManager {
   private state: AppState;
@@ -75,6 +84,8 @@ export class TrayManager {
         label: "Open Settings",
         click: () => {
           if (this.state.mainWindow) {
+            // Settings are drawn inside the device frame
+            this.windowManager.setBareMode(false);
             this.state.mainWindow.show();
             this.state.mainWindow.focus();
             this.state.mainWindow.webContents.send("open-settings");
@@ -101,6 +112,53 @@ export class TrayManager {
           this.windowManager.toggleOrientation();
         },
       },
+      {
+        label: "Orientation",
+        submenu: [
+          ...DEVICE_ORIENTATIONS.map(
+            (orientation): Electron.MenuItemConstructorOptions => ({
+              label: ORIENTATION_LABELS[orientation],
+              type: "radio",
+              checked: this.state.orientation === orientation,
+              enabled:
+                orientation !== "portrait-upside-down" ||
+                supportsUpsideDown(this.state.deviceProfile),
+              click: () => this.windowManager.setOrientation(orientation),
+            })
+          ),
+          { type: "separator" },
+          { label: "Rotate Left", click: () => this.windowManager.rotate("left") },
+          { label: "Rotate Right", click: () => this.windowManager.rotate("right") },
+        ],
+      },
+      {
+        label: "Bare Viewport",
+        type: "checkbox",
+        checked: this.state.isBareMode,
+        accelerator: "CommandOrControl+Shift+B",
+        click: () => {
+          this.windowManager.toggleBareMode();
+        },
+      },
+      {
+        label: "Frame Zoom",
+        submenu: [
+          ...FRAME_ZOOM_PRESETS.map(
+            (zoom): Electron.MenuItemConstructorOptions => ({
+              label: `${zoom * 100}%`,
+              type: "radio",
+              checked: this.state.frameZoom === zoom,
+              click: () => this.windowManager.setFrameZoom(zoom),
+            })
+          ),
+          {
+            label: "Fit to Screen",
+            type: "radio",
+            checked: this.state.frameZoom === "fit",
+            click: () => this.windowManager.setFrameZoom("fit"),
+          },
+        ],
+      },
       {
         type: "separator",
       },
@@ -12,15 +12,202 @@ export interface Tab {
   preview?: string; // Base64 encoded preview image
   isFullscreen?: boolean; // Track if this tab is in fullscreen mode
   originalBounds?: Electron.Rectangle; // Store original bounds for restoration
+  touchEmulation?: boolean; // Mouse input is delivered as touch events
+  geolocation?: GeolocationOverride; // Emulated position; geolocation permission is granted while set
+  sensors?: SensorReading; // Emulated device orientation, dispatched by the webview preload
+  emulatedMedia?: EmulatedMediaFeatures; // Media features applied for the current domain
+  localeOverride?: LocaleOverride; // Emulated time zone, locale and Accept-Language
+  snapshot?: TabSnapshot; // State the tab was recreated from, kept until its first page commits
+  lastActiveAt: number; // Epoch ms the tab was last shown
+  isPlayingMedia?: boolean; // Audio or video is playing, such tabs are never discarded
+  discarded?: boolean; // The view's renderer was destroyed to save memory, recreated from snapshot when shown
+  groupId?: string; // Tab group the tab belongs to, never set for pinned tabs
+  pinned?: boolean; // Kept first, survives "Close All Tabs" and must be unpinned to close
 }
 
+export type TabGroupColor = "blue" | "green" | "yellow" | "orange" | "red" | "purple" | "pink" | "gray";
+
+export interface TabGroup {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  collapsed: boolean; // Tabs are hidden in the tab overview
+}
+
+// When background tabs are discarded (0 turns a limit off)
+export interface TabDiscardSettings {
+  enabled: boolean;
+  inactiveMinutes: number; // Background tabs unused this long are discarded
+  maxLoadedTabs: number; // Least recently used tabs beyond this count are discarded
+  memoryLimitMB: number; // Least recently used tabs are discarded while the app uses more memory
+}
+
+// Serializable state a tab can be recreated from (session restore)
+export interface TabSnapshot {
+  url: string; // Empty for the blank page
+  title: string;
+  history?: {
+    entries: Electron.NavigationEntry[]; // Web pages only, internal pages are left out
+    index: number; // Active entry
+  };
+  touchEmulation?: boolean;
+  localeOverride?: LocaleOverride;
+  groupId?: string;
+  pinned?: boolean;
+}
+
+export interface ClosedTab {
+  id: string;
+  snapshot: TabSnapshot;
+  closedAt: number; // Epoch ms
+}
+
+export interface SavedSession {
+  tabs: TabSnapshot[];
+  activeTabIndex: number;
+  groups?: TabGroup[]; // Missing in sessions saved before tab groups
+  deviceProfileId: string;
+  orientation: DeviceOrientation;
+}
+
+// Unset fields follow the host system
+export interface LocaleOverride {
+  timezone?: string; // IANA time zone, e.g. "Asia/Seoul"
+  locale?: string; // BCP 47 locale, e.g. "ko-KR"
+  acceptLanguage?: string; // Accept-Language request header
+}
+
+// Emulated CSS media features, unset features follow the system
+export interface EmulatedMediaFeatures {
+  prefersColorScheme?: "light" | "dark";
+  prefersReducedMotion?: "reduce" | "no-preference";
+  prefersContrast?: "more" | "less" | "no-preference";
+  forcedColors?: "active" | "none";
+  prefersReducedTransparency?: "reduce" | "no-preference";
+}
+
+// Device orientation in degrees, as reported by DeviceOrientationEvent
+export interface SensorReading {
+  alpha: number; // 0 to 360, rotation around z
+  beta: number; // -180 to 180, front-back tilt
+  gamma: number; // -90 to 90, left-right tilt
+}
+
+export interface GeolocationOverride {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // Meters
+}
+
+export interface SavedLocation extends GeolocationOverride {
+  id: string;
+  name: string;
+}
+
+export interface GeolocationRoute {
+  locationIds: string[]; // Saved locations visited in order
+  speedKmh: number;
+  loop: boolean;
+}
+
+export type DevicePlatform = "ios" | "android";
+
+// Named after the device rotation like iOS: landscape-left has the top of the device on the left
+export type DeviceOrientation =
+  | "portrait"
+  | "portrait-upside-down"
+  | "landscape-left"
+  | "landscape-right";
+
+export type DeviceCutout = "dynamic-island" | "notch" | "punch-hole" | "none";
+
+export type NavigationBarType = "gesture" | "three-button" | "none";
+
+export interface SafeAreaInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  platform: DevicePlatform;
+  viewport: {
+    width: number; // CSS pixels in portrait orientation
+    height: number;
+  };
+  devicePixelRatio: number;
+  userAgent: string;
+  safeAreaInsets: SafeAreaInsets; // Portrait insets; top doubles as the status bar size
+  cutout: DeviceCutout;
+  navigationBar: NavigationBarType; // Android system navigation, "none" on iOS
+  cornerRadius: number; // Screen corner radius in CSS pixels
+  isCustom?: boolean; // User-defined profile stored in userData
+}
+
+export interface NetworkConditions {
+  id: string;
+  name: string;
+  offline: boolean;
+  latency: number; // Added round-trip latency in ms
+  downloadKbps: number; // 0 disables download throttling
+  uploadKbps: number; // 0 disables upload throttling
+  label: string; // Network type shown in the status bar, e.g. "3G"
+  signalBars: number; // 0-4 bars shown in the status bar
+}
+
+export interface MirrorDevice {
+  id: string;
+  profileId: string;
+  isLandscape: boolean;
+  enabled: boolean;
+  follower?: MirrorFollower; // Only while mirror mode is on and the device is enabled
+}
+
+export interface MirrorFollower {
+  view: WebContentsView;
+  profile: DeviceProfile;
+}
+
+// User agent sent to sites matching a rule: the device's own, desktop Chrome, or a custom string
+export type UserAgentPreset = "mobile" | "desktop" | "custom";
+
+export interface UserAgentRule {
+  id: string;
+  domain: string; // Matches the domain and its subdomains, e.g. "netflix.com"
+  preset: UserAgentPreset;
+  customUserAgent?: string; // Used when preset is "custom"
+  enabled: boolean;
+  isBuiltIn?: boolean; // Shipped default, can be changed or disabled but not removed
+}
+
+// Leader interaction replayed in mirror followers
+export type MirrorEvent =
+  | { type: "scroll"; x: number; y: number } // Scroll position as a ratio of the scrollable range
+  | { type: "click"; selector: string };
+
+// Visual zoom of the device frame: a fixed factor, or the largest size fitting the screen
+export type FrameZoom = number | "fit";
+
 export interface AppState {
   mainWindow: Electron.BrowserWindow | null;
   tray: Electron.Tray | null;
   isAlwaysOnTop: boolean;
   webContentsView: WebContentsView | null;
-  isLandscape: boolean;
+  orientation: DeviceOrientation;
+  deviceProfile: DeviceProfile;
+  frameZoom: FrameZoom;
+  frameScale: number; // Effective zoom factor of the frame, 1 renders the device at true size
+  isBareMode: boolean; // Web view only, without device frame, status bar and top bar
+  networkConditions: NetworkConditions;
+  userAgentRules: UserAgentRule[];
   tabs: Tab[];
+  tabGroups: TabGroup[];
   activeTabId: string | null;
   latestThemeColor: string | null;
+  mirrorWindow: Electron.BrowserWindow | null;
+  isMirrorEnabled: boolean;
+  mirrorDevices: MirrorDevice[];
 }
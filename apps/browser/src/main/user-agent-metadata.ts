@@ -0,0 +1,172 @@
+/**
+ * User-Agent Client Hints and navigator.platform matching a user agent string,
+ * so pages see one consistent browser instead of desktop Chromium behind a mobile UA
+ */
+
+export interface UserAgentBrand {
+  brand: string;
+  version: string;
+}
+
+// userAgentMetadata of Emulation.setUserAgentOverride
+export interface UserAgentMetadata {
+  brands: UserAgentBrand[];
+  fullVersionList: UserAgentBrand[];
+  fullVersion: string;
+  platform: string;
+  platformVersion: string;
+  architecture: string;
+  model: string;
+  mobile: boolean;
+  bitness: string;
+  wow64: boolean;
+}
+
+export interface UserAgentFingerprint {
+  platform?: string; // navigator.platform, unset when the user agent names no known OS
+  metadata: UserAgentMetadata | null; // null for browsers without client hints (Safari, Firefox)
+}
+
+// Low-entropy hints are sent with every request, the rest only after a site asks for them
+const LOW_ENTROPY_HINTS = ["sec-ch-ua", "sec-ch-ua-mobile", "sec-ch-ua-platform"];
+
+/**
+ * Derive navigator.platform and client hints from a user agent string
+ */
+export function getUserAgentFingerprint(userAgent: string): UserAgentFingerprint {
+  // Every browser on iOS is WebKit, none of them implement client hints
+  const ios = userAgent.match(/\b(iPhone|iPad|iPod)\b/);
+  if (ios) {
+    return { platform: ios[1], metadata: null };
+  }
+
+  const android = userAgent.match(/Android ([\d.]+)(?:; ([^;)]+))?/);
+  const mac = userAgent.match(/Mac OS X ([\d_.]+)/);
+  const windows = /Windows NT/.test(userAgent);
+  const linux = /Linux/.test(userAgent);
+
+  const os = android
+    ? {
+        navigatorPlatform: "Linux armv8l",
+        platform: "Android",
+        platformVersion: android[1],
+        architecture: "",
+        bitness: "",
+        model: android[2]?.trim() ?? "",
+      }
+    : mac
+    ? {
+        navigatorPlatform: "MacIntel",
+        platform: "macOS",
+        platformVersion: mac[1].replace(/_/g, "."),
+        architecture: "x86",
+        bitness: "64",
+        model: "",
+      }
+    : windows
+    ? {
+        navigatorPlatform: "Win32",
+        platform: "Windows",
+        platformVersion: "10.0.0",
+        architecture: "x86",
+        bitness: "64",
+        model: "",
+      }
+    : linux
+    ? {
+        navigatorPlatform: "Linux x86_64",
+        platform: "Linux",
+        platformVersion: "",
+        architecture: "x86",
+        bitness: "64",
+        model: "",
+      }
+    : null;
+
+  if (!os) {
+    return { metadata: null };
+  }
+
+  const chrome = userAgent.match(/Chrome\/([\d.]+)/);
+  if (!chrome) {
+    return { platform: os.navigatorPlatform, metadata: null };
+  }
+
+  const edge = userAgent.match(/Edg(?:A)?\/([\d.]+)/);
+  const fullVersion = chrome[1];
+  const brandList = (version: (full: string) => string): UserAgentBrand[] => [
+    { brand: "Not_A Brand", version: version("8.0.0.0") },
+    { brand: "Chromium", version: version(fullVersion) },
+    edge
+      ? { brand: "Microsoft Edge", version: version(edge[1]) }
+      : { brand: "Google Chrome", version: version(fullVersion) },
+  ];
+
+  return {
+    platform: os.navigatorPlatform,
+    metadata: {
+      brands: brandList((full) => full.split(".")[0]),
+      fullVersionList: brandList((full) => full),
+      fullVersion,
+      platform: os.platform,
+      platformVersion: padVersion(os.platformVersion),
+      architecture: os.architecture,
+      model: os.model,
+      mobile: !!android && /Mobile/.test(userAgent),
+      bitness: os.bitness,
+      wow64: false,
+    },
+  };
+}
+
+/**
+ * Rewrite the Sec-CH-UA request headers to match the metadata (removed when null).
+ * High-entropy hints are only replaced when the request already carries them.
+ */
+export function applyClientHintHeaders(
+  requestHeaders: Record<string, string>,
+  metadata: UserAgentMetadata | null
+): void {
+  const requested = new Set<string>();
+  Object.keys(requestHeaders).forEach((name) => {
+    if (name.toLowerCase().startsWith("sec-ch-ua")) {
+      requested.add(name.toLowerCase());
+      delete requestHeaders[name];
+    }
+  });
+
+  if (!metadata) return;
+
+  const quote = (value: string) => `"${value}"`;
+  const brandHeader = (brands: UserAgentBrand[]) =>
+    brands.map(({ brand, version }) => `${quote(brand)};v=${quote(version)}`).join(", ");
+
+  const hints: Record<string, string> = {
+    "sec-ch-ua": brandHeader(metadata.brands),
+    "sec-ch-ua-mobile": metadata.mobile ? "?1" : "?0",
+    "sec-ch-ua-platform": quote(metadata.platform),
+    "sec-ch-ua-platform-version": quote(metadata.platformVersion),
+    "sec-ch-ua-full-version": quote(metadata.fullVersion),
+    "sec-ch-ua-full-version-list": brandHeader(metadata.fullVersionList),
+    "sec-ch-ua-model": quote(metadata.model),
+    "sec-ch-ua-arch": quote(metadata.architecture),
+    "sec-ch-ua-bitness": quote(metadata.bitness),
+    "sec-ch-ua-wow64": metadata.wow64 ? "?1" : "?0",
+  };
+
+  Object.entries(hints).forEach(([name, value]) => {
+    if (LOW_ENTROPY_HINTS.includes(name) || requested.has(name)) {
+      requestHeaders[name] = value;
+    }
+  });
+}
+
+/**
+ * Pad a version to three components like Chromium reports it ("14" -> "14.0.0")
+ */
+function padVersion(version: string): string {
+  if (!version) return "";
+  const parts = version.split(".");
+  while (parts.length < 3) parts.push("0");
+  return parts.join(".");
+}
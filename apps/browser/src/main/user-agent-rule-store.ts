@@ -0,0 +1,176 @@
+/**
+ * Per-domain user agent rules, built-in defaults merged with user edits
+ */
+
+import { app } from "electron";
+import path from "path";
+import fs from "fs";
+import { UserAgentPreset, UserAgentRule } from "./types";
+import { DEFAULT_USER_AGENT_RULES } from "./constants";
+
+export type UserAgentRuleInput = Pick<UserAgentRule, "domain" | "preset" | "customUserAgent">;
+
+/**
+ * Normalize a domain pattern typed by the user ("https://www.Example.com/path" -> "example.com")
+ */
+function normalizeDomain(input: string): string {
+  const trimmed = input.trim().toLowerCase();
+
+  try {
+    const hostname = new URL(trimmed.includes("://") ? trimmed : `https://${trimmed}`).hostname;
+    return hostname.replace(/^www\./, "");
+  } catch {
+    return trimmed.replace(/^www\./, "");
+  }
+}
+
+export class UserAgentRuleStore {
+  private rulesPath: string;
+  private rules: UserAgentRule[] = [];
+
+  constructor() {
+    const userDataPath = app.getPath("userData");
+    this.rulesPath = path.join(userDataPath, "user-agent-rules.json");
+    this.loadRules();
+  }
+
+  /**
+   * Load rules from file, built-in rules missing from it are added with their defaults
+   */
+  private loadRules(): void {
+    let saved: UserAgentRule[] = [];
+
+    try {
+      if (fs.existsSync(this.rulesPath)) {
+        const data = fs.readFileSync(this.rulesPath, "utf-8");
+        saved = JSON.parse(data);
+        console.log(`[UserAgentRuleStore] Loaded ${saved.length} rules`);
+      }
+    } catch (error) {
+      console.error("[UserAgentRuleStore] Failed to load rules:", error);
+      saved = [];
+    }
+
+    const missingBuiltIns = DEFAULT_USER_AGENT_RULES.filter(
+      (builtIn) => !saved.some((rule) => rule.id === builtIn.id)
+    );
+    this.rules = [...missingBuiltIns.map((rule) => ({ ...rule })), ...saved];
+  }
+
+  /**
+   * Save rules to file
+   */
+  private saveRules(): void {
+    try {
+      const data = JSON.stringify(this.rules, null, 2);
+      fs.writeFileSync(this.rulesPath, data, "utf-8");
+      console.log(`[UserAgentRuleStore] Saved ${this.rules.length} rules`);
+    } catch (error) {
+      console.error("[UserAgentRuleStore] Failed to save rules:", error);
+    }
+  }
+
+  /**
+   * Get built-in and user rules
+   */
+  getAll(): UserAgentRule[] {
+    return this.rules.map((rule) => ({ ...rule }));
+  }
+
+  /**
+   * Add a user rule, or update the existing rule for the same domain
+   */
+  add(input: UserAgentRuleInput): UserAgentRule | null {
+    const domain = normalizeDomain(input.domain);
+    if (!domain) {
+      console.error("[UserAgentRuleStore] Invalid domain:", input.domain);
+      return null;
+    }
+
+    const existing = this.rules.find((rule) => rule.domain === domain);
+    if (existing) {
+      return this.update(existing.id, { ...input, enabled: true });
+    }
+
+    const rule: UserAgentRule = {
+      id: `custom-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      domain,
+      preset: input.preset,
+      customUserAgent: input.customUserAgent?.trim() || undefined,
+      enabled: true,
+    };
+
+    this.rules.push(rule);
+    this.saveRules();
+    console.log(`[UserAgentRuleStore] Added rule: ${domain}`);
+    return rule;
+  }
+
+  /**
+   * Update a rule; built-in rules keep their domain
+   */
+  update(
+    id: string,
+    updates: Partial<UserAgentRuleInput & Pick<UserAgentRule, "enabled">>
+  ): UserAgentRule | null {
+    const index = this.rules.findIndex((rule) => rule.id === id);
+    if (index === -1) {
+      console.error(`[UserAgentRuleStore] Rule not found: ${id}`);
+      return null;
+    }
+
+    const rule = this.rules[index];
+    const domain =
+      updates.domain !== undefined && !rule.isBuiltIn ? normalizeDomain(updates.domain) : rule.domain;
+
+    this.rules[index] = {
+      ...rule,
+      domain: domain || rule.domain,
+      preset: updates.preset ?? rule.preset,
+      customUserAgent:
+        updates.customUserAgent !== undefined
+          ? updates.customUserAgent.trim() || undefined
+          : rule.customUserAgent,
+      enabled: updates.enabled ?? rule.enabled,
+    };
+
+    this.saveRules();
+    console.log(`[UserAgentRuleStore] Updated rule: ${id}`);
+    return this.rules[index];
+  }
+
+  /**
+   * Remove a user rule (built-in rules can only be disabled)
+   */
+  remove(id: string): boolean {
+    const index = this.rules.findIndex((rule) => rule.id === id && !rule.isBuiltIn);
+    if (index === -1) {
+      console.error(`[UserAgentRuleStore] User rule not found: ${id}`);
+      return false;
+    }
+
+    const removed = this.rules.splice(index, 1)[0];
+    this.saveRules();
+    console.log(`[UserAgentRuleStore] Removed rule: ${removed.domain}`);
+    return true;
+  }
+
+  /**
+   * Request the desktop or mobile site for the URL's domain, like Safari's "Request Desktop Website".
+   * Returns false for URLs without a domain.
+   */
+  setPresetForUrl(url: string, preset: UserAgentPreset): boolean {
+    let hostname: string;
+    try {
+      const { protocol, hostname: urlHostname } = new URL(url);
+      if (protocol !== "http:" && protocol !== "https:") return false;
+      hostname = urlHostname.toLowerCase().replace(/^www\./, "");
+    } catch {
+      return false;
+    }
+
+    // An exact-domain rule wins over rules for parent domains, including built-in ones
+    this.add({ domain: hostname, preset });
+    return true;
+  }
+}
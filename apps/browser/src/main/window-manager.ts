@@ -4,40 +4,89 @@
 
 import { BrowserWindow, screen, app } from "electron";
 import path from "path";
-import { AppState } from "./types";
+import { AppState, DeviceOrientation, DeviceProfile, FrameZoom } from "./types";
 import {
-  IPHONE_WIDTH,
-  IPHONE_HEIGHT,
+  BARE_MODE_HANDLE_HEIGHT,
   FRAME_PADDING,
+  FRAME_ZOOM_PRESETS,
   TOP_BAR_HEIGHT,
-  STATUS_BAR_HEIGHT,
-  STATUS_BAR_WIDTH,
 } from "./constants";
-import { logSecurityEvent } from "./security";
+import { getUserAgentForUrl } from "./security";
 import { TabManager } from "./tab-manager";
+import { EmulationManager } from "./emulation-manager";
+import {
+  getSystemBarInsets,
+  isLandscapeOrientation,
+  supportsUpsideDown,
+} from "./device-profiles";
+import { PreferencesStore } from "./preferences-store";
+
+// Quarter turns to the left, starting upright
+const ORIENTATION_SEQUENCE: DeviceOrientation[] = [
+  "portrait",
+  "landscape-left",
+  "portrait-upside-down",
+  "landscape-right",
+];
 
 export class WindowManager {
   private state: AppState;
   private tabManager: TabManager;
-
-  constructor(state: AppState, tabManager: TabManager) {
+  private emulationManager: EmulationManager;
+  private preferencesStore: PreferencesStore;
+
+  constructor(
+    state: AppState,
+    tabManager: TabManager,
+    emulationManager: EmulationManager,
+    preferencesStore: PreferencesStore
+  ) {
     this.state = state;
     this.tabManager = tabManager;
+    this.emulationManager = emulationManager;
+    this.preferencesStore = preferencesStore;
+
+    // Entering and leaving fullscreen lays the active tab out again
+    this.tabManager.setViewBoundsHandler(() => this.updateWebContentsViewBounds());
   }
 
   /**
-   * Get window dimensions based on orientation
+   * Get window dimensions based on orientation and frame zoom
    */
   getWindowDimensions() {
-    if (this.state.isLandscape) {
+    const { width, height } = this.getBaseWindowDimensions();
+    const scale = this.state.frameScale;
+
+    return {
+      width: Math.round(width * scale),
+      height: Math.round(height * scale),
+    };
+  }
+
+  /**
+   * Window dimensions that show the device at its true size
+   */
+  private getBaseWindowDimensions() {
+    const { width, height } = this.state.deviceProfile.viewport;
+    const isLandscape = isLandscapeOrientation(this.state.orientation);
+
+    // Bare mode: the exact viewport below a thin drag handle
+    if (this.state.isBareMode) {
       return {
-        width: IPHONE_HEIGHT + FRAME_PADDING,
-        height: IPHONE_WIDTH + FRAME_PADDING + TOP_BAR_HEIGHT,
+        width: isLandscape ? height : width,
+        height: (isLandscape ? width : height) + BARE_MODE_HANDLE_HEIGHT,
+      };
+    }
+
+    if (isLandscape) {
+      return {
+        width: height + FRAME_PADDING,
+        height: width + FRAME_PADDING + TOP_BAR_HEIGHT,
       };
     } else {
       return {
-        width: IPHONE_WIDTH + FRAME_PADDING,
-        height: IPHONE_HEIGHT + FRAME_PADDING + TOP_BAR_HEIGHT,
+        width: width + FRAME_PADDING,
+        height: height + FRAME_PADDING + TOP_BAR_HEIGHT,
       };
     }
   }
@@ -48,132 +97,329 @@ export class WindowManager {
   updateWebContentsViewBounds(): void {
     if (!this.state.webContentsView || !this.state.mainWindow) return;
 
-    // Check if active tab is in fullscreen mode (Plan 1.5)
-    const activeTab = this.state.tabs.find((t) => t.id === this.state.activeTabId);
-    if (activeTab?.isFullscreen) {
-      // In fullscreen mode, hide status bar and add gaps to keep within device frame
+    // Bare mode: the web view fills the window below the drag handle
+    if (this.state.isBareMode) {
       const windowBounds = this.state.mainWindow.getBounds();
-      const topBarHeight = TOP_BAR_HEIGHT;
-      const deviceFramePadding = FRAME_PADDING / 2;
-      const fullscreenGapHorizontal = 57; // Match tab-manager
-      const fullscreenGapVertical = 67; // Match tab-manager
-
-      if (this.state.isLandscape) {
-        // Landscape: gap on left and right to avoid rounded corners
-        const bounds = {
-          x: fullscreenGapHorizontal - 30,
-          y: topBarHeight + deviceFramePadding,
-          width: windowBounds.width - fullscreenGapHorizontal * 2,
-          height: windowBounds.height - topBarHeight - deviceFramePadding * 2,
-        };
-        activeTab.view.setBounds(bounds);
-      } else {
-        // Portrait: gap on top and bottom to avoid rounded corners
-        const bounds = {
-          x: deviceFramePadding,
-          y: topBarHeight + fullscreenGapVertical - 30,
-          width: windowBounds.width - deviceFramePadding * 2,
-          height: windowBounds.height - topBarHeight - fullscreenGapVertical - fullscreenGapVertical,
-        };
-        activeTab.view.setBounds(bounds);
-      }
-      
-      // Notify renderer to hide status bar in fullscreen mode
-      this.state.mainWindow.webContents.send("fullscreen-mode-changed", true);
+      const handleHeight = Math.round(BARE_MODE_HANDLE_HEIGHT * this.state.frameScale);
+
+      this.state.webContentsView.setBounds({
+        x: 0,
+        y: handleHeight,
+        width: windowBounds.width,
+        height: windowBounds.height - handleHeight,
+      });
       return;
     }
 
-    // Not in fullscreen - show status bar
-    this.state.mainWindow.webContents.send("fullscreen-mode-changed", false);
-
     const bounds = this.state.mainWindow.getBounds();
-    const dimensions = this.getWindowDimensions();
+    const dimensions = this.getBaseWindowDimensions();
 
     // Calculate scale factor
     const scaleX = bounds.width / dimensions.width;
     const scaleY = bounds.height / dimensions.height;
 
-    if (this.state.isLandscape) {
-      const statusBarWidth = STATUS_BAR_WIDTH * scaleX;
-      const frameTop = (FRAME_PADDING / 2) * scaleY;
-      const frameBottom = (FRAME_PADDING / 2) * scaleY;
-      const frameRight = (FRAME_PADDING / 2) * scaleX;
-      const topBarHeight = TOP_BAR_HEIGHT * scaleY;
+    const orientation = this.state.orientation;
+    const frameHalf = FRAME_PADDING / 2;
+    const topBarHeight = TOP_BAR_HEIGHT * scaleY;
+    let left: number;
+    let right: number;
+    let top: number;
+    let bottom: number;
 
-      this.state.webContentsView.setBounds({
-        x: Math.round(statusBarWidth),
-        y: Math.round(topBarHeight + frameTop),
-        width: Math.round(bounds.width - statusBarWidth - frameRight),
-        height: Math.round(bounds.height - topBarHeight - frameTop - frameBottom),
-      });
+    // Check if active tab is in fullscreen mode (Plan 1.5)
+    const activeTab = this.state.tabs.find((t) => t.id === this.state.activeTabId);
+    if (activeTab?.isFullscreen) {
+      // In fullscreen mode the page covers the status bar, but stays clear of the
+      // screen's rounded corners at both ends of the long side
+      const cornerGap = frameHalf + this.state.deviceProfile.cornerRadius;
+      const isLandscape = isLandscapeOrientation(orientation);
+
+      left = (isLandscape ? cornerGap : frameHalf) * scaleX;
+      right = left;
+      top = (isLandscape ? frameHalf : cornerGap) * scaleY;
+      bottom = top;
     } else {
-      const statusBarHeight = STATUS_BAR_HEIGHT * scaleY;
-      const frameTop = (FRAME_PADDING / 2) * scaleY;
-      const frameBottom = (FRAME_PADDING / 2) * scaleY;
-      const frameLeft = (FRAME_PADDING / 2) * scaleX;
-      const frameRight = (FRAME_PADDING / 2) * scaleX;
-      const topBarHeight = TOP_BAR_HEIGHT * scaleY;
+      // Status bar and navigation bar of the device skin are not web content
+      const insets = getSystemBarInsets(this.state.deviceProfile, orientation);
+
+      // In landscape the status bar replaces the frame padding on its side
+      left = (orientation === "landscape-left" ? insets.left : frameHalf + insets.left) * scaleX;
+      right =
+        (orientation === "landscape-right" ? insets.right : frameHalf + insets.right) * scaleX;
+      top = (frameHalf + insets.top) * scaleY;
+      bottom = (frameHalf + insets.bottom) * scaleY;
+    }
 
-      this.state.webContentsView.setBounds({
-        x: Math.round(frameLeft),
-        y: Math.round(topBarHeight + statusBarHeight + frameTop),
-        width: Math.round(bounds.width - frameLeft - frameRight),
-        height: Math.round(
-          bounds.height - topBarHeight - statusBarHeight - frameTop - frameBottom
-        ),
+    // Hide the status bar in fullscreen mode
+    this.state.mainWindow.webContents.send("fullscreen-mode-changed", !!activeTab?.isFullscreen);
+
+    this.state.webContentsView.setBounds({
+      x: Math.round(left),
+      y: Math.round(topBarHeight + top),
+      width: Math.round(bounds.width - left - right),
+      height: Math.round(bounds.height - topBarHeight - top - bottom),
+    });
+  }
+
+  /**
+   * Frame zoom setting and the resulting zoom factor for the renderer
+   */
+  getFrameZoom() {
+    return { zoom: this.state.frameZoom, scale: this.state.frameScale };
+  }
+
+  /**
+   * Zoom the device frame; the page keeps its true CSS size and is only scaled visually
+   */
+  setFrameZoom(zoom: FrameZoom): void {
+    this.state.frameZoom = zoom;
+    this.updateFrameScale();
+    this.applyDeviceMetricsAfterResize(this.resizeToDeviceDimensions());
+  }
+
+  /**
+   * Whether startup reopens the last session's tabs instead of a blank page
+   */
+  getRestoreSession(): boolean {
+    return this.preferencesStore.get("restoreSession");
+  }
+
+  setRestoreSession(enabled: boolean): void {
+    this.preferencesStore.set("restoreSession", enabled);
+  }
+
+  /**
+   * Show only the web view (bare) or the full device frame, remembered across restarts
+   */
+  setBareMode(enabled: boolean): void {
+    if (this.state.isBareMode === enabled) return;
+
+    this.state.isBareMode = enabled;
+    this.preferencesStore.set("isBareMode", enabled);
+    console.log(`[WindowManager] Bare mode ${enabled ? "enabled" : "disabled"}`);
+    this.updateFrameScale();
+    const resized = this.resizeToDeviceDimensions();
+
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      // Renderer hides the frame and top bar, tabs skip their corner masks
+      this.state.mainWindow.webContents.send("bare-mode-changed", enabled);
+      this.state.tabs.forEach((tab) => {
+        if (!tab.view.webContents.isDestroyed()) {
+          tab.view.webContents.send("bare-mode-changed", enabled);
+        }
       });
+
+      this.updateWebContentsViewBounds();
     }
+
+    this.applyDeviceMetricsAfterResize(resized);
+  }
+
+  toggleBareMode(): boolean {
+    this.setBareMode(!this.state.isBareMode);
+    return this.state.isBareMode;
   }
 
   /**
    * Toggle orientation between portrait and landscape
    */
-  toggleOrientation(): string {
-    this.state.isLandscape = !this.state.isLandscape;
+  toggleOrientation(): DeviceOrientation {
+    return this.setOrientation(
+      isLandscapeOrientation(this.state.orientation) ? "portrait" : "landscape-left"
+    );
+  }
+
+  /**
+   * Rotate the device a quarter turn, skipping upside down on devices that don't allow it
+   */
+  rotate(direction: "left" | "right"): DeviceOrientation {
+    const sequence = ORIENTATION_SEQUENCE.filter(
+      (o) => o !== "portrait-upside-down" || supportsUpsideDown(this.state.deviceProfile)
+    );
+    const index = sequence.indexOf(this.state.orientation);
+    const step = direction === "left" ? 1 : sequence.length - 1;
+    return this.setOrientation(sequence[(Math.max(index, 0) + step) % sequence.length]);
+  }
+
+  /**
+   * Set the device orientation, upside down falls back to portrait where unsupported
+   */
+  setOrientation(orientation: DeviceOrientation): DeviceOrientation {
+    if (orientation === "portrait-upside-down" && !supportsUpsideDown(this.state.deviceProfile)) {
+      orientation = "portrait";
+    }
+    if (this.state.orientation === orientation) return orientation;
+
+    this.state.orientation = orientation;
+    this.updateFrameScale();
+    const resized = this.resizeToDeviceDimensions();
 
     if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
-      const dimensions = this.getWindowDimensions();
+      this.notifyOrientationChanged();
+      // Same window size (e.g. landscape-left to landscape-right) doesn't fire a resize
+      this.updateWebContentsViewBounds();
+    }
 
-      // Get current window bounds
-      const currentBounds = this.state.mainWindow.getBounds();
+    this.applyDeviceMetricsAfterResize(resized);
 
-      // Calculate new bounds maintaining the center position
-      const newBounds = {
-        x: currentBounds.x + (currentBounds.width - dimensions.width) / 2,
-        y: currentBounds.y + (currentBounds.height - dimensions.height) / 2,
-        width: dimensions.width,
-        height: dimensions.height,
-      };
+    this.tabManager.persistSession();
+    return orientation;
+  }
+
+  getOrientation(): DeviceOrientation {
+    return this.state.orientation;
+  }
 
-      this.state.mainWindow.setBounds(newBounds);
+  /**
+   * Notify the renderer and all tabs about an orientation change
+   */
+  private notifyOrientationChanged(): void {
+    if (!this.state.mainWindow || this.state.mainWindow.isDestroyed()) return;
 
-      const orientation = this.state.isLandscape ? "landscape" : "portrait";
+    this.state.mainWindow.webContents.send("orientation-changed", this.state.orientation);
+    this.state.tabs.forEach((tab) => {
+      if (!tab.view.webContents.isDestroyed()) {
+        tab.view.webContents.send("orientation-changed", this.state.orientation);
+      }
+    });
+  }
 
-      // Notify renderer about orientation change
-      this.state.mainWindow.webContents.send("orientation-changed", orientation);
+  /**
+   * Switch the emulated device and resize the frame to match
+   */
+  setDeviceProfile(profile: DeviceProfile): void {
+    this.state.deviceProfile = profile;
+    const isFlipped =
+      this.state.orientation === "portrait-upside-down" && !supportsUpsideDown(profile);
+    if (isFlipped) {
+      this.state.orientation = "portrait";
+    }
+    this.updateFrameScale();
+
+    // Apply the new user agent to every tab; it takes effect on the next load
+    this.state.tabs.forEach((tab) => {
+      if (!tab.view.webContents.isDestroyed()) {
+        this.emulationManager.setUserAgent(
+          tab.view.webContents,
+          getUserAgentForUrl(tab.url, profile.userAgent, this.state.userAgentRules)
+        );
+      }
+    });
 
-      // Notify all WebContentsViews (tabs) about orientation change
+    const resized = this.resizeToDeviceDimensions();
+
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      if (isFlipped) {
+        this.notifyOrientationChanged();
+      }
+
+      // Notify renderer about device change
+      this.state.mainWindow.webContents.send("device-profile-changed", profile);
+
+      // Notify all WebContentsViews (tabs) so corner masks follow the new screen
       this.state.tabs.forEach((tab) => {
         if (!tab.view.webContents.isDestroyed()) {
-          tab.view.webContents.send("orientation-changed", orientation);
+          tab.view.webContents.send("device-profile-changed", profile);
         }
       });
     }
 
-    return this.state.isLandscape ? "landscape" : "portrait";
+    this.applyDeviceMetricsAfterResize(resized);
+    this.tabManager.persistSession();
+  }
+
+  /**
+   * Recompute the zoom factor ("fit" depends on device and orientation) and apply it;
+   * tabs are re-emulated separately once the window has its new size
+   */
+  private updateFrameScale(): void {
+    const zoom = this.state.frameZoom;
+    this.state.frameScale = zoom === "fit" ? this.getFitScale() : zoom;
+    this.applyFrameScale();
+  }
+
+  /**
+   * Largest zoom factor at which the frame fits the work area of the window's display
+   */
+  private getFitScale(): number {
+    const base = this.getBaseWindowDimensions();
+    const display = this.state.mainWindow
+      ? screen.getDisplayMatching(this.state.mainWindow.getBounds())
+      : screen.getPrimaryDisplay();
+    const { width, height } = display.workArea;
+
+    const scale = Math.min((width - 20) / base.width, (height - 20) / base.height);
+    return Math.floor(scale * 100) / 100;
+  }
+
+  /**
+   * Zoom the browser UI to the current frame scale
+   */
+  private applyFrameScale(): void {
+    if (this.state.mainWindow && !this.state.mainWindow.isDestroyed()) {
+      this.state.mainWindow.webContents.setZoomFactor(this.state.frameScale);
+      this.state.mainWindow.webContents.send("frame-zoom-changed", this.getFrameZoom());
+    }
+  }
+
+  /**
+   * Re-emulate tabs after a device, orientation or zoom change. A zoomed viewport is
+   * derived from the view bounds, so after a resize the bounds-changed listener applies
+   * it once the new bounds are set rather than from the old ones here
+   */
+  private applyDeviceMetricsAfterResize(resized: boolean): void {
+    if (!resized || this.state.frameScale === 1) {
+      this.emulationManager.applyDeviceMetricsToAllTabs();
+    }
+  }
+
+  /**
+   * Snap a zoom factor from a manual resize to a nearby preset, otherwise round it
+   */
+  private snapFrameZoom(zoom: number): number {
+    const preset = FRAME_ZOOM_PRESETS.find((p) => Math.abs(p - zoom) < 0.02);
+    return preset ?? Math.round(zoom * 100) / 100;
+  }
+
+  /**
+   * Resize the window to the current device and orientation, keeping it centered;
+   * returns whether the window size changed
+   */
+  private resizeToDeviceDimensions(): boolean {
+    if (!this.state.mainWindow || this.state.mainWindow.isDestroyed()) return false;
+
+    const dimensions = this.getWindowDimensions();
+
+    // Get current window bounds
+    const currentBounds = this.state.mainWindow.getBounds();
+
+    // Calculate new bounds maintaining the center position
+    const newBounds = {
+      x: Math.round(currentBounds.x + (currentBounds.width - dimensions.width) / 2),
+      y: Math.round(currentBounds.y + (currentBounds.height - dimensions.height) / 2),
+      width: dimensions.width,
+      height: dimensions.height,
+    };
+
+    this.state.mainWindow.setBounds(newBounds);
+    return newBounds.width !== currentBounds.width || newBounds.height !== currentBounds.height;
   }
 
   /**
    * Create the main browser window
    */
   createWindow(): void {
+    if (this.state.frameZoom === "fit") {
+      this.state.frameScale = this.getFitScale();
+    }
     const dimensions = this.getWindowDimensions();
     
     this.state.mainWindow = new BrowserWindow({
       width: dimensions.width,
       height: dimensions.height,
-      minWidth: 300,
-      minHeight: 400,
+      // Small enough for a 50% frame
+      minWidth: 150,
+      minHeight: 150,
       webPreferences: {
         preload: path.join(__dirname, "..", "preload.js"),
         nodeIntegration: false,
@@ -214,35 +460,39 @@ export class WindowManager {
       }
     });
 
+    // Zoom is reset when the UI loads, apply the frame zoom again
+    this.state.mainWindow.webContents.on("did-finish-load", () => {
+      this.state.mainWindow?.webContents.setZoomFactor(this.state.frameScale);
+    });
+
     // Register local keyboard shortcuts (only work when window is focused)
     this.registerLocalShortcuts();
 
-    // Create initial blank tab with start page
-    const initialTab = this.tabManager.createTab("");
-    this.tabManager.switchToTab(initialTab.id);
-
-    // Set permission request handler
-    if (this.state.webContentsView) {
-      this.state.webContentsView.webContents.session.setPermissionRequestHandler(
-        (webContents, permission, callback) => {
-          const allowedPermissions = [
-            "clipboard-read",
-            "clipboard-write",
-            "media",
-            "fullscreen", // Allow fullscreen - handled by Electron native events
-          ];
-
-          if (allowedPermissions.includes(permission)) {
-            logSecurityEvent(`Permission granted: ${permission}`);
-            callback(true);
-          } else {
-            logSecurityEvent(`Permission denied: ${permission}`);
-            callback(false);
-          }
-        }
-      );
+    // A window reopened on macOS (activate) shows the tabs it had; otherwise reopen the
+    // last session, or create an initial blank tab with start page
+    if (this.state.tabs.length > 0) {
+      const activeTab =
+        this.state.tabs.find((t) => t.id === this.state.activeTabId) ?? this.state.tabs[0];
+      this.tabManager.switchToTab(activeTab.id);
+    } else {
+      const isRestored =
+        this.preferencesStore.get("restoreSession") && this.tabManager.restoreSession();
+      if (!isRestored) {
+        const initialTab = this.tabManager.createTab("");
+        this.tabManager.switchToTab(initialTab.id);
+      }
     }
 
+    // Bare mode has no device frame in the renderer to report web view bounds
+    if (this.state.isBareMode) {
+      this.updateWebContentsViewBounds();
+    }
+    this.state.mainWindow.on("resize", () => {
+      if (this.state.isBareMode) {
+        this.updateWebContentsViewBounds();
+      }
+    });
+
     // Set security headers
     this.setupSecurityHeaders();
 
@@ -257,9 +507,9 @@ export class WindowManager {
       this.state.mainWindow.loadFile(rendererPath);
     }
 
-    // Maintain aspect ratio on resize
+    // Maintain aspect ratio on resize; resizing zooms the frame instead of changing the viewport
     this.state.mainWindow.on("will-resize", (event, newBounds) => {
-      const dimensions = this.getWindowDimensions();
+      const dimensions = this.getBaseWindowDimensions();
       const aspectRatio = dimensions.width / dimensions.height;
 
       // Get screen dimensions
@@ -288,11 +538,17 @@ export class WindowManager {
       }
 
       event.preventDefault();
+      // A step the zoom control can show, the window is sized to match it exactly
+      const zoom = this.snapFrameZoom(newWidth / dimensions.width);
+      this.state.frameZoom = zoom;
+      this.state.frameScale = zoom;
+      this.applyFrameScale();
       this.state.mainWindow?.setBounds({
         ...newBounds,
-        width: newWidth,
-        height: newHeight,
+        width: Math.round(dimensions.width * zoom),
+        height: Math.round(dimensions.height * zoom),
       });
+      this.applyDeviceMetricsAfterResize(true);
     });
   }
 
@@ -369,7 +625,36 @@ export class WindowManager {
           }
         }
       }
+
+      this.handlePageShortcut(event, input);
     });
+
+    // Bare mode leaves no browser UI to focus, so some shortcuts also work inside pages
+    this.tabManager.setPageShortcutHandler((event, input) => {
+      if (input.type !== "keyDown") return;
+      this.handlePageShortcut(event, input);
+    });
+  }
+
+  /**
+   * Shortcuts handled both in the browser UI and while a page has focus
+   */
+  private handlePageShortcut(event: Electron.Event, input: Electron.Input): void {
+    const isMac = process.platform === "darwin";
+    const modifierKey = isMac ? input.meta : input.control;
+
+    // Cmd+Shift+B / Ctrl+Shift+B to toggle bare mode
+    if (modifierKey && input.shift && input.key.toLowerCase() === "b" && !input.alt) {
+      event.preventDefault();
+      this.toggleBareMode();
+      return;
+    }
+
+    // Cmd+Shift+T / Ctrl+Shift+T to reopen the last closed tab
+    if (modifierKey && input.shift && input.key.toLowerCase() === "t" && !input.alt) {
+      event.preventDefault();
+      this.tabManager.reopenClosedTab();
+    }
   }
 
   /**
@@ -31,8 +31,16 @@ contextBridge.exposeInMainWorld("electronAPI", {
   // Orientation APIs
   getOrientation: () => ipcRenderer.invoke("get-orientation"),
   toggleOrientation: () => ipcRenderer.invoke("toggle-orientation"),
+  setOrientation: (orientation: string) =>
+    ipcRenderer.invoke("set-orientation", orientation),
   onOrientationChanged: (
-    callback: (orientation: "portrait" | "landscape") => void
+    callback: (
+      orientation:
+        | "portrait"
+        | "portrait-upside-down"
+        | "landscape-left"
+        | "landscape-right"
+    ) => void
   ) => {
     ipcRenderer.on("orientation-changed", (_event, orientation) =>
       callback(orientation)
@@ -40,6 +48,134 @@ contextBridge.exposeInMainWorld("electronAPI", {
     return () => ipcRenderer.removeAllListeners("orientation-changed");
   },
 
+  // Bare viewport mode (no frame, status bar or top bar)
+  bareMode: {
+    get: () => ipcRenderer.invoke("bare-mode-get"),
+    toggle: () => ipcRenderer.invoke("bare-mode-toggle"),
+    onChanged: (callback: (enabled: boolean) => void) => {
+      const listener = (_event: any, enabled: boolean) => callback(enabled);
+      ipcRenderer.on("bare-mode-changed", listener);
+      return () => ipcRenderer.removeListener("bare-mode-changed", listener);
+    },
+  },
+
+  // Device frame zoom
+  frameZoom: {
+    get: () => ipcRenderer.invoke("frame-zoom-get"),
+    set: (zoom: number | "fit") => ipcRenderer.invoke("frame-zoom-set", zoom),
+    onChanged: (callback: (state: any) => void) => {
+      const listener = (_event: any, state: any) => callback(state);
+      ipcRenderer.on("frame-zoom-changed", listener);
+      return () => ipcRenderer.removeListener("frame-zoom-changed", listener);
+    },
+  },
+
+  // Device profile APIs
+  devices: {
+    getAll: () => ipcRenderer.invoke("devices-get-all"),
+    getActive: () => ipcRenderer.invoke("device-get-active"),
+    setActive: (profileId: string) => ipcRenderer.invoke("device-set-active", profileId),
+    add: (input: any) => ipcRenderer.invoke("devices-add", input),
+    update: (id: string, updates: any) => ipcRenderer.invoke("devices-update", id, updates),
+    duplicate: (id: string) => ipcRenderer.invoke("devices-duplicate", id),
+    remove: (id: string) => ipcRenderer.invoke("devices-remove", id),
+    onActiveChanged: (callback: (profile: any) => void) => {
+      const listener = (_event: any, profile: any) => callback(profile);
+      ipcRenderer.on("device-profile-changed", listener);
+      return () => ipcRenderer.removeListener("device-profile-changed", listener);
+    },
+    onUpdate: (callback: () => void) => {
+      const listener = () => callback();
+      ipcRenderer.on("devices-updated", listener);
+      return () => ipcRenderer.removeListener("devices-updated", listener);
+    },
+  },
+
+  // Per-domain user agent rules
+  userAgentRules: {
+    getAll: () => ipcRenderer.invoke("user-agent-rules-get-all"),
+    add: (input: any) => ipcRenderer.invoke("user-agent-rules-add", input),
+    update: (id: string, updates: any) => ipcRenderer.invoke("user-agent-rules-update", id, updates),
+    remove: (id: string) => ipcRenderer.invoke("user-agent-rules-remove", id),
+    getSitePreset: () => ipcRenderer.invoke("user-agent-get-site-preset"),
+    requestDesktop: (desktop: boolean) => ipcRenderer.invoke("user-agent-request-desktop", desktop),
+    onUpdate: (callback: () => void) => {
+      const listener = () => callback();
+      ipcRenderer.on("user-agent-rules-updated", listener);
+      return () => ipcRenderer.removeListener("user-agent-rules-updated", listener);
+    },
+  },
+
+  // Per-tab emulation (active tab)
+  emulation: {
+    getTouch: () => ipcRenderer.invoke("emulation-get-touch"),
+    setTouch: (enabled: boolean) => ipcRenderer.invoke("emulation-set-touch", enabled),
+    getMedia: () => ipcRenderer.invoke("emulation-get-media"),
+    setMedia: (features: any) => ipcRenderer.invoke("emulation-set-media", features),
+    getLocale: () => ipcRenderer.invoke("emulation-get-locale"),
+    setLocale: (override: any) => ipcRenderer.invoke("emulation-set-locale", override),
+    getSensors: () => ipcRenderer.invoke("sensors-get"),
+    setSensors: (reading: any) => ipcRenderer.invoke("sensors-set", reading),
+    shake: () => ipcRenderer.invoke("sensors-shake"),
+  },
+
+  // Virtual keyboard shown in the frame
+  virtualKeyboard: {
+    sendKey: (key: string) => ipcRenderer.invoke("virtual-keyboard-key", key),
+    dismiss: () => ipcRenderer.invoke("virtual-keyboard-dismiss"),
+    onChanged: (callback: (focus: any) => void) => {
+      const listener = (_event: any, focus: any) => callback(focus);
+      ipcRenderer.on("virtual-keyboard-changed", listener);
+      return () => ipcRenderer.removeListener("virtual-keyboard-changed", listener);
+    },
+  },
+
+  // Network throttling
+  network: {
+    getPresets: () => ipcRenderer.invoke("network-get-presets"),
+    getActive: () => ipcRenderer.invoke("network-get-active"),
+    setActive: (presetId: string) => ipcRenderer.invoke("network-set-active", presetId),
+    setCustom: (values: { latency: number; downloadKbps: number; uploadKbps: number }) =>
+      ipcRenderer.invoke("network-set-custom", values),
+    onChanged: (callback: (conditions: any) => void) => {
+      const listener = (_event: any, conditions: any) => callback(conditions);
+      ipcRenderer.on("network-changed", listener);
+      return () => ipcRenderer.removeListener("network-changed", listener);
+    },
+  },
+
+  // Geolocation emulation (active tab)
+  geolocation: {
+    getState: () => ipcRenderer.invoke("geolocation-get-state"),
+    set: (override: any) => ipcRenderer.invoke("geolocation-set", override),
+    addLocation: (name: string, position: any) =>
+      ipcRenderer.invoke("geolocation-add-location", name, position),
+    removeLocation: (id: string) => ipcRenderer.invoke("geolocation-remove-location", id),
+    startRoute: (route: any) => ipcRenderer.invoke("geolocation-start-route", route),
+    stopRoute: () => ipcRenderer.invoke("geolocation-stop-route"),
+    onStateChanged: (callback: (state: any) => void) => {
+      const listener = (_event: any, state: any) => callback(state);
+      ipcRenderer.on("geolocation-changed", listener);
+      return () => ipcRenderer.removeListener("geolocation-changed", listener);
+    },
+  },
+
+  // Multi-device mirror mode
+  mirror: {
+    getState: () => ipcRenderer.invoke("mirror-get-state"),
+    setEnabled: (enabled: boolean) => ipcRenderer.invoke("mirror-set-enabled", enabled),
+    addDevice: (profileId: string, isLandscape: boolean) =>
+      ipcRenderer.invoke("mirror-add-device", profileId, isLandscape),
+    updateDevice: (id: string, updates: any) =>
+      ipcRenderer.invoke("mirror-update-device", id, updates),
+    removeDevice: (id: string) => ipcRenderer.invoke("mirror-remove-device", id),
+    onStateChanged: (callback: (state: any) => void) => {
+      const listener = (_event: any, state: any) => callback(state);
+      ipcRenderer.on("mirror-state-changed", listener);
+      return () => ipcRenderer.removeListener("mirror-state-changed", listener);
+    },
+  },
+
   // Fullscreen mode listener
   onFullscreenModeChanged: (callback: (isFullscreen: boolean) => void) => {
     ipcRenderer.on("fullscreen-mode-changed", (_event, isFullscreen) =>
@@ -60,10 +196,27 @@ contextBridge.exposeInMainWorld("electronAPI", {
   // Tab management APIs
   tabs: {
     getAll: () => ipcRenderer.invoke("tabs-get-all"),
-    create: (url?: string) => ipcRenderer.invoke("tabs-create", url),
+    create: (url?: string, groupId?: string | null) =>
+      ipcRenderer.invoke("tabs-create", url, groupId),
     switch: (tabId: string) => ipcRenderer.invoke("tabs-switch", tabId),
     close: (tabId: string) => ipcRenderer.invoke("tabs-close", tabId),
     closeAll: () => ipcRenderer.invoke("tabs-close-all"),
+    setPinned: (tabId: string, pinned: boolean) =>
+      ipcRenderer.invoke("tabs-set-pinned", tabId, pinned),
+    getRecentlyClosed: () => ipcRenderer.invoke("tabs-get-recently-closed"),
+    reopenClosed: (closedTabId?: string) => ipcRenderer.invoke("tabs-reopen-closed", closedTabId),
+    getRestoreSession: () => ipcRenderer.invoke("session-get-restore"),
+    setRestoreSession: (enabled: boolean) => ipcRenderer.invoke("session-set-restore", enabled),
+    getGroups: () => ipcRenderer.invoke("tabs-get-groups"),
+    createGroup: (name: string, tabIds?: string[], color?: string) =>
+      ipcRenderer.invoke("tabs-create-group", name, tabIds, color),
+    updateGroup: (groupId: string, updates: any) =>
+      ipcRenderer.invoke("tabs-update-group", groupId, updates),
+    setGroup: (tabId: string, groupId: string | null) =>
+      ipcRenderer.invoke("tabs-set-group", tabId, groupId),
+    closeGroup: (groupId: string) => ipcRenderer.invoke("tabs-close-group", groupId),
+    getDiscardSettings: () => ipcRenderer.invoke("tabs-get-discard-settings"),
+    setDiscardSettings: (updates: any) => ipcRenderer.invoke("tabs-set-discard-settings", updates),
     onTabChanged: (callback: (data: { tabId: string; tabs: any[] }) => void) => {
       const listener = (_event: any, data: any) => callback(data);
       ipcRenderer.on("tab-changed", listener);
@@ -74,6 +227,16 @@ contextBridge.exposeInMainWorld("electronAPI", {
       ipcRenderer.on("tabs-updated", listener);
       return () => ipcRenderer.removeListener("tabs-updated", listener);
     },
+    onRecentlyClosedUpdated: (callback: (closedTabs: any[]) => void) => {
+      const listener = (_event: any, closedTabs: any) => callback(closedTabs);
+      ipcRenderer.on("tabs-recently-closed-updated", listener);
+      return () => ipcRenderer.removeListener("tabs-recently-closed-updated", listener);
+    },
+    onGroupsUpdated: (callback: (groups: any[]) => void) => {
+      const listener = (_event: any, groups: any) => callback(groups);
+      ipcRenderer.on("tab-groups-updated", listener);
+      return () => ipcRenderer.removeListener("tab-groups-updated", listener);
+    },
   },
 
   // WebContentsView control APIs
@@ -5,25 +5,47 @@ import PhoneFrame from "./components/phone-frame";
 import TabOverview from "./components/tab-overview";
 import Settings from "./components/settings";
 import MenuOverlay from "./components/menu-overlay";
+import {
+  getSystemBarInsets,
+  getVirtualKeyboardHeight,
+  getWebContentBounds,
+  isLandscapeOrientation,
+} from "./utils/device-layout";
+import type {
+  DeviceOrientation,
+  DeviceProfile,
+  NetworkConditions,
+  VirtualKeyboardFocus,
+} from "../types/electron-api";
+import { loadStatusBarConfig, saveStatusBarConfig } from "./utils/status-bar-config";
+import type { StatusBarConfig } from "./utils/status-bar-config";
 
 function App() {
-  const [_time, setTime] = useState("9:41");
   const [pageTitle, setPageTitle] = useState("New Tab");
   const [pageDomain, setPageDomain] = useState("");
   const [themeColor, setThemeColor] = useState("#1c1c1e"); // Start with blank-page color
   const [textColor, setTextColor] = useState("#ffffff"); // White text for dark background
   const [systemTheme, setSystemTheme] = useState<"light" | "dark">("dark");
   const [currentUrl, setCurrentUrl] = useState("");
-  const [orientation, setOrientation] = useState<"portrait" | "landscape">(
-    "portrait"
-  );
+  const [deviceOrientation, setDeviceOrientation] = useState<DeviceOrientation>("portrait");
   const [showTabOverview, setShowTabOverview] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
   const [tabCount, setTabCount] = useState(1);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [deviceProfile, setDeviceProfile] = useState<DeviceProfile | null>(null);
+  const [networkConditions, setNetworkConditions] = useState<NetworkConditions | null>(null);
+  const [statusBarConfig, setStatusBarConfig] = useState<StatusBarConfig>(loadStatusBarConfig);
+  const [isBareMode, setIsBareMode] = useState(false);
+  const [keyboardFocus, setKeyboardFocus] = useState<VirtualKeyboardFocus | null>(null);
+  const [isVirtualKeyboardEnabled, setIsVirtualKeyboardEnabled] = useState(
+    () => localStorage.getItem("virtualKeyboardEnabled") === "true"
+  );
   const webContainerRef = useRef<HTMLDivElement>(null);
 
+  // Portrait or landscape, for layouts that don't depend on which way the device is turned
+  const orientation = isLandscapeOrientation(deviceOrientation) ? "landscape" : "portrait";
+
   // Initialize and listen for system theme changes
   useEffect(() => {
     // Get initial themeㅇ
@@ -48,14 +70,78 @@ function App() {
     // Get initial orientation
     window.electronAPI
       ?.getOrientation()
-      .then((orient: "portrait" | "landscape") => {
-        setOrientation(orient);
+      .then((orient: DeviceOrientation) => {
+        setDeviceOrientation(orient);
       });
 
     // Listen for orientation changes
     const cleanup = window.electronAPI?.onOrientationChanged(
-      (orient: "portrait" | "landscape") => {
-        setOrientation(orient);
+      (orient: DeviceOrientation) => {
+        setDeviceOrientation(orient);
+      }
+    );
+
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, []);
+
+  // Initialize and listen for device profile changes
+  useEffect(() => {
+    // Get initial device profile
+    window.electronAPI?.devices.getActive().then((profile: DeviceProfile) => {
+      setDeviceProfile(profile);
+    });
+
+    // Listen for device profile changes
+    const cleanup = window.electronAPI?.devices.onActiveChanged(
+      (profile: DeviceProfile) => {
+        setDeviceProfile(profile);
+      }
+    );
+
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, []);
+
+  // Bare viewport mode: main sizes the web view to the whole window
+  useEffect(() => {
+    window.electronAPI?.bareMode.get().then((enabled: boolean) => {
+      setIsBareMode(enabled);
+    });
+
+    const cleanup = window.electronAPI?.bareMode.onChanged((enabled: boolean) => {
+      setIsBareMode(enabled);
+    });
+
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, []);
+
+  // Show the virtual keyboard while an editable element in the page has focus
+  useEffect(() => {
+    const cleanup = window.electronAPI?.virtualKeyboard.onChanged(
+      (focus: VirtualKeyboardFocus | null) => {
+        setKeyboardFocus(focus);
+      }
+    );
+
+    return () => {
+      if (cleanup) cleanup();
+    };
+  }, []);
+
+  // Initialize and listen for network throttling changes
+  useEffect(() => {
+    window.electronAPI?.network.getActive().then((conditions: NetworkConditions) => {
+      setNetworkConditions(conditions);
+    });
+
+    const cleanup = window.electronAPI?.network.onChanged(
+      (conditions: NetworkConditions) => {
+        setNetworkConditions(conditions);
       }
     );
 
@@ -118,6 +204,8 @@ function App() {
     const cleanupTabChanged = window.electronAPI?.tabs.onTabChanged(
       (data: { tabId: string; tabs: any[] }) => {
         setTabCount(data.tabs.length);
+        // Focus belonged to the previous tab
+        setKeyboardFocus(null);
 
         // Set bounds from renderer when tab changes (skip in fullscreen mode)
         // TEMPORARILY DISABLED FOR DEBUGGING
@@ -156,19 +244,6 @@ function App() {
     };
   }, [orientation]);
 
-  // Update time
-  useEffect(() => {
-    const updateTime = () => {
-      const now = new Date();
-      const hours = now.getHours().toString().padStart(2, "0");
-      const minutes = now.getMinutes().toString().padStart(2, "0");
-      setTime(`${hours}:${minutes}`);
-    };
-    updateTime();
-    const interval = setInterval(updateTime, 60000);
-    return () => clearInterval(interval);
-  }, []);
-
   // Calculate luminance to determine if color is light or dark
   const getLuminance = (color: string): number => {
     let r: number, g: number, b: number;
@@ -480,6 +555,25 @@ function App() {
     };
   }, []);
 
+  // Status bar and navigation bar of the device skin are not web content
+  const systemBarInsets = getSystemBarInsets(deviceProfile, deviceOrientation);
+
+  // The virtual keyboard covers the bottom of the screen and shrinks the page like on iOS
+  const isKeyboardShown =
+    isVirtualKeyboardEnabled &&
+    !!keyboardFocus &&
+    !isFullscreen &&
+    !showTabOverview &&
+    !showSettings &&
+    !showMenu;
+  const keyboardHeight = isKeyboardShown
+    ? getVirtualKeyboardHeight(keyboardFocus.inputMode, orientation)
+    : 0;
+  const contentInsets = {
+    ...systemBarInsets,
+    bottom: systemBarInsets.bottom + keyboardHeight,
+  };
+
   const handleNavigate = (url: string) => {
     let finalUrl = url.trim();
 
@@ -514,26 +608,12 @@ function App() {
     const newState = !showTabOverview;
     setShowTabOverview(newState);
 
-    // If closing tab overview, set bounds before showing view
-    if (!newState && webContainerRef.current) {
+    // If closing tab overview, set bounds before showing view (fullscreen tabs keep theirs)
+    if (!newState && webContainerRef.current && !isFullscreen) {
       const rect = webContainerRef.current.getBoundingClientRect();
-      const statusBarHeight = 58;
-      const statusBarWidth = 58;
-
-      window.electronAPI?.webContents.setBounds({
-        x: Math.round(
-          rect.x + (orientation === "landscape" ? statusBarWidth : 0)
-        ),
-        y: Math.round(
-          rect.y + (orientation === "landscape" ? 0 : statusBarHeight)
-        ),
-        width: Math.round(
-          rect.width - (orientation === "landscape" ? statusBarWidth : 0)
-        ),
-        height: Math.round(
-          rect.height - (orientation === "landscape" ? 0 : statusBarHeight)
-        ),
-      });
+      window.electronAPI?.webContents.setBounds(
+        getWebContentBounds(rect, contentInsets)
+      );
     }
 
     // Toggle WebContentsView visibility
@@ -544,25 +624,11 @@ function App() {
     setShowTabOverview(false);
 
     // Set bounds before showing view
-    if (webContainerRef.current) {
+    if (webContainerRef.current && !isFullscreen) {
       const rect = webContainerRef.current.getBoundingClientRect();
-      const statusBarHeight = 58;
-      const statusBarWidth = 58;
-
-      window.electronAPI?.webContents.setBounds({
-        x: Math.round(
-          rect.x + (orientation === "landscape" ? statusBarWidth : 0)
-        ),
-        y: Math.round(
-          rect.y + (orientation === "landscape" ? 0 : statusBarHeight)
-        ),
-        width: Math.round(
-          rect.width - (orientation === "landscape" ? statusBarWidth : 0)
-        ),
-        height: Math.round(
-          rect.height - (orientation === "landscape" ? 0 : statusBarHeight)
-        ),
-      });
+      window.electronAPI?.webContents.setBounds(
+        getWebContentBounds(rect, contentInsets)
+      );
     }
 
     // Show WebContentsView when closing tab overview
@@ -577,25 +643,11 @@ function App() {
     setShowSettings(false);
 
     // Set bounds before showing view
-    if (webContainerRef.current) {
+    if (webContainerRef.current && !isFullscreen) {
       const rect = webContainerRef.current.getBoundingClientRect();
-      const statusBarHeight = 58;
-      const statusBarWidth = 58;
-
-      window.electronAPI?.webContents.setBounds({
-        x: Math.round(
-          rect.x + (orientation === "landscape" ? statusBarWidth : 0)
-        ),
-        y: Math.round(
-          rect.y + (orientation === "landscape" ? 0 : statusBarHeight)
-        ),
-        width: Math.round(
-          rect.width - (orientation === "landscape" ? statusBarWidth : 0)
-        ),
-        height: Math.round(
-          rect.height - (orientation === "landscape" ? 0 : statusBarHeight)
-        ),
-      });
+      window.electronAPI?.webContents.setBounds(
+        getWebContentBounds(rect, contentInsets)
+      );
     }
 
     // Show WebContentsView when closing settings
@@ -607,21 +659,61 @@ function App() {
       // If settings is open, close it and show WebContentsView
       handleCloseSettings();
     } else {
-      // Hide WebContentsView and show settings directly
+      // Hide WebContentsView so the menu can be drawn above the page
       window.electronAPI?.webContents.setVisible(false);
-      setShowSettings(true);
+      setShowMenu(true);
     }
   };
 
   const handleCloseMenu = () => {
     setShowMenu(false);
+
+    // Tab overview keeps the WebContentsView hidden
+    if (showTabOverview) return;
+
+    // Set bounds before showing view
+    if (webContainerRef.current && !isFullscreen) {
+      const rect = webContainerRef.current.getBoundingClientRect();
+      window.electronAPI?.webContents.setBounds(
+        getWebContentBounds(rect, contentInsets)
+      );
+    }
+
+    window.electronAPI?.webContents.setVisible(true);
+  };
+
+  const handleStatusBarConfigChange = (config: StatusBarConfig) => {
+    setStatusBarConfig(config);
+    saveStatusBarConfig(config);
+  };
+
+  const handleToggleVirtualKeyboard = () => {
+    const enabled = !isVirtualKeyboardEnabled;
+    setIsVirtualKeyboardEnabled(enabled);
+    localStorage.setItem("virtualKeyboardEnabled", String(enabled));
   };
 
   const handleOpenSettingsFromMenu = () => {
+    // Closing the menu showed the WebContentsView again, hide it for settings
+    window.electronAPI?.webContents.setVisible(false);
+    setShowTabOverview(false);
     setShowSettings(true);
-    // WebContentsView is already hidden
   };
 
+  if (isBareMode) {
+    // Only a drag handle above the web view, the page fills the rest of the window
+    return (
+      <div className="w-screen h-screen overflow-hidden bg-black">
+        <div
+          className="h-[12px] flex items-center justify-center bg-[#1c1c1e] [-webkit-app-region:drag]"
+          title="Press ⌘⇧B / Ctrl+Shift+B to show the device frame"
+        >
+          <div className="w-9 h-[4px] rounded-full bg-white/30" />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="w-screen h-screen rounded-xl overflow-hidden bg-transparent">
       <TopBar
@@ -638,16 +730,24 @@ function App() {
       />
       <PhoneFrame
         webContainerRef={webContainerRef}
-        orientation={orientation}
+        orientation={deviceOrientation}
+        deviceProfile={deviceProfile}
+        networkConditions={networkConditions}
+        statusBarConfig={statusBarConfig}
         themeColor={themeColor}
         textColor={textColor}
         showTabOverview={showTabOverview || showSettings}
         isFullscreen={isFullscreen}
+        keyboardFocus={isKeyboardShown ? keyboardFocus : null}
+        keyboardHeight={keyboardHeight}
+        theme={systemTheme}
         tabOverviewContent={
           showSettings ? (
             <Settings
               theme={systemTheme}
               orientation={orientation}
+              statusBarConfig={statusBarConfig}
+              onStatusBarConfigChange={handleStatusBarConfigChange}
               onClose={handleCloseSettings}
             />
           ) : (
@@ -664,6 +764,8 @@ function App() {
           theme={systemTheme}
           currentUrl={currentUrl}
           currentTitle={pageTitle}
+          isVirtualKeyboardEnabled={isVirtualKeyboardEnabled}
+          onToggleVirtualKeyboard={handleToggleVirtualKeyboard}
           onClose={handleCloseMenu}
           onOpenSettings={handleOpenSettingsFromMenu}
         />
@@ -0,0 +1,39 @@
+import type { DeviceProfile } from '../../types/electron-api';
+
+interface DeviceCutoutProps {
+  cutout: DeviceProfile['cutout'];
+  edge: 'top' | 'bottom' | 'left' | 'right'; // Screen edge the top of the device is facing
+}
+
+// Camera cutout shapes for each screen edge (Dynamic Island, notch or punch-hole)
+const CUTOUT_CLASSES: Record<
+  Exclude<DeviceProfile['cutout'], 'none'>,
+  Record<DeviceCutoutProps['edge'], string>
+> = {
+  'dynamic-island': {
+    top: 'top-[11.5px] left-1/2 -translate-x-1/2 w-[120px] h-[35px] rounded-[20px]',
+    bottom: 'bottom-[11.5px] left-1/2 -translate-x-1/2 w-[120px] h-[35px] rounded-[20px]',
+    left: 'top-1/2 left-[11.5px] -translate-y-1/2 w-[35px] h-[120px] rounded-[20px]',
+    right: 'top-1/2 right-[11.5px] -translate-y-1/2 w-[35px] h-[120px] rounded-[20px]',
+  },
+  notch: {
+    top: 'top-0 left-1/2 -translate-x-1/2 w-[160px] h-[30px] rounded-b-[20px]',
+    bottom: 'bottom-0 left-1/2 -translate-x-1/2 w-[160px] h-[30px] rounded-t-[20px]',
+    left: 'top-1/2 left-0 -translate-y-1/2 w-[30px] h-[160px] rounded-r-[20px]',
+    right: 'top-1/2 right-0 -translate-y-1/2 w-[30px] h-[160px] rounded-l-[20px]',
+  },
+  'punch-hole': {
+    top: 'top-[10px] left-1/2 -translate-x-1/2 w-[12px] h-[12px] rounded-full',
+    bottom: 'bottom-[10px] left-1/2 -translate-x-1/2 w-[12px] h-[12px] rounded-full',
+    left: 'top-1/2 left-[10px] -translate-y-1/2 w-[12px] h-[12px] rounded-full',
+    right: 'top-1/2 right-[10px] -translate-y-1/2 w-[12px] h-[12px] rounded-full',
+  },
+};
+
+function DeviceCutout({ cutout, edge }: DeviceCutoutProps) {
+  if (cutout === 'none') return null;
+
+  return <div className={`absolute bg-black z-20 ${CUTOUT_CLASSES[cutout][edge]}`} />;
+}
+
+export default DeviceCutout;
@@ -1,28 +1,127 @@
 import { useState, useEffect } from "react";
-import { Star, Settings } from "lucide-react";
+import { Star, Settings, Pointer, Moon, Zap, Contrast, Palette, Droplet, Keyboard, ZoomIn, RotateCw, Monitor, Smartphone } from "lucide-react";
+import type {
+  DeviceOrientation,
+  EmulatedMediaFeatures,
+  FrameZoomState,
+  UserAgentPreset,
+} from "../../types/electron-api";
+import { supportsUpsideDown } from "../utils/device-layout";
 
 interface MenuOverlayProps {
   theme: "light" | "dark";
   currentUrl: string;
   currentTitle: string;
+  isVirtualKeyboardEnabled: boolean;
+  onToggleVirtualKeyboard: () => void;
   onClose: () => void;
   onOpenSettings: () => void;
 }
 
+// Values each media feature cycles through; undefined follows the system
+const mediaFeatureOptions: {
+  key: keyof EmulatedMediaFeatures;
+  label: string;
+  icon: React.ReactNode;
+  values: (string | undefined)[];
+}[] = [
+  {
+    key: "prefersColorScheme",
+    label: "Color Scheme",
+    icon: <Moon size={18} strokeWidth={2} />,
+    values: [undefined, "dark", "light"],
+  },
+  {
+    key: "prefersReducedMotion",
+    label: "Reduced Motion",
+    icon: <Zap size={18} strokeWidth={2} />,
+    values: [undefined, "reduce", "no-preference"],
+  },
+  {
+    key: "prefersContrast",
+    label: "Contrast",
+    icon: <Contrast size={18} strokeWidth={2} />,
+    values: [undefined, "more", "less", "no-preference"],
+  },
+  {
+    key: "forcedColors",
+    label: "Forced Colors",
+    icon: <Palette size={18} strokeWidth={2} />,
+    values: [undefined, "active", "none"],
+  },
+  {
+    key: "prefersReducedTransparency",
+    label: "Reduced Transparency",
+    icon: <Droplet size={18} strokeWidth={2} />,
+    values: [undefined, "reduce", "no-preference"],
+  },
+];
+
+// Frame zoom levels, same as the tray menu
+const frameZoomOptions: Array<{ zoom: number | "fit"; label: string }> = [
+  { zoom: 0.5, label: "50%" },
+  { zoom: 0.75, label: "75%" },
+  { zoom: 1, label: "100%" },
+  { zoom: 1.25, label: "125%" },
+  { zoom: "fit", label: "Fit" },
+];
+
+const orientationOptions: Array<{ orientation: DeviceOrientation; label: string }> = [
+  { orientation: "portrait", label: "Up" },
+  { orientation: "landscape-left", label: "Left" },
+  { orientation: "portrait-upside-down", label: "Down" },
+  { orientation: "landscape-right", label: "Right" },
+];
+
 function MenuOverlay({
   theme,
   currentUrl,
   currentTitle,
+  isVirtualKeyboardEnabled,
+  onToggleVirtualKeyboard,
   onClose,
   onOpenSettings,
 }: MenuOverlayProps) {
   const [isBookmarked, setIsBookmarked] = useState(false);
+  const [isTouchEnabled, setIsTouchEnabled] = useState(false);
+  const [mediaFeatures, setMediaFeatures] = useState<EmulatedMediaFeatures>({});
+  const [frameZoom, setFrameZoom] = useState<FrameZoomState | null>(null);
+  const [orientation, setOrientation] = useState<DeviceOrientation | null>(null);
+  const [canRotateUpsideDown, setCanRotateUpsideDown] = useState(false);
+  const [sitePreset, setSitePreset] = useState<UserAgentPreset | null>(null);
   const isDark = theme === "dark";
 
   useEffect(() => {
     checkBookmarkStatus();
+    window.electronAPI?.userAgentRules
+      ?.getSitePreset()
+      .then((preset) => setSitePreset(preset))
+      .catch((error) => console.error("Failed to get site user agent:", error));
   }, [currentUrl]);
 
+  useEffect(() => {
+    window.electronAPI?.emulation
+      ?.getTouch()
+      .then((enabled) => setIsTouchEnabled(enabled))
+      .catch((error) => console.error("Failed to get touch emulation:", error));
+    window.electronAPI?.emulation
+      ?.getMedia()
+      .then((features) => setMediaFeatures(features))
+      .catch((error) => console.error("Failed to get emulated media:", error));
+    window.electronAPI?.frameZoom
+      ?.get()
+      .then((state) => setFrameZoom(state))
+      .catch((error) => console.error("Failed to get frame zoom:", error));
+    window.electronAPI
+      ?.getOrientation()
+      .then((value) => setOrientation(value))
+      .catch((error) => console.error("Failed to get orientation:", error));
+    window.electronAPI?.devices
+      ?.getActive()
+      .then((profile) => setCanRotateUpsideDown(supportsUpsideDown(profile)))
+      .catch((error) => console.error("Failed to get device profile:", error));
+  }, []);
+
   const checkBookmarkStatus = async () => {
     if (!currentUrl || currentUrl.startsWith("file://")) {
       setIsBookmarked(false);
@@ -70,6 +169,58 @@ function MenuOverlay({
     }
   };
 
+  const handleToggleTouch = async () => {
+    try {
+      await window.electronAPI?.emulation?.setTouch(!isTouchEnabled);
+      setIsTouchEnabled(!isTouchEnabled);
+    } catch (error) {
+      console.error("Failed to toggle touch emulation:", error);
+    }
+  };
+
+  // Like Safari, the choice is remembered for the site and the page reloads with it
+  const handleRequestDesktop = async () => {
+    try {
+      await window.electronAPI?.userAgentRules?.requestDesktop(sitePreset !== "desktop");
+      onClose();
+    } catch (error) {
+      console.error("Failed to request desktop website:", error);
+    }
+  };
+
+  const handleSetFrameZoom = async (zoom: number | "fit") => {
+    try {
+      const state = await window.electronAPI?.frameZoom?.set(zoom);
+      if (state) setFrameZoom(state);
+    } catch (error) {
+      console.error("Failed to set frame zoom:", error);
+    }
+  };
+
+  const handleSetOrientation = async (value: DeviceOrientation) => {
+    try {
+      const result = await window.electronAPI?.setOrientation(value);
+      if (result) setOrientation(result);
+    } catch (error) {
+      console.error("Failed to set orientation:", error);
+    }
+  };
+
+  const handleCycleMediaFeature = async (option: (typeof mediaFeatureOptions)[number]) => {
+    const index = option.values.indexOf(mediaFeatures[option.key]);
+    const features = {
+      ...mediaFeatures,
+      [option.key]: option.values[(index + 1) % option.values.length],
+    } as EmulatedMediaFeatures;
+
+    try {
+      await window.electronAPI?.emulation?.setMedia(features);
+      setMediaFeatures(features);
+    } catch (error) {
+      console.error("Failed to set emulated media:", error);
+    }
+  };
+
   const handleSettingsClick = () => {
     onClose();
     onOpenSettings();
@@ -83,7 +234,7 @@ function MenuOverlay({
       onClick={onClose}
     >
       <div
-        className={`min-w-[200px] rounded-xl shadow-2xl overflow-hidden backdrop-blur-[40px] backdrop-saturate-[180%] ${
+        className={`min-w-[200px] max-h-[calc(100vh-5rem)] overflow-y-auto rounded-xl shadow-2xl backdrop-blur-[40px] backdrop-saturate-[180%] ${
           isDark
             ? "bg-[rgba(40,40,40,0.95)] text-white"
             : "bg-[rgba(255,255,255,0.95)] text-black"
@@ -110,6 +261,138 @@ function MenuOverlay({
               </span>
             </button>
           )}
+          {!isBlankPage && sitePreset && (
+            <button
+              onClick={handleRequestDesktop}
+              className={`w-full px-4 py-3 flex items-center gap-3 transition-colors ${
+                isDark
+                  ? "hover:bg-[rgba(255,255,255,0.1)]"
+                  : "hover:bg-[rgba(0,0,0,0.05)]"
+              }`}
+            >
+              {sitePreset === "desktop" ? (
+                <Smartphone size={18} strokeWidth={2} />
+              ) : (
+                <Monitor size={18} strokeWidth={2} />
+              )}
+              <span className="text-sm font-medium">
+                {sitePreset === "desktop" ? "Request Mobile Website" : "Request Desktop Website"}
+              </span>
+            </button>
+          )}
+          {!isBlankPage && (
+            <>
+              <div
+                className={`px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wider ${
+                  isDark ? "text-white/40" : "text-black/40"
+                }`}
+              >
+                Page Appearance
+              </div>
+              {mediaFeatureOptions.map((option) => (
+                <button
+                  key={option.key}
+                  onClick={() => handleCycleMediaFeature(option)}
+                  className={`w-full px-4 py-3 flex items-center gap-3 transition-colors ${
+                    isDark
+                      ? "hover:bg-[rgba(255,255,255,0.1)]"
+                      : "hover:bg-[rgba(0,0,0,0.05)]"
+                  }`}
+                >
+                  {option.icon}
+                  <span className="text-sm font-medium flex-1 text-left">{option.label}</span>
+                  <span
+                    className={`text-xs ${
+                      mediaFeatures[option.key]
+                        ? isDark
+                          ? "text-blue-400"
+                          : "text-blue-600"
+                        : isDark
+                        ? "text-white/50"
+                        : "text-black/50"
+                    }`}
+                  >
+                    {mediaFeatures[option.key] ?? "System"}
+                  </span>
+                </button>
+              ))}
+              <div className={`h-px mx-4 my-1 ${isDark ? "bg-white/10" : "bg-black/10"}`} />
+            </>
+          )}
+          <button
+            onClick={handleToggleTouch}
+            className={`w-full px-4 py-3 flex items-center gap-3 transition-colors ${
+              isDark
+                ? "hover:bg-[rgba(255,255,255,0.1)]"
+                : "hover:bg-[rgba(0,0,0,0.05)]"
+            }`}
+          >
+            <Pointer size={18} strokeWidth={2} />
+            <span className="text-sm font-medium flex-1 text-left">Touch Emulation</span>
+            <span className={`text-xs ${isDark ? "text-white/50" : "text-black/50"}`}>
+              {isTouchEnabled ? "On" : "Off"}
+            </span>
+          </button>
+          <button
+            onClick={onToggleVirtualKeyboard}
+            className={`w-full px-4 py-3 flex items-center gap-3 transition-colors ${
+              isDark
+                ? "hover:bg-[rgba(255,255,255,0.1)]"
+                : "hover:bg-[rgba(0,0,0,0.05)]"
+            }`}
+          >
+            <Keyboard size={18} strokeWidth={2} />
+            <span className="text-sm font-medium flex-1 text-left">Virtual Keyboard</span>
+            <span className={`text-xs ${isDark ? "text-white/50" : "text-black/50"}`}>
+              {isVirtualKeyboardEnabled ? "On" : "Off"}
+            </span>
+          </button>
+          <div className="w-full px-4 py-3 flex items-center gap-3">
+            <ZoomIn size={18} strokeWidth={2} />
+            <span className="text-sm font-medium flex-1 text-left">Frame Zoom</span>
+            <span className={`text-xs ${isDark ? "text-white/50" : "text-black/50"}`}>
+              {frameZoom ? `${Math.round(frameZoom.scale * 100)}%` : ""}
+            </span>
+          </div>
+          <div className="px-4 pb-3 flex gap-1">
+            {frameZoomOptions.map((option) => (
+              <button
+                key={option.label}
+                onClick={() => handleSetFrameZoom(option.zoom)}
+                className={`flex-1 py-1 rounded-md text-xs font-medium transition-colors ${
+                  frameZoom?.zoom === option.zoom
+                    ? "bg-blue-600 text-white"
+                    : isDark
+                    ? "bg-white/10 hover:bg-white/20"
+                    : "bg-black/5 hover:bg-black/10"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="w-full px-4 py-3 flex items-center gap-3">
+            <RotateCw size={18} strokeWidth={2} />
+            <span className="text-sm font-medium flex-1 text-left">Orientation</span>
+          </div>
+          <div className="px-4 pb-3 flex gap-1">
+            {orientationOptions.map((option) => (
+              <button
+                key={option.orientation}
+                onClick={() => handleSetOrientation(option.orientation)}
+                disabled={option.orientation === "portrait-upside-down" && !canRotateUpsideDown}
+                className={`flex-1 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-30 ${
+                  orientation === option.orientation
+                    ? "bg-blue-600 text-white"
+                    : isDark
+                    ? "bg-white/10 hover:bg-white/20"
+                    : "bg-black/5 hover:bg-black/10"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
           <button
             onClick={handleSettingsClick}
             className={`w-full px-4 py-3 flex items-center gap-3 transition-colors ${
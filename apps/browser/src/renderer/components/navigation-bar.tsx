@@ -0,0 +1,73 @@
+import type { DeviceOrientation, DeviceProfile } from '../../types/electron-api';
+
+interface NavigationBarProps {
+  themeColor: string;
+  textColor: string;
+  orientation: DeviceOrientation;
+  type: Exclude<DeviceProfile['navigationBar'], 'none'>;
+  size: number; // Thickness of the bar
+  offset?: number; // Distance from the bottom edge (upside down, below it sits the cutout strip)
+}
+
+function NavigationBar({
+  themeColor,
+  textColor,
+  orientation,
+  type,
+  size,
+  offset = 0,
+}: NavigationBarProps) {
+  // Three-button navigation docks to the edge opposite the status bar in landscape,
+  // the gesture handle stays at the bottom
+  const isLandscape = orientation === 'landscape-left' || orientation === 'landscape-right';
+  const isSide = isLandscape && type === 'three-button';
+  const isLeft = orientation === 'landscape-right';
+
+  return (
+    <div
+      className={`absolute flex items-center justify-center transition-colors duration-300 ${
+        isSide
+          ? isLeft
+            ? 'top-0 left-0 bottom-0 flex-col gap-12 rounded-l-[var(--screen-radius)]'
+            : 'top-0 right-0 bottom-0 flex-col-reverse gap-12 rounded-r-[var(--screen-radius)]'
+          : `left-0 right-0 gap-16 ${offset > 0 ? '' : 'rounded-b-[var(--screen-radius)]'}`
+      }`}
+      style={{
+        backgroundColor: themeColor,
+        zIndex: 50,
+        pointerEvents: 'none',
+        ...(isSide ? { width: size } : { height: size, bottom: offset }),
+      }}
+    >
+      {type === 'gesture' ? (
+        // Gesture handle
+        <div
+          className="w-[108px] h-[4px] rounded-full opacity-80"
+          style={{ backgroundColor: textColor }}
+        />
+      ) : (
+        <>
+          {/* Back */}
+          <div
+            className={`w-0 h-0 border-y-[8px] border-y-transparent border-r-[13px] opacity-80 ${
+              isSide ? (isLeft ? 'rotate-90' : '-rotate-90') : ''
+            }`}
+            style={{ borderRightColor: textColor }}
+          />
+          {/* Home */}
+          <div
+            className="w-[16px] h-[16px] rounded-full border-2 opacity-80"
+            style={{ borderColor: textColor }}
+          />
+          {/* Recents */}
+          <div
+            className="w-[14px] h-[14px] rounded-[3px] border-2 opacity-80"
+            style={{ borderColor: textColor }}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default NavigationBar;
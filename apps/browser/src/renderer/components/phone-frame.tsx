@@ -1,56 +1,75 @@
 import { RefObject, useEffect } from "react";
 import StatusBar from "./status-bar";
+import NavigationBar from "./navigation-bar";
+import VirtualKeyboard from "./virtual-keyboard";
+import DeviceCutout from "./device-cutout";
+import type {
+  DeviceOrientation,
+  DeviceProfile,
+  NetworkConditions,
+  VirtualKeyboardFocus,
+} from "../../types/electron-api";
+import type { StatusBarConfig } from "../utils/status-bar-config";
+import {
+  getCutoutStripSize,
+  getNavigationBarSize,
+  getSystemBarInsets,
+  getWebContentBounds,
+  isLandscapeOrientation,
+} from "../utils/device-layout";
 
 interface PhoneFrameProps {
   webContainerRef: RefObject<HTMLDivElement | null>;
-  orientation: "portrait" | "landscape";
+  orientation: DeviceOrientation;
+  deviceProfile: DeviceProfile | null;
+  networkConditions: NetworkConditions | null;
+  statusBarConfig: StatusBarConfig;
   themeColor: string;
   textColor: string;
   showTabOverview?: boolean;
   isFullscreen?: boolean;
+  keyboardFocus?: VirtualKeyboardFocus | null; // Focused editable element while the keyboard is shown
+  keyboardHeight?: number;
+  theme?: "light" | "dark";
   tabOverviewContent?: React.ReactNode;
 }
 
 function PhoneFrame({
   webContainerRef,
   orientation,
+  deviceProfile,
+  networkConditions,
+  statusBarConfig,
   themeColor,
   textColor,
   showTabOverview,
   isFullscreen,
+  keyboardFocus,
+  keyboardHeight = 0,
+  theme = "dark",
   tabOverviewContent,
 }: PhoneFrameProps) {
-  const isLandscape = orientation === "landscape";
+  const isLandscape = isLandscapeOrientation(orientation);
+  // Upside down, the cutout faces the bottom edge and is covered by its own strip
+  const cutoutStripSize =
+    orientation === "portrait-upside-down" ? getCutoutStripSize(deviceProfile) : 0;
+  // Fall back to iPhone 15 Pro geometry until the profile arrives from main
+  const statusBarSize = deviceProfile?.safeAreaInsets.top ?? 58;
+  const screenRadius = deviceProfile?.cornerRadius ?? 32;
+  const platform = deviceProfile?.platform ?? "ios";
+  const navigationBar = deviceProfile?.navigationBar ?? "none";
+  const { top, right, bottom, left } = getSystemBarInsets(deviceProfile, orientation);
   // Update WebContentsView bounds when component mounts or window resizes
   useEffect(() => {
     const updateBounds = () => {
-      if (!webContainerRef.current) return;
+      // Fullscreen tabs are laid out by the main process
+      if (!webContainerRef.current || isFullscreen) return;
 
+      // Leave room for the status bar, navigation bar and virtual keyboard
       const rect = webContainerRef.current.getBoundingClientRect();
-      const isLandscape = orientation === 'landscape';
-      
-      // Status bar dimensions
-      const statusBarHeight = 58;
-      const statusBarWidth = 58;
-      
-      // In fullscreen mode, apply -30px offset
-      if (isFullscreen) {
-        // Fullscreen mode: apply offset to move content closer to edges
-        window.electronAPI?.webContents.setBounds({
-          x: Math.round(rect.x + (isLandscape ? statusBarWidth - 30 : 0)),
-          y: Math.round(rect.y + (isLandscape ? 0 : statusBarHeight - 30)),
-          width: Math.round(rect.width - (isLandscape ? statusBarWidth : 0)),
-          height: Math.round(rect.height - (isLandscape ? 0 : statusBarHeight)),
-        });
-      } else {
-        // Normal mode: standard positioning
-        window.electronAPI?.webContents.setBounds({
-          x: Math.round(rect.x + (isLandscape ? statusBarWidth : 0)),
-          y: Math.round(rect.y + (isLandscape ? 0 : statusBarHeight)),
-          width: Math.round(rect.width - (isLandscape ? statusBarWidth : 0)),
-          height: Math.round(rect.height - (isLandscape ? 0 : statusBarHeight)),
-        });
-      }
+      window.electronAPI?.webContents.setBounds(
+        getWebContentBounds(rect, { top, right, bottom: bottom + keyboardHeight, left })
+      );
     };
 
     // Initial bounds update with multiple attempts to ensure it's set
@@ -64,7 +83,17 @@ function PhoneFrame({
     return () => {
       window.removeEventListener("resize", updateBounds);
     };
-  }, [webContainerRef, orientation, isFullscreen]);
+  }, [
+    webContainerRef,
+    orientation,
+    isLandscape,
+    isFullscreen,
+    top,
+    right,
+    bottom,
+    left,
+    keyboardHeight,
+  ]);
 
   return (
     <div
@@ -73,16 +102,22 @@ function PhoneFrame({
           ? "top-[72px] left-3 w-[calc(100%-24px)] h-[calc(100%-80px)]"
           : "top-[72px] left-2 w-[calc(100%-16px)] h-[calc(100%-80px)]"
       }`}
-      style={{ zIndex: 9999 }}
+      style={
+        {
+          zIndex: 9999,
+          // Every bezel radius is derived from the device's screen corner radius
+          "--screen-radius": `${screenRadius}px`,
+        } as React.CSSProperties
+      }
     >
       {/* Device frame - visual only, clicks pass through */}
-      <div className="absolute top-0 left-0 w-full h-full rounded-[47px] bg-[#11111d] box-border pointer-events-none p-px transition-transform duration-300 overflow-hidden">
-        <div className="relative w-full h-full rounded-[46px] bg-[#54545b] box-border pointer-events-none p-px overflow-hidden before:content-[''] before:absolute before:top-px before:left-px before:right-px before:bottom-px before:rounded-[45px] before:bg-[#525252] before:pointer-events-none before:z-0 after:content-[''] after:absolute after:top-0.5 after:left-0.5 after:right-0.5 after:bottom-0.5 after:rounded-[44px] after:bg-[#2b2c2c] after:pointer-events-none after:z-0">
-          <div className="absolute top-[15px] left-[15px] right-[15px] bottom-[15px] rounded-[32px] overflow-hidden z-10 bg-black pointer-events-none">
+      <div className="absolute top-0 left-0 w-full h-full rounded-[calc(var(--screen-radius)_+_15px)] bg-[#11111d] box-border pointer-events-none p-px transition-transform duration-300 overflow-hidden">
+        <div className="relative w-full h-full rounded-[calc(var(--screen-radius)_+_14px)] bg-[#54545b] box-border pointer-events-none p-px overflow-hidden before:content-[''] before:absolute before:top-px before:left-px before:right-px before:bottom-px before:rounded-[calc(var(--screen-radius)_+_13px)] before:bg-[#525252] before:pointer-events-none before:z-0 after:content-[''] after:absolute after:top-0.5 after:left-0.5 after:right-0.5 after:bottom-0.5 after:rounded-[calc(var(--screen-radius)_+_12px)] after:bg-[#2b2c2c] after:pointer-events-none after:z-0">
+          <div className="absolute top-[15px] left-[15px] right-[15px] bottom-[15px] rounded-[var(--screen-radius)] overflow-hidden z-10 bg-black pointer-events-none">
             {/* Web content area - positioned for WebContentsView */}
             <div 
               ref={webContainerRef}
-              className="absolute top-0 left-0 right-0 bottom-0 bg-black overflow-hidden rounded-[32px] pointer-events-none"
+              className="absolute top-0 left-0 right-0 bottom-0 bg-black overflow-hidden rounded-[var(--screen-radius)] pointer-events-none"
             />
             {/* Status bar - React component on top (hidden in fullscreen) */}
             {!isFullscreen && (
@@ -90,16 +125,61 @@ function PhoneFrame({
                 themeColor={themeColor}
                 textColor={textColor}
                 orientation={orientation}
+                size={statusBarSize}
+                cutout={deviceProfile?.cutout ?? "dynamic-island"}
+                platform={platform}
+                networkConditions={networkConditions}
+                config={statusBarConfig}
               />
             )}
+            {/* Android navigation bar (hidden in fullscreen) */}
+            {!isFullscreen && navigationBar !== "none" && (
+              <NavigationBar
+                themeColor={themeColor}
+                textColor={textColor}
+                orientation={orientation}
+                type={navigationBar}
+                size={getNavigationBarSize(deviceProfile)}
+                offset={cutoutStripSize}
+              />
+            )}
+            {/* Cutout strip at the bottom edge while upside down (hidden in fullscreen) */}
+            {!isFullscreen && cutoutStripSize > 0 && (
+              <div
+                className="absolute left-0 right-0 bottom-0 rounded-b-[var(--screen-radius)] transition-colors duration-300"
+                style={{
+                  height: cutoutStripSize,
+                  backgroundColor: themeColor,
+                  zIndex: 50,
+                  pointerEvents: "none",
+                }}
+              >
+                <DeviceCutout cutout={deviceProfile?.cutout ?? "none"} edge="bottom" />
+              </div>
+            )}
+            {/* Virtual keyboard above the navigation bar, between the landscape system bars */}
+            {keyboardFocus && keyboardHeight > 0 && (
+              <div
+                className="absolute pointer-events-none"
+                style={{ left, right, bottom, height: keyboardHeight }}
+              >
+                <VirtualKeyboard
+                  focus={keyboardFocus}
+                  theme={theme}
+                  height={keyboardHeight}
+                  onKey={(key) => window.electronAPI?.virtualKeyboard.sendKey(key)}
+                  onDismiss={() => window.electronAPI?.virtualKeyboard.dismiss()}
+                />
+              </div>
+            )}
             {/* Tab overview overlay - React component */}
             {showTabOverview && (
-              <div className="absolute top-0 left-0 right-0 bottom-0 rounded-[32px] overflow-hidden z-50 pointer-events-auto">
+              <div className="absolute top-0 left-0 right-0 bottom-0 rounded-[var(--screen-radius)] overflow-hidden z-50 pointer-events-auto">
                 {tabOverviewContent}
               </div>
             )}
           </div>
-          <div className="absolute top-[7px] left-[7px] right-[7px] bottom-[7px] rounded-[40px] bg-transparent pointer-events-none box-border border-[8px] border-[#000100] z-[5]" />
+          <div className="absolute top-[7px] left-[7px] right-[7px] bottom-[7px] rounded-[calc(var(--screen-radius)_+_8px)] bg-transparent pointer-events-none box-border border-[8px] border-[#000100] z-[5]" />
         </div>
       </div>
     </div>
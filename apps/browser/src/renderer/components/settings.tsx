@@ -1,10 +1,26 @@
 import { useState, useEffect } from "react";
-import { Info, ChevronRight, ChevronLeft, Star, Trash2, Plus, Edit2, X } from "lucide-react";
+import { Info, ChevronRight, ChevronLeft, Star, Trash2, Plus, Edit2, X, Smartphone, Columns3, Gauge, MapPin, Compass, Languages, BatteryFull, Globe, History, MemoryStick } from "lucide-react";
 import appIcon from "../../../assets/icon.png";
+import { isDemoStatusBar } from "../utils/status-bar-config";
+import type { StatusBarConfig } from "../utils/status-bar-config";
+import DevicesSettings from "./settings/devices-settings";
+import MirrorSettings from "./settings/mirror-settings";
+import NetworkSettings from "./settings/network-settings";
+import LocationSettings from "./settings/location-settings";
+import SensorsSettings from "./settings/sensors-settings";
+import LocaleSettings from "./settings/locale-settings";
+import StatusBarSettings from "./settings/status-bar-settings";
+import UserAgentSettings from "./settings/user-agent-settings";
+import StartupSettings from "./settings/startup-settings";
+import MemorySaverSettings from "./settings/memory-saver-settings";
+import { emptySettingsSummary, loadSettingsSummary } from "./settings/settings-summary";
+import type { SettingsSummary } from "./settings/settings-summary";
 
 interface SettingsProps {
   theme: "light" | "dark";
   orientation: "portrait" | "landscape";
+  statusBarConfig: StatusBarConfig;
+  onStatusBarConfigChange: (config: StatusBarConfig) => void;
   onClose: () => void;
 }
 
@@ -68,8 +84,28 @@ const defaultBookmarks: Bookmark[] = [
   },
 ];
 
-function Settings({ theme, orientation, onClose }: SettingsProps) {
-  const [currentView, setCurrentView] = useState<"main" | "about" | "bookmarks">("main");
+function Settings({
+  theme,
+  orientation,
+  statusBarConfig,
+  onStatusBarConfigChange,
+  onClose,
+}: SettingsProps) {
+  const [currentView, setCurrentView] = useState<
+    | "main"
+    | "about"
+    | "bookmarks"
+    | "devices"
+    | "mirror"
+    | "network"
+    | "location"
+    | "sensors"
+    | "locale"
+    | "statusBar"
+    | "userAgent"
+    | "startup"
+    | "memorySaver"
+  >("main");
   const [appVersion, setAppVersion] = useState<string>("0.0.0");
   const [appIconPath, setAppIconPath] = useState<string>("");
   const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
@@ -78,6 +114,7 @@ function Settings({ theme, orientation, onClose }: SettingsProps) {
   const [editingBookmark, setEditingBookmark] = useState<Bookmark | null>(null);
   const [bookmarkTitle, setBookmarkTitle] = useState("");
   const [bookmarkUrl, setBookmarkUrl] = useState("");
+  const [summary, setSummary] = useState<SettingsSummary>(emptySettingsSummary);
 
   useEffect(() => {
     // Get app version
@@ -111,6 +148,15 @@ function Settings({ theme, orientation, onClose }: SettingsProps) {
     };
   }, []);
 
+  // Refresh the values of the main list after returning from a detail view
+  useEffect(() => {
+    if (currentView !== "main") return;
+
+    loadSettingsSummary()
+      .then(setSummary)
+      .catch((error) => console.error("Failed to load settings summary:", error));
+  }, [currentView]);
+
   const loadBookmarks = async () => {
     try {
       const allBookmarks = await window.electronAPI?.bookmarks?.getAll();
@@ -240,6 +286,7 @@ function Settings({ theme, orientation, onClose }: SettingsProps) {
   };
 
   const isDark = theme === "dark";
+  const handleBack = () => setCurrentView("main");
 
   const settingsSections: SettingsSection[] = [
     {
@@ -254,6 +301,90 @@ function Settings({ theme, orientation, onClose }: SettingsProps) {
           hasDetail: true,
           onClick: () => setCurrentView("bookmarks"),
         },
+        {
+          id: "devices",
+          label: "Devices",
+          value: summary.deviceName,
+          icon: <Smartphone size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("devices"),
+        },
+        {
+          id: "mirror",
+          label: "Mirror Mode",
+          value: summary.isMirrorEnabled ? "On" : "Off",
+          icon: <Columns3 size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("mirror"),
+        },
+        {
+          id: "network",
+          label: "Network",
+          value: summary.networkName,
+          icon: <Gauge size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("network"),
+        },
+        {
+          id: "location",
+          label: "Location",
+          value: summary.isLocationEmulated ? "Emulated" : "Off",
+          icon: <MapPin size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("location"),
+        },
+        {
+          id: "sensors",
+          label: "Sensors",
+          value: summary.isSensorEmulated ? "Emulated" : "Off",
+          icon: <Compass size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("sensors"),
+        },
+        {
+          id: "locale",
+          label: "Language & Region",
+          value: summary.locale || "System",
+          icon: <Languages size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("locale"),
+        },
+        {
+          id: "userAgent",
+          label: "User Agent",
+          value: `${summary.enabledUserAgentRules} rules`,
+          icon: <Globe size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("userAgent"),
+        },
+        {
+          id: "statusBar",
+          label: "Status Bar",
+          value: isDemoStatusBar(statusBarConfig)
+            ? "Demo Mode"
+            : statusBarConfig.time
+            ? statusBarConfig.time
+            : "Live",
+          icon: <BatteryFull size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("statusBar"),
+        },
+        {
+          id: "startup",
+          label: "On Startup",
+          value: summary.restoreSession ? "Last Session" : "Blank Page",
+          icon: <History size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("startup"),
+        },
+        {
+          id: "memorySaver",
+          label: "Memory Saver",
+          value: summary.isMemorySaverEnabled ? "On" : "Off",
+          icon: <MemoryStick size={20} />,
+          hasDetail: true,
+          onClick: () => setCurrentView("memorySaver"),
+        },
         {
           id: "about",
           label: "About",
@@ -676,6 +807,7 @@ function Settings({ theme, orientation, onClose }: SettingsProps) {
     </>
   );
 
+
   return (
     <div
       className={`absolute inset-0 z-50 flex flex-col ${
@@ -692,6 +824,33 @@ function Settings({ theme, orientation, onClose }: SettingsProps) {
         ? renderMainView() 
         : currentView === "about" 
         ? renderAboutView()
+        : currentView === "devices"
+        ? <DevicesSettings theme={theme} onBack={handleBack} />
+        : currentView === "mirror"
+        ? <MirrorSettings theme={theme} onBack={handleBack} />
+        : currentView === "network"
+        ? <NetworkSettings theme={theme} onBack={handleBack} />
+        : currentView === "location"
+        ? <LocationSettings theme={theme} onBack={handleBack} />
+        : currentView === "sensors"
+        ? <SensorsSettings theme={theme} onBack={handleBack} />
+        : currentView === "locale"
+        ? <LocaleSettings theme={theme} onBack={handleBack} />
+        : currentView === "statusBar"
+        ? (
+          <StatusBarSettings
+            theme={theme}
+            statusBarConfig={statusBarConfig}
+            onStatusBarConfigChange={onStatusBarConfigChange}
+            onBack={handleBack}
+          />
+        )
+        : currentView === "userAgent"
+        ? <UserAgentSettings theme={theme} onBack={handleBack} />
+        : currentView === "startup"
+        ? <StartupSettings theme={theme} onBack={handleBack} />
+        : currentView === "memorySaver"
+        ? <MemorySaverSettings theme={theme} onBack={handleBack} />
         : renderBookmarksView()}
 
       {/* Bookmark Add/Edit Dialog */}
@@ -0,0 +1,531 @@
+import { useState, useEffect } from "react";
+import { Trash2, Plus, Edit2, X, Check, Copy } from "lucide-react";
+import type { DeviceProfile, CustomDeviceProfileInput } from "../../../types/electron-api";
+import { SettingsHeader, getFormClassNames } from "./settings-ui";
+
+interface DevicesSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+// Editable fields of a custom device profile (numbers kept as input strings)
+interface DeviceForm {
+  name: string;
+  platform: DeviceProfile["platform"];
+  width: string;
+  height: string;
+  devicePixelRatio: string;
+  userAgent: string;
+  cornerRadius: string;
+  cutout: DeviceProfile["cutout"];
+  navigationBar: DeviceProfile["navigationBar"];
+}
+
+const emptyDeviceForm: DeviceForm = {
+  name: "",
+  platform: "ios",
+  width: "390",
+  height: "844",
+  devicePixelRatio: "3",
+  userAgent: "",
+  cornerRadius: "32",
+  cutout: "none",
+  navigationBar: "none",
+};
+
+const platformOptions: { value: DeviceProfile["platform"]; label: string }[] = [
+  { value: "ios", label: "iOS" },
+  { value: "android", label: "Android" },
+];
+
+const cutoutOptions: { value: DeviceProfile["cutout"]; label: string }[] = [
+  { value: "dynamic-island", label: "Dynamic Island" },
+  { value: "notch", label: "Notch" },
+  { value: "punch-hole", label: "Punch-hole" },
+  { value: "none", label: "None" },
+];
+
+const navigationBarOptions: { value: DeviceProfile["navigationBar"]; label: string }[] = [
+  { value: "none", label: "None (iOS)" },
+  { value: "gesture", label: "Gesture" },
+  { value: "three-button", label: "3-Button" },
+];
+
+function DevicesSettings({ theme, onBack }: DevicesSettingsProps) {
+  const [deviceProfiles, setDeviceProfiles] = useState<DeviceProfile[]>([]);
+  const [activeDevice, setActiveDevice] = useState<DeviceProfile | null>(null);
+  const [showDeviceDialog, setShowDeviceDialog] = useState(false);
+  const [editingDevice, setEditingDevice] = useState<DeviceProfile | null>(null);
+  const [deviceForm, setDeviceForm] = useState<DeviceForm>(emptyDeviceForm);
+
+  useEffect(() => {
+    loadDeviceProfiles();
+    window.electronAPI?.devices.getActive().then((profile: DeviceProfile) => {
+      setActiveDevice(profile);
+    });
+
+    // Listen for device changes
+    const unsubscribeDevice = window.electronAPI?.devices.onActiveChanged(
+      (profile: DeviceProfile) => {
+        setActiveDevice(profile);
+      }
+    );
+    const unsubscribeDevices = window.electronAPI?.devices.onUpdate(() => {
+      loadDeviceProfiles();
+    });
+
+    return () => {
+      if (unsubscribeDevice) unsubscribeDevice();
+      if (unsubscribeDevices) unsubscribeDevices();
+    };
+  }, []);
+
+  const loadDeviceProfiles = async () => {
+    try {
+      const profiles = await window.electronAPI?.devices.getAll();
+      setDeviceProfiles(profiles ?? []);
+    } catch (error) {
+      console.error("Failed to load device profiles:", error);
+    }
+  };
+
+  const handleSelectDevice = async (profileId: string) => {
+    try {
+      const profile = await window.electronAPI?.devices.setActive(profileId);
+      if (profile) {
+        setActiveDevice(profile);
+      }
+    } catch (error) {
+      console.error("Failed to switch device:", error);
+    }
+  };
+
+  const handleAddDevice = () => {
+    setEditingDevice(null);
+    setDeviceForm({
+      ...emptyDeviceForm,
+      platform: activeDevice?.platform ?? emptyDeviceForm.platform,
+      userAgent: activeDevice?.userAgent ?? "",
+    });
+    setShowDeviceDialog(true);
+  };
+
+  const handleEditDevice = (profile: DeviceProfile) => {
+    // Built-in presets can only be duplicated
+    if (!profile.isCustom) {
+      return;
+    }
+
+    setEditingDevice(profile);
+    setDeviceForm({
+      name: profile.name,
+      platform: profile.platform,
+      width: String(profile.viewport.width),
+      height: String(profile.viewport.height),
+      devicePixelRatio: String(profile.devicePixelRatio),
+      userAgent: profile.userAgent,
+      cornerRadius: String(profile.cornerRadius),
+      cutout: profile.cutout,
+      navigationBar: profile.navigationBar,
+    });
+    setShowDeviceDialog(true);
+  };
+
+  const handleDuplicateDevice = async (id: string) => {
+    try {
+      await window.electronAPI?.devices.duplicate(id);
+      // Profiles will be reloaded via onUpdate listener
+    } catch (error) {
+      console.error("Failed to duplicate device:", error);
+    }
+  };
+
+  const handleDeleteDevice = async (id: string) => {
+    try {
+      await window.electronAPI?.devices.remove(id);
+      // Profiles will be reloaded via onUpdate listener
+    } catch (error) {
+      console.error("Failed to delete device:", error);
+    }
+  };
+
+  const isDeviceFormValid = () => {
+    const width = Number(deviceForm.width);
+    const height = Number(deviceForm.height);
+    const dpr = Number(deviceForm.devicePixelRatio);
+    const radius = Number(deviceForm.cornerRadius);
+
+    return (
+      deviceForm.name.trim() !== "" &&
+      deviceForm.userAgent.trim() !== "" &&
+      width > 0 &&
+      height > 0 &&
+      dpr > 0 &&
+      radius >= 0
+    );
+  };
+
+  const handleSaveDevice = async () => {
+    if (!isDeviceFormValid()) {
+      return;
+    }
+
+    const input: CustomDeviceProfileInput = {
+      name: deviceForm.name.trim(),
+      platform: deviceForm.platform,
+      viewport: {
+        width: Number(deviceForm.width),
+        height: Number(deviceForm.height),
+      },
+      devicePixelRatio: Number(deviceForm.devicePixelRatio),
+      userAgent: deviceForm.userAgent.trim(),
+      cornerRadius: Number(deviceForm.cornerRadius),
+      cutout: deviceForm.cutout,
+      navigationBar: deviceForm.navigationBar,
+    };
+
+    try {
+      if (editingDevice) {
+        await window.electronAPI?.devices.update(editingDevice.id, input);
+      } else {
+        await window.electronAPI?.devices.add(input);
+      }
+      setShowDeviceDialog(false);
+      setEditingDevice(null);
+      setDeviceForm(emptyDeviceForm);
+    } catch (error) {
+      console.error("Failed to save device:", error);
+    }
+  };
+
+  const handleCancelDeviceDialog = () => {
+    setShowDeviceDialog(false);
+    setEditingDevice(null);
+    setDeviceForm(emptyDeviceForm);
+  };
+
+  const isDark = theme === "dark";
+  const { inputClassName, labelClassName } = getFormClassNames(isDark);
+
+  const renderDeviceList = (title: string, profiles: DeviceProfile[]) => (
+    <div>
+      <div
+        className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+          isDark ? "text-zinc-500" : "text-zinc-600"
+        }`}
+      >
+        {title}
+      </div>
+      <div
+        className={`rounded-xl overflow-hidden ${
+          isDark ? "bg-zinc-800" : "bg-white"
+        }`}
+      >
+        {profiles.map((profile, index) => (
+          <div key={profile.id}>
+            {index > 0 && (
+              <div
+                className={`h-px mx-4 ${
+                  isDark ? "bg-zinc-700" : "bg-zinc-200"
+                }`}
+              />
+            )}
+            <div className="flex items-center pr-2">
+              <button
+                onClick={() => handleSelectDevice(profile.id)}
+                className={`flex-1 min-w-0 px-4 py-3 flex items-center gap-3 transition-colors ${
+                  isDark ? "hover:bg-zinc-700" : "hover:bg-zinc-50"
+                }`}
+              >
+                <div className="w-5 flex-shrink-0">
+                  {activeDevice?.id === profile.id && (
+                    <Check
+                      size={20}
+                      className={isDark ? "text-blue-400" : "text-blue-600"}
+                    />
+                  )}
+                </div>
+                <div className="flex flex-col items-start min-w-0">
+                  <span
+                    className={`font-medium truncate max-w-full ${
+                      isDark ? "text-white" : "text-zinc-900"
+                    }`}
+                  >
+                    {profile.name}
+                  </span>
+                  <span
+                    className={`text-xs ${
+                      isDark ? "text-zinc-500" : "text-zinc-600"
+                    }`}
+                  >
+                    {profile.viewport.width} × {profile.viewport.height} @{profile.devicePixelRatio}x
+                  </span>
+                </div>
+              </button>
+              <div className="flex items-center gap-1">
+                {profile.isCustom && (
+                  <button
+                    onClick={() => handleEditDevice(profile)}
+                    className={`p-2 rounded-lg transition-colors ${
+                      isDark
+                        ? "hover:bg-zinc-700 text-zinc-400 hover:text-blue-400"
+                        : "hover:bg-zinc-100 text-zinc-600 hover:text-blue-600"
+                    }`}
+                    title="Edit device"
+                  >
+                    <Edit2 size={18} />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDuplicateDevice(profile.id)}
+                  className={`p-2 rounded-lg transition-colors ${
+                    isDark
+                      ? "hover:bg-zinc-700 text-zinc-400 hover:text-blue-400"
+                      : "hover:bg-zinc-100 text-zinc-600 hover:text-blue-600"
+                  }`}
+                  title="Duplicate device"
+                >
+                  <Copy size={18} />
+                </button>
+                {profile.isCustom && (
+                  <button
+                    onClick={() => handleDeleteDevice(profile.id)}
+                    className={`p-2 rounded-lg transition-colors ${
+                      isDark
+                        ? "hover:bg-zinc-700 text-zinc-400 hover:text-red-400"
+                        : "hover:bg-zinc-100 text-zinc-600 hover:text-red-600"
+                    }`}
+                    title="Delete device"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const builtInProfiles = deviceProfiles.filter((profile) => !profile.isCustom);
+  const customProfiles = deviceProfiles.filter((profile) => profile.isCustom);
+
+  return (
+    <>
+      <SettingsHeader
+        isDark={isDark}
+        title="Devices"
+        onBack={onBack}
+        action={
+          <button
+            onClick={handleAddDevice}
+            className={`p-2 rounded-lg transition-colors ${
+              isDark
+                ? "hover:bg-zinc-800 text-white"
+                : "hover:bg-zinc-200 text-zinc-900"
+            }`}
+            title="Add custom device"
+          >
+            <Plus size={20} />
+          </button>
+        }
+      />
+
+      {/* Devices Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          {customProfiles.length > 0 && renderDeviceList("Custom", customProfiles)}
+          {renderDeviceList("Presets", builtInProfiles)}
+        </div>
+      </div>
+
+      {/* Device Add/Edit Dialog */}
+      {showDeviceDialog && (
+        <div className="absolute inset-0 z-60 flex items-center justify-center bg-black bg-opacity-50 p-6">
+          <div
+            className={`w-full max-w-md max-h-full flex flex-col rounded-2xl shadow-2xl ${
+              isDark ? "bg-zinc-800" : "bg-white"
+            }`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Dialog Header */}
+            <div className={`flex items-center justify-between px-6 py-4 border-b ${isDark ? 'border-zinc-700' : 'border-zinc-200'}`}>
+              <h3 className={`text-lg font-semibold ${isDark ? "text-white" : "text-zinc-900"}`}>
+                {editingDevice ? "Edit Device" : "Add Device"}
+              </h3>
+              <button
+                onClick={handleCancelDeviceDialog}
+                className={`p-1 rounded-lg transition-colors ${
+                  isDark
+                    ? "hover:bg-zinc-700 text-zinc-400"
+                    : "hover:bg-zinc-100 text-zinc-600"
+                }`}
+              >
+                <X size={20} />
+              </button>
+            </div>
+
+            {/* Dialog Content */}
+            <div className="p-6 space-y-4 overflow-y-auto">
+              <div>
+                <label className={labelClassName}>Name</label>
+                <input
+                  type="text"
+                  value={deviceForm.name}
+                  onChange={(e) => setDeviceForm({ ...deviceForm, name: e.target.value })}
+                  placeholder="Kiosk Tablet"
+                  className={inputClassName}
+                  autoFocus
+                />
+              </div>
+
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className={labelClassName}>Width</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={deviceForm.width}
+                    onChange={(e) => setDeviceForm({ ...deviceForm, width: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className={labelClassName}>Height</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={deviceForm.height}
+                    onChange={(e) => setDeviceForm({ ...deviceForm, height: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className={labelClassName}>Pixel Ratio</label>
+                  <input
+                    type="number"
+                    min={0.5}
+                    step={0.025}
+                    value={deviceForm.devicePixelRatio}
+                    onChange={(e) => setDeviceForm({ ...deviceForm, devicePixelRatio: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className={labelClassName}>Corner Radius</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={deviceForm.cornerRadius}
+                    onChange={(e) => setDeviceForm({ ...deviceForm, cornerRadius: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClassName}>Platform</label>
+                <select
+                  value={deviceForm.platform}
+                  onChange={(e) =>
+                    setDeviceForm({
+                      ...deviceForm,
+                      platform: e.target.value as DeviceProfile["platform"],
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  {platformOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className={labelClassName}>Cutout</label>
+                <select
+                  value={deviceForm.cutout}
+                  onChange={(e) =>
+                    setDeviceForm({ ...deviceForm, cutout: e.target.value as DeviceProfile["cutout"] })
+                  }
+                  className={inputClassName}
+                >
+                  {cutoutOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className={labelClassName}>Navigation Bar</label>
+                <select
+                  value={deviceForm.navigationBar}
+                  onChange={(e) =>
+                    setDeviceForm({
+                      ...deviceForm,
+                      navigationBar: e.target.value as DeviceProfile["navigationBar"],
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  {navigationBarOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className={labelClassName}>User Agent</label>
+                <textarea
+                  value={deviceForm.userAgent}
+                  onChange={(e) => setDeviceForm({ ...deviceForm, userAgent: e.target.value })}
+                  rows={3}
+                  className={`${inputClassName} text-xs font-mono resize-none`}
+                />
+              </div>
+            </div>
+
+            {/* Dialog Footer */}
+            <div className={`flex gap-3 px-6 py-4 border-t ${isDark ? 'border-zinc-700' : 'border-zinc-200'}`}>
+              <button
+                onClick={handleCancelDeviceDialog}
+                className={`flex-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+                  isDark
+                    ? "bg-zinc-700 hover:bg-zinc-600 text-white"
+                    : "bg-zinc-200 hover:bg-zinc-300 text-zinc-900"
+                }`}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveDevice}
+                disabled={!isDeviceFormValid()}
+                className={`flex-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+                  !isDeviceFormValid()
+                    ? isDark
+                      ? "bg-zinc-700 text-zinc-500 cursor-not-allowed"
+                      : "bg-zinc-200 text-zinc-400 cursor-not-allowed"
+                    : "bg-blue-600 hover:bg-blue-700 text-white"
+                }`}
+              >
+                {editingDevice ? "Save" : "Add"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default DevicesSettings;
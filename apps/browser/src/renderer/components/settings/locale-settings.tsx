@@ -0,0 +1,170 @@
+import { useState, useEffect } from "react";
+import type { LocaleOverride } from "../../../types/electron-api";
+import { SettingsHeader, getFormClassNames } from "./settings-ui";
+
+interface LocaleSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+// Region presets for the locale panel
+const localePresets: { label: string; override: LocaleOverride }[] = [
+  {
+    label: "Korea",
+    override: { timezone: "Asia/Seoul", locale: "ko-KR", acceptLanguage: "ko-KR,ko;q=0.9,en;q=0.8" },
+  },
+  {
+    label: "Japan",
+    override: { timezone: "Asia/Tokyo", locale: "ja-JP", acceptLanguage: "ja-JP,ja;q=0.9,en;q=0.8" },
+  },
+  {
+    label: "US",
+    override: { timezone: "America/New_York", locale: "en-US", acceptLanguage: "en-US,en;q=0.9" },
+  },
+];
+
+const timezoneOptions = [
+  "Asia/Seoul",
+  "Asia/Tokyo",
+  "Asia/Shanghai",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "UTC",
+];
+
+const localeOptions = ["ko-KR", "ja-JP", "zh-CN", "en-US", "en-GB", "de-DE", "fr-FR"];
+
+function LocaleSettings({ theme, onBack }: LocaleSettingsProps) {
+  const [localeOverride, setLocaleOverride] = useState<LocaleOverride>({});
+
+  useEffect(() => {
+    // Load locale overrides of the active tab
+    window.electronAPI?.emulation.getLocale().then((override: LocaleOverride) => {
+      setLocaleOverride(override);
+    });
+  }, []);
+
+  const handleSetLocale = async (override: LocaleOverride) => {
+    setLocaleOverride(override);
+    try {
+      await window.electronAPI?.emulation.setLocale(override);
+    } catch (error) {
+      console.error("Failed to set locale override:", error);
+    }
+  };
+
+  const isDark = theme === "dark";
+  const { inputClassName, labelClassName } = getFormClassNames(isDark);
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="Language & Region" onBack={onBack} />
+
+      {/* Locale Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Presets
+            </div>
+            <div className="flex gap-2 px-1">
+              {[...localePresets, { label: "System", override: {} as LocaleOverride }].map(
+                (preset) => (
+                  <button
+                    key={preset.label}
+                    onClick={() => handleSetLocale(preset.override)}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      isDark
+                        ? "bg-zinc-800 hover:bg-zinc-700 text-white"
+                        : "bg-white hover:bg-zinc-50 text-zinc-900"
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                )
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div
+              className={`rounded-xl overflow-hidden p-4 space-y-4 ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <div>
+                <label className={labelClassName}>Time Zone</label>
+                <select
+                  value={localeOverride.timezone ?? ""}
+                  onChange={(e) =>
+                    handleSetLocale({ ...localeOverride, timezone: e.target.value || undefined })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="">System</option>
+                  {timezoneOptions.map((timezone) => (
+                    <option key={timezone} value={timezone}>
+                      {timezone}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClassName}>Locale</label>
+                <select
+                  value={localeOverride.locale ?? ""}
+                  onChange={(e) =>
+                    handleSetLocale({ ...localeOverride, locale: e.target.value || undefined })
+                  }
+                  className={inputClassName}
+                >
+                  <option value="">System</option>
+                  {localeOptions.map((locale) => (
+                    <option key={locale} value={locale}>
+                      {locale}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClassName}>Accept-Language</label>
+                <input
+                  type="text"
+                  value={localeOverride.acceptLanguage ?? ""}
+                  onChange={(e) =>
+                    setLocaleOverride({ ...localeOverride, acceptLanguage: e.target.value })
+                  }
+                  onBlur={() =>
+                    handleSetLocale({
+                      ...localeOverride,
+                      acceptLanguage: localeOverride.acceptLanguage?.trim() || undefined,
+                    })
+                  }
+                  placeholder="System"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Applies to the current tab and tabs opened from it. Reload the page to apply the
+              Accept-Language header to its first request.
+            </p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default LocaleSettings;
@@ -0,0 +1,429 @@
+import { useState, useEffect } from "react";
+import { Trash2, Plus, Play, Square } from "lucide-react";
+import type { GeolocationState } from "../../../types/electron-api";
+import { SettingsHeader, SettingsSwitch, getFormClassNames } from "./settings-ui";
+
+interface LocationSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+// Emulated position fields (numbers kept as input strings)
+interface LocationForm {
+  name: string;
+  latitude: string;
+  longitude: string;
+  accuracy: string;
+}
+
+function LocationSettings({ theme, onBack }: LocationSettingsProps) {
+  const [geolocationState, setGeolocationState] = useState<GeolocationState>({
+    override: null,
+    savedLocations: [],
+    route: null,
+    isRoutePlaying: false,
+  });
+  const [locationForm, setLocationForm] = useState<LocationForm>({
+    name: "",
+    latitude: "37.5663",
+    longitude: "126.9779",
+    accuracy: "20",
+  });
+  const [routeLocationIds, setRouteLocationIds] = useState<string[]>([]);
+  const [routeSpeed, setRouteSpeed] = useState("40");
+  const [routeLoop, setRouteLoop] = useState(false);
+
+  useEffect(() => {
+    // Load geolocation state of the active tab
+    window.electronAPI?.geolocation.getState().then((state: GeolocationState) => {
+      setGeolocationState(state);
+      if (state.override) {
+        setLocationForm((form) => ({
+          ...form,
+          latitude: String(state.override!.latitude),
+          longitude: String(state.override!.longitude),
+          accuracy: String(state.override!.accuracy),
+        }));
+      }
+      if (state.route) {
+        setRouteLocationIds(state.route.locationIds);
+        setRouteSpeed(String(state.route.speedKmh));
+        setRouteLoop(state.route.loop);
+      }
+    });
+    const unsubscribeGeolocation = window.electronAPI?.geolocation.onStateChanged(
+      (state: GeolocationState) => {
+        setGeolocationState(state);
+      }
+    );
+
+    return () => {
+      if (unsubscribeGeolocation) unsubscribeGeolocation();
+    };
+  }, []);
+
+  const getLocationFormPosition = () => ({
+    latitude: parseFloat(locationForm.latitude),
+    longitude: parseFloat(locationForm.longitude),
+    accuracy: parseFloat(locationForm.accuracy),
+  });
+
+  const handleToggleGeolocation = async () => {
+    try {
+      await window.electronAPI?.geolocation.set(
+        geolocationState.override ? null : getLocationFormPosition()
+      );
+    } catch (error) {
+      console.error("Failed to toggle geolocation override:", error);
+    }
+  };
+
+  const handleApplyLocation = async () => {
+    try {
+      await window.electronAPI?.geolocation.set(getLocationFormPosition());
+    } catch (error) {
+      console.error("Failed to set geolocation override:", error);
+    }
+  };
+
+  const handleSelectSavedLocation = async (id: string) => {
+    const location = geolocationState.savedLocations.find((l) => l.id === id);
+    if (!location) return;
+
+    setLocationForm({
+      ...locationForm,
+      latitude: String(location.latitude),
+      longitude: String(location.longitude),
+      accuracy: String(location.accuracy),
+    });
+
+    try {
+      await window.electronAPI?.geolocation.set({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        accuracy: location.accuracy,
+      });
+    } catch (error) {
+      console.error("Failed to set geolocation override:", error);
+    }
+  };
+
+  const handleSaveLocation = async () => {
+    if (!locationForm.name.trim()) return;
+
+    try {
+      await window.electronAPI?.geolocation.addLocation(
+        locationForm.name,
+        getLocationFormPosition()
+      );
+      setLocationForm({ ...locationForm, name: "" });
+    } catch (error) {
+      console.error("Failed to save location:", error);
+    }
+  };
+
+  const handleRemoveLocation = async (id: string) => {
+    try {
+      await window.electronAPI?.geolocation.removeLocation(id);
+      setRouteLocationIds(routeLocationIds.filter((routeId) => routeId !== id));
+    } catch (error) {
+      console.error("Failed to remove location:", error);
+    }
+  };
+
+  const handleToggleRouteLocation = (id: string) => {
+    setRouteLocationIds(
+      routeLocationIds.includes(id)
+        ? routeLocationIds.filter((routeId) => routeId !== id)
+        : [...routeLocationIds, id]
+    );
+  };
+
+  const handleToggleRoute = async () => {
+    try {
+      if (geolocationState.isRoutePlaying) {
+        await window.electronAPI?.geolocation.stopRoute();
+      } else {
+        await window.electronAPI?.geolocation.startRoute({
+          locationIds: routeLocationIds,
+          speedKmh: parseFloat(routeSpeed) || 40,
+          loop: routeLoop,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to toggle route playback:", error);
+    }
+  };
+
+  const isDark = theme === "dark";
+  const { fieldClassName, inputClassName, labelClassName } = getFormClassNames(isDark);
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="Location" onBack={onBack} />
+
+      {/* Location Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <div>
+            <div
+              className={`rounded-xl overflow-hidden ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <div className="px-4 py-3 flex items-center justify-between">
+                <span
+                  className={`font-medium ${
+                    isDark ? "text-white" : "text-zinc-900"
+                  }`}
+                >
+                  Emulate Location
+                </span>
+                <SettingsSwitch
+                  isDark={isDark}
+                  checked={!!geolocationState.override}
+                  onChange={handleToggleGeolocation}
+                  title="Toggle location emulation"
+                />
+              </div>
+              <div
+                className={`p-4 space-y-4 border-t ${
+                  isDark ? "border-zinc-700" : "border-zinc-200"
+                }`}
+              >
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClassName}>Latitude</label>
+                    <input
+                      type="number"
+                      step="0.0001"
+                      value={locationForm.latitude}
+                      onChange={(e) =>
+                        setLocationForm({ ...locationForm, latitude: e.target.value })
+                      }
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClassName}>Longitude</label>
+                    <input
+                      type="number"
+                      step="0.0001"
+                      value={locationForm.longitude}
+                      onChange={(e) =>
+                        setLocationForm({ ...locationForm, longitude: e.target.value })
+                      }
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClassName}>Accuracy (m)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={locationForm.accuracy}
+                    onChange={(e) =>
+                      setLocationForm({ ...locationForm, accuracy: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+                <button
+                  onClick={handleApplyLocation}
+                  className="w-full px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+                >
+                  Apply
+                </button>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={locationForm.name}
+                    onChange={(e) => setLocationForm({ ...locationForm, name: e.target.value })}
+                    placeholder="Save as..."
+                    className={`flex-1 min-w-0 ${fieldClassName}`}
+                  />
+                  <button
+                    onClick={handleSaveLocation}
+                    disabled={!locationForm.name.trim()}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-40 ${
+                      isDark
+                        ? "hover:bg-zinc-700 text-white"
+                        : "hover:bg-zinc-100 text-zinc-900"
+                    }`}
+                    title="Save location"
+                  >
+                    <Plus size={20} />
+                  </button>
+                </div>
+              </div>
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Applies to the current tab. Pages in this tab are granted the location permission.
+            </p>
+          </div>
+
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Saved Locations
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              {geolocationState.savedLocations.map((location, index) => {
+                const routeIndex = routeLocationIds.indexOf(location.id);
+                return (
+                  <div key={location.id}>
+                    {index > 0 && (
+                      <div
+                        className={`h-px mx-4 ${
+                          isDark ? "bg-zinc-700" : "bg-zinc-200"
+                        }`}
+                      />
+                    )}
+                    <div className="flex items-center pr-2">
+                      <button
+                        onClick={() => handleSelectSavedLocation(location.id)}
+                        className={`flex-1 min-w-0 px-4 py-3 flex flex-col items-start transition-colors ${
+                          isDark ? "hover:bg-zinc-700" : "hover:bg-zinc-50"
+                        }`}
+                      >
+                        <span
+                          className={`font-medium truncate max-w-full ${
+                            isDark ? "text-white" : "text-zinc-900"
+                          }`}
+                        >
+                          {location.name}
+                        </span>
+                        <span
+                          className={`text-xs ${
+                            isDark ? "text-zinc-500" : "text-zinc-600"
+                          }`}
+                        >
+                          {location.latitude.toFixed(4)}, {location.longitude.toFixed(4)}
+                        </span>
+                      </button>
+                      <button
+                        onClick={() => handleToggleRouteLocation(location.id)}
+                        className={`w-8 h-8 rounded-full text-xs font-semibold transition-colors ${
+                          routeIndex >= 0
+                            ? "bg-blue-600 text-white"
+                            : isDark
+                            ? "hover:bg-zinc-700 text-zinc-500 border border-zinc-600"
+                            : "hover:bg-zinc-100 text-zinc-400 border border-zinc-300"
+                        }`}
+                        title={routeIndex >= 0 ? "Remove from route" : "Add to route"}
+                      >
+                        {routeIndex >= 0 ? routeIndex + 1 : "+"}
+                      </button>
+                      <button
+                        onClick={() => handleRemoveLocation(location.id)}
+                        className={`p-2 rounded-lg transition-colors ${
+                          isDark
+                            ? "hover:bg-zinc-700 text-zinc-400 hover:text-red-400"
+                            : "hover:bg-zinc-100 text-zinc-600 hover:text-red-600"
+                        }`}
+                        title="Delete location"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Route
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden p-4 space-y-4 ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <label className={labelClassName}>Speed (km/h)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={routeSpeed}
+                    onChange={(e) => setRouteSpeed(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex flex-col items-center gap-2">
+                  <span className={labelClassName}>Loop</span>
+                  <SettingsSwitch
+                    isDark={isDark}
+                    checked={routeLoop}
+                    onChange={() => setRouteLoop(!routeLoop)}
+                    title="Loop route"
+                  />
+                </div>
+              </div>
+              <button
+                onClick={handleToggleRoute}
+                disabled={!geolocationState.isRoutePlaying && routeLocationIds.length < 2}
+                className={`w-full px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 ${
+                  !geolocationState.isRoutePlaying && routeLocationIds.length < 2
+                    ? isDark
+                      ? "bg-zinc-700 text-zinc-500 cursor-not-allowed"
+                      : "bg-zinc-200 text-zinc-400 cursor-not-allowed"
+                    : "bg-blue-600 hover:bg-blue-700 text-white"
+                }`}
+              >
+                {geolocationState.isRoutePlaying ? (
+                  <>
+                    <Square size={16} />
+                    Stop
+                  </>
+                ) : (
+                  <>
+                    <Play size={16} />
+                    Play Route
+                  </>
+                )}
+              </button>
+              {geolocationState.isRoutePlaying && geolocationState.override && (
+                <div
+                  className={`text-xs text-center ${
+                    isDark ? "text-zinc-400" : "text-zinc-600"
+                  }`}
+                >
+                  {geolocationState.override.latitude.toFixed(5)},{" "}
+                  {geolocationState.override.longitude.toFixed(5)}
+                </div>
+              )}
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Pick two or more saved locations with the numbered buttons to move between them in order.
+            </p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default LocationSettings;
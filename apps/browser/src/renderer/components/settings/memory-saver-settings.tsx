@@ -0,0 +1,170 @@
+import { useState, useEffect } from "react";
+import { Check } from "lucide-react";
+import type { TabDiscardSettings } from "../../../types/electron-api";
+import { SettingsHeader, SettingsSwitch } from "./settings-ui";
+
+interface MemorySaverSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+const discardOptionSections: Array<{
+  title: string;
+  key: "inactiveMinutes" | "maxLoadedTabs" | "memoryLimitMB";
+  options: Array<{ value: number; label: string }>;
+}> = [
+  {
+    title: "Discard Inactive Tabs After",
+    key: "inactiveMinutes",
+    options: [
+      { value: 5, label: "5 Minutes" },
+      { value: 15, label: "15 Minutes" },
+      { value: 30, label: "30 Minutes" },
+      { value: 60, label: "1 Hour" },
+      { value: 0, label: "Never" },
+    ],
+  },
+  {
+    title: "Loaded Tab Limit",
+    key: "maxLoadedTabs",
+    options: [
+      { value: 5, label: "5 Tabs" },
+      { value: 10, label: "10 Tabs" },
+      { value: 20, label: "20 Tabs" },
+      { value: 0, label: "No Limit" },
+    ],
+  },
+  {
+    title: "Memory Limit",
+    key: "memoryLimitMB",
+    options: [
+      { value: 1024, label: "1 GB" },
+      { value: 2048, label: "2 GB" },
+      { value: 4096, label: "4 GB" },
+      { value: 0, label: "No Limit" },
+    ],
+  },
+];
+
+function MemorySaverSettings({ theme, onBack }: MemorySaverSettingsProps) {
+  const [discardSettings, setDiscardSettings] = useState<TabDiscardSettings>({
+    enabled: true,
+    inactiveMinutes: 30,
+    maxLoadedTabs: 10,
+    memoryLimitMB: 0,
+  });
+
+  useEffect(() => {
+    // Load background tab discarding settings
+    window.electronAPI?.tabs.getDiscardSettings().then((settings: TabDiscardSettings) => {
+      setDiscardSettings(settings);
+    });
+  }, []);
+
+  const handleUpdateDiscardSettings = async (updates: Partial<TabDiscardSettings>) => {
+    setDiscardSettings({ ...discardSettings, ...updates });
+    try {
+      const settings = await window.electronAPI?.tabs.setDiscardSettings(updates);
+      if (settings) setDiscardSettings(settings);
+    } catch (error) {
+      console.error("Failed to update memory saver settings:", error);
+    }
+  };
+
+  const isDark = theme === "dark";
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="Memory Saver" onBack={onBack} />
+
+      {/* Memory Saver Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <div>
+            <div
+              className={`rounded-xl overflow-hidden px-4 py-3 flex items-center justify-between ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <span
+                className={`font-medium ${
+                  isDark ? "text-white" : "text-zinc-900"
+                }`}
+              >
+                Memory Saver
+              </span>
+              <SettingsSwitch
+                isDark={isDark}
+                checked={discardSettings.enabled}
+                onChange={() => handleUpdateDiscardSettings({ enabled: !discardSettings.enabled })}
+                title="Toggle memory saver"
+              />
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Background tabs are unloaded to free memory and reload when you open them again.
+              The current tab and tabs playing audio or video are never unloaded.
+            </p>
+          </div>
+
+          {discardSettings.enabled &&
+            discardOptionSections.map((section) => (
+              <div key={section.key}>
+                <div
+                  className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                    isDark ? "text-zinc-500" : "text-zinc-600"
+                  }`}
+                >
+                  {section.title}
+                </div>
+                <div
+                  className={`rounded-xl overflow-hidden ${
+                    isDark ? "bg-zinc-800" : "bg-white"
+                  }`}
+                >
+                  {section.options.map((option, index) => (
+                    <div key={option.value}>
+                      {index > 0 && (
+                        <div
+                          className={`h-px mx-4 ${
+                            isDark ? "bg-zinc-700" : "bg-zinc-200"
+                          }`}
+                        />
+                      )}
+                      <button
+                        onClick={() => handleUpdateDiscardSettings({ [section.key]: option.value })}
+                        className={`w-full px-4 py-3 flex items-center gap-3 transition-colors ${
+                          isDark ? "hover:bg-zinc-700" : "hover:bg-zinc-50"
+                        }`}
+                      >
+                        <div className="w-5 flex-shrink-0">
+                          {discardSettings[section.key] === option.value && (
+                            <Check
+                              size={20}
+                              className={isDark ? "text-blue-400" : "text-blue-600"}
+                            />
+                          )}
+                        </div>
+                        <span
+                          className={`font-medium ${
+                            isDark ? "text-white" : "text-zinc-900"
+                          }`}
+                        >
+                          {option.label}
+                        </span>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default MemorySaverSettings;
@@ -0,0 +1,242 @@
+import { useState, useEffect } from "react";
+import { Trash2, Plus, RotateCw } from "lucide-react";
+import type { DeviceProfile, MirrorState } from "../../../types/electron-api";
+import { SettingsHeader, SettingsSwitch, getFormClassNames } from "./settings-ui";
+
+interface MirrorSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+function MirrorSettings({ theme, onBack }: MirrorSettingsProps) {
+  const [deviceProfiles, setDeviceProfiles] = useState<DeviceProfile[]>([]);
+  const [mirrorState, setMirrorState] = useState<MirrorState>({ enabled: false, devices: [] });
+  const [mirrorProfileId, setMirrorProfileId] = useState("");
+  const [mirrorLandscape, setMirrorLandscape] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI?.devices.getAll().then((profiles: DeviceProfile[]) => {
+      setDeviceProfiles(profiles);
+    });
+
+    window.electronAPI?.mirror.getState().then((state: MirrorState) => {
+      setMirrorState(state);
+    });
+    const unsubscribeMirror = window.electronAPI?.mirror.onStateChanged(
+      (state: MirrorState) => {
+        setMirrorState(state);
+      }
+    );
+
+    return () => {
+      if (unsubscribeMirror) unsubscribeMirror();
+    };
+  }, []);
+
+  const handleToggleMirror = async () => {
+    try {
+      await window.electronAPI?.mirror.setEnabled(!mirrorState.enabled);
+    } catch (error) {
+      console.error("Failed to toggle mirror mode:", error);
+    }
+  };
+
+  const handleAddMirrorDevice = async () => {
+    const profileId = mirrorProfileId || deviceProfiles[0]?.id;
+    if (!profileId) {
+      return;
+    }
+
+    try {
+      await window.electronAPI?.mirror.addDevice(profileId, mirrorLandscape);
+      // State will be reloaded via onStateChanged listener
+    } catch (error) {
+      console.error("Failed to add mirror device:", error);
+    }
+  };
+
+  const handleUpdateMirrorDevice = async (
+    id: string,
+    updates: { enabled?: boolean; isLandscape?: boolean }
+  ) => {
+    try {
+      await window.electronAPI?.mirror.updateDevice(id, updates);
+    } catch (error) {
+      console.error("Failed to update mirror device:", error);
+    }
+  };
+
+  const handleRemoveMirrorDevice = async (id: string) => {
+    try {
+      await window.electronAPI?.mirror.removeDevice(id);
+    } catch (error) {
+      console.error("Failed to remove mirror device:", error);
+    }
+  };
+
+  const isDark = theme === "dark";
+  const { fieldClassName } = getFormClassNames(isDark);
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="Mirror Mode" onBack={onBack} />
+
+      {/* Mirror Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <div>
+            <div
+              className={`rounded-xl overflow-hidden px-4 py-3 flex items-center justify-between ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <span
+                className={`font-medium ${
+                  isDark ? "text-white" : "text-zinc-900"
+                }`}
+              >
+                Mirror Mode
+              </span>
+              <SettingsSwitch
+                isDark={isDark}
+                checked={mirrorState.enabled}
+                onChange={handleToggleMirror}
+                title="Toggle mirror mode"
+              />
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Opens the current tab on every enabled device in a separate window.
+              Navigation, scrolling and clicks are replayed from this window.
+            </p>
+          </div>
+
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Devices
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              {mirrorState.devices.map((device, index) => {
+                const profile = deviceProfiles.find((p) => p.id === device.profileId);
+                return (
+                  <div key={device.id}>
+                    {index > 0 && (
+                      <div
+                        className={`h-px mx-4 ${
+                          isDark ? "bg-zinc-700" : "bg-zinc-200"
+                        }`}
+                      />
+                    )}
+                    <div className="flex items-center gap-2 px-4 py-3">
+                      <div className="flex-1 min-w-0">
+                        <div
+                          className={`text-sm font-medium truncate ${
+                            isDark ? "text-white" : "text-zinc-900"
+                          }`}
+                        >
+                          {profile?.name ?? device.profileId}
+                        </div>
+                        <div
+                          className={`text-xs ${
+                            isDark ? "text-zinc-500" : "text-zinc-600"
+                          }`}
+                        >
+                          {device.isLandscape ? "Landscape" : "Portrait"}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() =>
+                          handleUpdateMirrorDevice(device.id, { isLandscape: !device.isLandscape })
+                        }
+                        className={`p-2 rounded-lg transition-colors ${
+                          isDark
+                            ? "hover:bg-zinc-700 text-zinc-400 hover:text-blue-400"
+                            : "hover:bg-zinc-100 text-zinc-600 hover:text-blue-600"
+                        }`}
+                        title="Rotate device"
+                      >
+                        <RotateCw size={18} />
+                      </button>
+                      <button
+                        onClick={() => handleRemoveMirrorDevice(device.id)}
+                        className={`p-2 rounded-lg transition-colors ${
+                          isDark
+                            ? "hover:bg-zinc-700 text-zinc-400 hover:text-red-400"
+                            : "hover:bg-zinc-100 text-zinc-600 hover:text-red-600"
+                        }`}
+                        title="Remove device"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                      <SettingsSwitch
+                        isDark={isDark}
+                        checked={device.enabled}
+                        onChange={() => handleUpdateMirrorDevice(device.id, { enabled: !device.enabled })}
+                        title="Show this device"
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Add device */}
+              <div
+                className={`flex items-center gap-2 px-4 py-3 ${
+                  mirrorState.devices.length > 0
+                    ? isDark
+                      ? "border-t border-zinc-700"
+                      : "border-t border-zinc-200"
+                    : ""
+                }`}
+              >
+                <select
+                  value={mirrorProfileId || deviceProfiles[0]?.id || ""}
+                  onChange={(e) => setMirrorProfileId(e.target.value)}
+                  className={`flex-1 min-w-0 ${fieldClassName}`}
+                >
+                  {deviceProfiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={mirrorLandscape ? "landscape" : "portrait"}
+                  onChange={(e) => setMirrorLandscape(e.target.value === "landscape")}
+                  className={fieldClassName}
+                >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+                <button
+                  onClick={handleAddMirrorDevice}
+                  className={`p-2 rounded-lg transition-colors ${
+                    isDark
+                      ? "hover:bg-zinc-700 text-white"
+                      : "hover:bg-zinc-100 text-zinc-900"
+                  }`}
+                  title="Add mirror device"
+                >
+                  <Plus size={20} />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default MirrorSettings;
@@ -0,0 +1,219 @@
+import { useState, useEffect } from "react";
+import { Check } from "lucide-react";
+import type { NetworkConditions } from "../../../types/electron-api";
+import { SettingsHeader, getFormClassNames } from "./settings-ui";
+
+interface NetworkSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+// Custom network throttling fields (numbers kept as input strings)
+interface NetworkForm {
+  latency: string;
+  downloadKbps: string;
+  uploadKbps: string;
+}
+
+function NetworkSettings({ theme, onBack }: NetworkSettingsProps) {
+  const [networkPresets, setNetworkPresets] = useState<NetworkConditions[]>([]);
+  const [activeNetwork, setActiveNetwork] = useState<NetworkConditions | null>(null);
+  const [networkForm, setNetworkForm] = useState<NetworkForm>({
+    latency: "300",
+    downloadKbps: "1000",
+    uploadKbps: "500",
+  });
+
+  useEffect(() => {
+    // Load network throttling state
+    window.electronAPI?.network.getPresets().then((presets: NetworkConditions[]) => {
+      setNetworkPresets(presets);
+    });
+    window.electronAPI?.network.getActive().then((conditions: NetworkConditions) => {
+      setActiveNetwork(conditions);
+      if (conditions.id === "custom") {
+        setNetworkForm({
+          latency: String(conditions.latency),
+          downloadKbps: String(conditions.downloadKbps),
+          uploadKbps: String(conditions.uploadKbps),
+        });
+      }
+    });
+    const unsubscribeNetwork = window.electronAPI?.network.onChanged(
+      (conditions: NetworkConditions) => {
+        setActiveNetwork(conditions);
+      }
+    );
+
+    return () => {
+      if (unsubscribeNetwork) unsubscribeNetwork();
+    };
+  }, []);
+
+  const handleSelectNetwork = async (presetId: string) => {
+    try {
+      await window.electronAPI?.network.setActive(presetId);
+      // State will be reloaded via onChanged listener
+    } catch (error) {
+      console.error("Failed to set network conditions:", error);
+    }
+  };
+
+  const handleApplyCustomNetwork = async () => {
+    try {
+      await window.electronAPI?.network.setCustom({
+        latency: parseFloat(networkForm.latency),
+        downloadKbps: parseFloat(networkForm.downloadKbps),
+        uploadKbps: parseFloat(networkForm.uploadKbps),
+      });
+    } catch (error) {
+      console.error("Failed to set custom network conditions:", error);
+    }
+  };
+
+  const isDark = theme === "dark";
+  const { inputClassName, labelClassName } = getFormClassNames(isDark);
+
+  const formatThroughput = (kbps: number) =>
+    kbps === 0 ? "Unlimited" : kbps >= 1000 ? `${kbps / 1000} Mbps` : `${kbps} kbps`;
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="Network" onBack={onBack} />
+
+      {/* Network Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Presets
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              {networkPresets.map((preset, index) => (
+                <div key={preset.id}>
+                  {index > 0 && (
+                    <div
+                      className={`h-px mx-4 ${
+                        isDark ? "bg-zinc-700" : "bg-zinc-200"
+                      }`}
+                    />
+                  )}
+                  <button
+                    onClick={() => handleSelectNetwork(preset.id)}
+                    className={`w-full px-4 py-3 flex items-center gap-3 transition-colors ${
+                      isDark ? "hover:bg-zinc-700" : "hover:bg-zinc-50"
+                    }`}
+                  >
+                    <div className="w-5 flex-shrink-0">
+                      {activeNetwork?.id === preset.id && (
+                        <Check
+                          size={20}
+                          className={isDark ? "text-blue-400" : "text-blue-600"}
+                        />
+                      )}
+                    </div>
+                    <div className="flex flex-col items-start min-w-0">
+                      <span
+                        className={`font-medium ${
+                          isDark ? "text-white" : "text-zinc-900"
+                        }`}
+                      >
+                        {preset.name}
+                      </span>
+                      {!preset.offline && preset.downloadKbps > 0 && (
+                        <span
+                          className={`text-xs ${
+                            isDark ? "text-zinc-500" : "text-zinc-600"
+                          }`}
+                        >
+                          {formatThroughput(preset.downloadKbps)} ↓ ·{" "}
+                          {formatThroughput(preset.uploadKbps)} ↑ · {preset.latency} ms
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Custom
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden p-4 space-y-4 ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <div>
+                <label className={labelClassName}>Latency (ms)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={networkForm.latency}
+                  onChange={(e) => setNetworkForm({ ...networkForm, latency: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClassName}>Download (kbps)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={networkForm.downloadKbps}
+                    onChange={(e) =>
+                      setNetworkForm({ ...networkForm, downloadKbps: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Upload (kbps)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={networkForm.uploadKbps}
+                    onChange={(e) =>
+                      setNetworkForm({ ...networkForm, uploadKbps: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              <button
+                onClick={handleApplyCustomNetwork}
+                className="w-full px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors flex items-center justify-center gap-2"
+              >
+                {activeNetwork?.id === "custom" && <Check size={18} />}
+                Apply Custom
+              </button>
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Throttling applies to every tab. Use 0 for unlimited throughput.
+            </p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default NetworkSettings;
@@ -0,0 +1,192 @@
+import { useState, useEffect } from "react";
+import { Vibrate } from "lucide-react";
+import type { SensorReading } from "../../../types/electron-api";
+import { SettingsHeader, SettingsSwitch, getFormClassNames } from "./settings-ui";
+
+interface SensorsSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+// Tilt presets for the sensor panel (degrees)
+const sensorPresets: { label: string; reading: SensorReading }[] = [
+  { label: "Flat", reading: { alpha: 0, beta: 0, gamma: 0 } },
+  { label: "Upright", reading: { alpha: 0, beta: 90, gamma: 0 } },
+  { label: "Tilt Left", reading: { alpha: 0, beta: 45, gamma: -30 } },
+  { label: "Tilt Right", reading: { alpha: 0, beta: 45, gamma: 30 } },
+  { label: "Face Down", reading: { alpha: 0, beta: 180, gamma: 0 } },
+];
+
+const sensorAxes: { key: keyof SensorReading; label: string; min: number; max: number }[] = [
+  { key: "alpha", label: "Alpha (compass)", min: 0, max: 360 },
+  { key: "beta", label: "Beta (front/back)", min: -180, max: 180 },
+  { key: "gamma", label: "Gamma (left/right)", min: -90, max: 90 },
+];
+
+function SensorsSettings({ theme, onBack }: SensorsSettingsProps) {
+  const [sensorReading, setSensorReading] = useState<SensorReading | null>(null);
+
+  useEffect(() => {
+    // Load sensor emulation state of the active tab
+    window.electronAPI?.emulation.getSensors().then((reading: SensorReading | null) => {
+      setSensorReading(reading);
+    });
+  }, []);
+
+  const handleSetSensors = async (reading: SensorReading | null) => {
+    setSensorReading(reading);
+    try {
+      await window.electronAPI?.emulation.setSensors(reading);
+    } catch (error) {
+      console.error("Failed to set sensor readings:", error);
+    }
+  };
+
+  const handleShake = async () => {
+    try {
+      await window.electronAPI?.emulation.shake();
+    } catch (error) {
+      console.error("Failed to shake device:", error);
+    }
+  };
+
+  const isDark = theme === "dark";
+  const { labelClassName } = getFormClassNames(isDark);
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="Sensors" onBack={onBack} />
+
+      {/* Sensors Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <div>
+            <div
+              className={`rounded-xl overflow-hidden ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <div className="px-4 py-3 flex items-center justify-between">
+                <span
+                  className={`font-medium ${
+                    isDark ? "text-white" : "text-zinc-900"
+                  }`}
+                >
+                  Emulate Motion & Orientation
+                </span>
+                <SettingsSwitch
+                  isDark={isDark}
+                  checked={!!sensorReading}
+                  onChange={() => handleSetSensors(sensorReading ? null : sensorPresets[0].reading)}
+                  title="Toggle sensor emulation"
+                />
+              </div>
+              {sensorReading && (
+                <div
+                  className={`p-4 space-y-4 border-t ${
+                    isDark ? "border-zinc-700" : "border-zinc-200"
+                  }`}
+                >
+                  {sensorAxes.map((axis) => (
+                    <div key={axis.key}>
+                      <div className="flex items-center justify-between">
+                        <label className={labelClassName}>{axis.label}</label>
+                        <span
+                          className={`text-sm tabular-nums ${
+                            isDark ? "text-zinc-400" : "text-zinc-600"
+                          }`}
+                        >
+                          {sensorReading[axis.key]}°
+                        </span>
+                      </div>
+                      <input
+                        type="range"
+                        min={axis.min}
+                        max={axis.max}
+                        value={sensorReading[axis.key]}
+                        onChange={(e) =>
+                          handleSetSensors({
+                            ...sensorReading,
+                            [axis.key]: parseInt(e.target.value, 10),
+                          })
+                        }
+                        className="w-full accent-blue-600"
+                      />
+                    </div>
+                  ))}
+                  <button
+                    onClick={handleShake}
+                    className="w-full px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Vibrate size={16} />
+                    Shake
+                  </button>
+                </div>
+              )}
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Sends deviceorientation and devicemotion events to the current tab. On iOS
+              devices, pages must call DeviceOrientationEvent.requestPermission() first.
+            </p>
+          </div>
+
+          {sensorReading && (
+            <div>
+              <div
+                className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                  isDark ? "text-zinc-500" : "text-zinc-600"
+                }`}
+              >
+                Presets
+              </div>
+              <div
+                className={`rounded-xl overflow-hidden ${
+                  isDark ? "bg-zinc-800" : "bg-white"
+                }`}
+              >
+                {sensorPresets.map((preset, index) => (
+                  <div key={preset.label}>
+                    {index > 0 && (
+                      <div
+                        className={`h-px mx-4 ${
+                          isDark ? "bg-zinc-700" : "bg-zinc-200"
+                        }`}
+                      />
+                    )}
+                    <button
+                      onClick={() => handleSetSensors(preset.reading)}
+                      className={`w-full px-4 py-3 flex items-center justify-between transition-colors ${
+                        isDark ? "hover:bg-zinc-700" : "hover:bg-zinc-50"
+                      }`}
+                    >
+                      <span
+                        className={`font-medium ${
+                          isDark ? "text-white" : "text-zinc-900"
+                        }`}
+                      >
+                        {preset.label}
+                      </span>
+                      <span
+                        className={`text-xs ${
+                          isDark ? "text-zinc-500" : "text-zinc-600"
+                        }`}
+                      >
+                        β {preset.reading.beta}° · γ {preset.reading.gamma}°
+                      </span>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default SensorsSettings;
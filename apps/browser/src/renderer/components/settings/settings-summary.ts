@@ -0,0 +1,54 @@
+// Values shown next to each entry of the main settings list
+export interface SettingsSummary {
+  deviceName?: string;
+  isMirrorEnabled: boolean;
+  networkName?: string;
+  isLocationEmulated: boolean;
+  isSensorEmulated: boolean;
+  locale?: string;
+  enabledUserAgentRules: number;
+  restoreSession: boolean;
+  isMemorySaverEnabled: boolean;
+}
+
+export const emptySettingsSummary: SettingsSummary = {
+  isMirrorEnabled: false,
+  isLocationEmulated: false,
+  isSensorEmulated: false,
+  enabledUserAgentRules: 0,
+  restoreSession: true,
+  isMemorySaverEnabled: true,
+};
+
+// Each detail view owns its own state, so the summary is read again whenever the main list is shown
+export async function loadSettingsSummary(): Promise<SettingsSummary> {
+  const api = window.electronAPI;
+  if (!api) {
+    return emptySettingsSummary;
+  }
+
+  const [device, mirror, network, geolocation, sensors, locale, rules, restoreSession, discard] =
+    await Promise.all([
+      api.devices.getActive(),
+      api.mirror.getState(),
+      api.network.getActive(),
+      api.geolocation.getState(),
+      api.emulation.getSensors(),
+      api.emulation.getLocale(),
+      api.userAgentRules.getAll(),
+      api.tabs.getRestoreSession(),
+      api.tabs.getDiscardSettings(),
+    ]);
+
+  return {
+    deviceName: device?.name,
+    isMirrorEnabled: mirror.enabled,
+    networkName: network?.name,
+    isLocationEmulated: !!geolocation.override,
+    isSensorEmulated: !!sensors,
+    locale: locale.locale || locale.timezone,
+    enabledUserAgentRules: rules.filter((rule) => rule.enabled).length,
+    restoreSession,
+    isMemorySaverEnabled: discard.enabled,
+  };
+}
@@ -0,0 +1,84 @@
+import { ChevronLeft } from "lucide-react";
+
+interface SettingsHeaderProps {
+  isDark: boolean;
+  title: string;
+  onBack: () => void;
+  // Optional button shown on the right (e.g. "Add")
+  action?: React.ReactNode;
+}
+
+// Header of a settings detail view with a back button
+export function SettingsHeader({ isDark, title, onBack, action }: SettingsHeaderProps) {
+  return (
+    <div
+      className={`flex items-center justify-between px-6 py-4 border-b ${
+        isDark ? "border-zinc-700" : "border-zinc-300"
+      }`}
+    >
+      <button
+        onClick={onBack}
+        className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors font-medium text-sm ${
+          isDark
+            ? "hover:bg-zinc-800 text-white"
+            : "hover:bg-zinc-200 text-zinc-900"
+        }`}
+      >
+        <ChevronLeft size={20} />
+        Back
+      </button>
+      <h2
+        className={`text-xl font-semibold ${
+          isDark ? "text-white" : "text-zinc-900"
+        }`}
+      >
+        {title}
+      </h2>
+      {action ?? <div className="w-20"></div>}
+    </div>
+  );
+}
+
+interface SettingsSwitchProps {
+  isDark: boolean;
+  checked: boolean;
+  onChange: () => void;
+  title: string;
+}
+
+export function SettingsSwitch({ isDark, checked, onChange, title }: SettingsSwitchProps) {
+  return (
+    <button
+      onClick={onChange}
+      role="switch"
+      aria-checked={checked}
+      title={title}
+      className={`relative w-11 h-6 rounded-full transition-colors flex-shrink-0 ${
+        checked ? "bg-green-500" : isDark ? "bg-zinc-600" : "bg-zinc-300"
+      }`}
+    >
+      <span
+        className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform ${
+          checked ? "translate-x-5" : ""
+        }`}
+      />
+    </button>
+  );
+}
+
+// Class names shared by the form fields of the settings views
+export function getFormClassNames(isDark: boolean) {
+  const fieldClassName = `px-4 py-2 rounded-lg border ${
+    isDark
+      ? "bg-zinc-700 border-zinc-600 text-white placeholder-zinc-400"
+      : "bg-white border-zinc-300 text-zinc-900 placeholder-zinc-500"
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  return {
+    fieldClassName,
+    inputClassName: `w-full ${fieldClassName}`,
+    labelClassName: `block text-sm font-medium mb-2 ${
+      isDark ? "text-zinc-300" : "text-zinc-700"
+    }`,
+  };
+}
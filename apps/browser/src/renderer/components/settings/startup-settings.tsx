@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { Check } from "lucide-react";
+import { SettingsHeader } from "./settings-ui";
+
+interface StartupSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+const startupOptions = [
+  { restore: true, label: "Restore Last Session" },
+  { restore: false, label: "Start with a Blank Page" },
+];
+
+function StartupSettings({ theme, onBack }: StartupSettingsProps) {
+  const [restoreSession, setRestoreSession] = useState(true);
+
+  useEffect(() => {
+    // Load startup behavior
+    window.electronAPI?.tabs.getRestoreSession().then((enabled: boolean) => {
+      setRestoreSession(enabled);
+    });
+  }, []);
+
+  const handleSetRestoreSession = async (enabled: boolean) => {
+    setRestoreSession(enabled);
+    try {
+      await window.electronAPI?.tabs.setRestoreSession(enabled);
+    } catch (error) {
+      console.error("Failed to set startup behavior:", error);
+    }
+  };
+
+  const isDark = theme === "dark";
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="On Startup" onBack={onBack} />
+
+      {/* Startup Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div>
+          <div
+            className={`rounded-xl overflow-hidden ${
+              isDark ? "bg-zinc-800" : "bg-white"
+            }`}
+          >
+            {startupOptions.map((option, index) => (
+              <div key={option.label}>
+                {index > 0 && (
+                  <div
+                    className={`h-px mx-4 ${
+                      isDark ? "bg-zinc-700" : "bg-zinc-200"
+                    }`}
+                  />
+                )}
+                <button
+                  onClick={() => handleSetRestoreSession(option.restore)}
+                  className={`w-full px-4 py-3 flex items-center gap-3 transition-colors ${
+                    isDark ? "hover:bg-zinc-700" : "hover:bg-zinc-50"
+                  }`}
+                >
+                  <div className="w-5 flex-shrink-0">
+                    {restoreSession === option.restore && (
+                      <Check
+                        size={20}
+                        className={isDark ? "text-blue-400" : "text-blue-600"}
+                      />
+                    )}
+                  </div>
+                  <span
+                    className={`font-medium ${
+                      isDark ? "text-white" : "text-zinc-900"
+                    }`}
+                  >
+                    {option.label}
+                  </span>
+                </button>
+              </div>
+            ))}
+          </div>
+          <p
+            className={`px-4 pt-2 text-xs ${
+              isDark ? "text-zinc-500" : "text-zinc-600"
+            }`}
+          >
+            Open tabs, their back and forward history and the active tab are saved as you
+            browse. The device and orientation are always restored.
+          </p>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default StartupSettings;
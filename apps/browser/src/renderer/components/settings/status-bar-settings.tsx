@@ -0,0 +1,279 @@
+import {
+  DEFAULT_STATUS_BAR_CONFIG,
+  DEMO_STATUS_BAR_CONFIG,
+  isDemoStatusBar,
+} from "../../utils/status-bar-config";
+import type { StatusBarConfig } from "../../utils/status-bar-config";
+import { SettingsHeader, SettingsSwitch, getFormClassNames } from "./settings-ui";
+
+interface StatusBarSettingsProps {
+  theme: "light" | "dark";
+  statusBarConfig: StatusBarConfig;
+  onStatusBarConfigChange: (config: StatusBarConfig) => void;
+  onBack: () => void;
+}
+
+function StatusBarSettings({
+  theme,
+  statusBarConfig,
+  onStatusBarConfigChange,
+  onBack,
+}: StatusBarSettingsProps) {
+  const isDark = theme === "dark";
+  const { inputClassName, labelClassName } = getFormClassNames(isDark);
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="Status Bar" onBack={onBack} />
+
+      {/* Status Bar Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <div>
+            <div
+              className={`rounded-xl overflow-hidden px-4 py-3 flex items-center justify-between ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <span
+                className={`font-medium ${
+                  isDark ? "text-white" : "text-zinc-900"
+                }`}
+              >
+                Demo Mode
+              </span>
+              <SettingsSwitch
+                isDark={isDark}
+                checked={isDemoStatusBar(statusBarConfig)}
+                onChange={() =>
+                  onStatusBarConfigChange(
+                    isDemoStatusBar(statusBarConfig)
+                      ? DEFAULT_STATUS_BAR_CONFIG
+                      : DEMO_STATUS_BAR_CONFIG
+                  )
+                }
+                title="Toggle demo mode"
+              />
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Shows 9:41 with a full battery and full signal for clean screenshots.
+              An active network throttling profile still replaces the signal indicator.
+            </p>
+          </div>
+
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Time
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <div className="px-4 py-3 flex items-center justify-between">
+                <span
+                  className={`font-medium ${
+                    isDark ? "text-white" : "text-zinc-900"
+                  }`}
+                >
+                  Fixed Time
+                </span>
+                <SettingsSwitch
+                  isDark={isDark}
+                  checked={statusBarConfig.time !== null}
+                  onChange={() =>
+                    onStatusBarConfigChange({
+                      ...statusBarConfig,
+                      time: statusBarConfig.time === null ? "9:41" : null,
+                    })
+                  }
+                  title="Toggle fixed time"
+                />
+              </div>
+              {statusBarConfig.time !== null && (
+                <div
+                  className={`p-4 border-t ${
+                    isDark ? "border-zinc-700" : "border-zinc-200"
+                  }`}
+                >
+                  <input
+                    type="text"
+                    value={statusBarConfig.time}
+                    onChange={(e) =>
+                      onStatusBarConfigChange({ ...statusBarConfig, time: e.target.value })
+                    }
+                    placeholder="9:41"
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Battery
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <div className="p-4">
+                <div className="flex items-center justify-between">
+                  <label className={labelClassName}>Level</label>
+                  <span
+                    className={`text-sm tabular-nums ${
+                      isDark ? "text-zinc-400" : "text-zinc-600"
+                    }`}
+                  >
+                    {statusBarConfig.batteryLevel}%
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={statusBarConfig.batteryLevel}
+                  onChange={(e) =>
+                    onStatusBarConfigChange({
+                      ...statusBarConfig,
+                      batteryLevel: parseInt(e.target.value, 10),
+                    })
+                  }
+                  className="w-full accent-blue-600"
+                />
+              </div>
+              <div className={`h-px mx-4 ${isDark ? "bg-zinc-700" : "bg-zinc-200"}`} />
+              <div className="px-4 py-3 flex items-center justify-between">
+                <span
+                  className={`font-medium ${
+                    isDark ? "text-white" : "text-zinc-900"
+                  }`}
+                >
+                  Charging
+                </span>
+                <SettingsSwitch
+                  isDark={isDark}
+                  checked={statusBarConfig.isCharging}
+                  onChange={() =>
+                    onStatusBarConfigChange({
+                      ...statusBarConfig,
+                      isCharging: !statusBarConfig.isCharging,
+                    })
+                  }
+                  title="Toggle charging"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Network
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden p-4 space-y-4 ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              <div>
+                <div className="flex items-center justify-between">
+                  <label className={labelClassName}>Signal Bars</label>
+                  <span
+                    className={`text-sm tabular-nums ${
+                      isDark ? "text-zinc-400" : "text-zinc-600"
+                    }`}
+                  >
+                    {statusBarConfig.signalBars}
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={4}
+                  value={statusBarConfig.signalBars}
+                  onChange={(e) =>
+                    onStatusBarConfigChange({
+                      ...statusBarConfig,
+                      signalBars: parseInt(e.target.value, 10),
+                    })
+                  }
+                  className="w-full accent-blue-600"
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Connection</label>
+                <div className="flex gap-2">
+                  {(["wifi", "cellular"] as const).map((connection) => (
+                    <button
+                      key={connection}
+                      onClick={() => onStatusBarConfigChange({ ...statusBarConfig, connection })}
+                      className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        statusBarConfig.connection === connection
+                          ? "bg-blue-600 hover:bg-blue-700 text-white"
+                          : isDark
+                          ? "bg-zinc-700 hover:bg-zinc-600 text-white"
+                          : "bg-zinc-100 hover:bg-zinc-200 text-zinc-900"
+                      }`}
+                    >
+                      {connection === "wifi" ? "Wi-Fi" : "Cellular"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {statusBarConfig.connection === "cellular" && (
+                <div>
+                  <label className={labelClassName}>Cellular Type</label>
+                  <select
+                    value={statusBarConfig.cellularType}
+                    onChange={(e) =>
+                      onStatusBarConfigChange({ ...statusBarConfig, cellularType: e.target.value })
+                    }
+                    className={inputClassName}
+                  >
+                    {["5G", "LTE", "4G", "3G", "E"].map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className={labelClassName}>Carrier</label>
+                <input
+                  type="text"
+                  value={statusBarConfig.carrier}
+                  onChange={(e) =>
+                    onStatusBarConfigChange({ ...statusBarConfig, carrier: e.target.value })
+                  }
+                  placeholder="None"
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default StatusBarSettings;
@@ -0,0 +1,264 @@
+import { useState, useEffect } from "react";
+import { Trash2, Plus } from "lucide-react";
+import type {
+  UserAgentPreset,
+  UserAgentRule,
+  UserAgentRuleInput,
+} from "../../../types/electron-api";
+import { SettingsHeader, SettingsSwitch, getFormClassNames } from "./settings-ui";
+
+interface UserAgentSettingsProps {
+  theme: "light" | "dark";
+  onBack: () => void;
+}
+
+const userAgentPresetOptions: Array<{ preset: UserAgentPreset; label: string }> = [
+  { preset: "mobile", label: "Mobile" },
+  { preset: "desktop", label: "Desktop" },
+  { preset: "custom", label: "Custom" },
+];
+
+function UserAgentSettings({ theme, onBack }: UserAgentSettingsProps) {
+  const [userAgentRules, setUserAgentRules] = useState<UserAgentRule[]>([]);
+  const [userAgentForm, setUserAgentForm] = useState<UserAgentRuleInput>({
+    domain: "",
+    preset: "desktop",
+    customUserAgent: "",
+  });
+
+  useEffect(() => {
+    loadUserAgentRules();
+    const unsubscribeUserAgentRules = window.electronAPI?.userAgentRules.onUpdate(() => {
+      loadUserAgentRules();
+    });
+
+    return () => {
+      if (unsubscribeUserAgentRules) unsubscribeUserAgentRules();
+    };
+  }, []);
+
+  const loadUserAgentRules = async () => {
+    try {
+      const rules = await window.electronAPI?.userAgentRules.getAll();
+      setUserAgentRules(rules ?? []);
+    } catch (error) {
+      console.error("Failed to load user agent rules:", error);
+    }
+  };
+
+  const handleAddUserAgentRule = async () => {
+    if (!userAgentForm.domain.trim()) {
+      return;
+    }
+
+    try {
+      const rule = await window.electronAPI?.userAgentRules.add(userAgentForm);
+      if (rule) {
+        setUserAgentForm({ ...userAgentForm, domain: "", customUserAgent: "" });
+      }
+      // Rules will be reloaded via onUpdate listener
+    } catch (error) {
+      console.error("Failed to add user agent rule:", error);
+    }
+  };
+
+  const handleUpdateUserAgentRule = async (
+    id: string,
+    updates: Partial<UserAgentRuleInput & { enabled: boolean }>
+  ) => {
+    try {
+      await window.electronAPI?.userAgentRules.update(id, updates);
+    } catch (error) {
+      console.error("Failed to update user agent rule:", error);
+    }
+  };
+
+  const handleRemoveUserAgentRule = async (id: string) => {
+    try {
+      await window.electronAPI?.userAgentRules.remove(id);
+    } catch (error) {
+      console.error("Failed to remove user agent rule:", error);
+    }
+  };
+
+  const isDark = theme === "dark";
+  const { fieldClassName, inputClassName } = getFormClassNames(isDark);
+
+  return (
+    <>
+      <SettingsHeader isDark={isDark} title="User Agent" onBack={onBack} />
+
+      {/* User Agent Content */}
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="space-y-6">
+          <div>
+            <div
+              className={`px-4 py-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Site Rules
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              {userAgentRules.map((rule, index) => (
+                <div key={rule.id}>
+                  {index > 0 && (
+                    <div
+                      className={`h-px mx-4 ${
+                        isDark ? "bg-zinc-700" : "bg-zinc-200"
+                      }`}
+                    />
+                  )}
+                  <div className="px-4 py-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div
+                          className={`text-sm font-medium truncate ${
+                            isDark ? "text-white" : "text-zinc-900"
+                          }`}
+                        >
+                          {rule.domain}
+                        </div>
+                        {rule.isBuiltIn && (
+                          <div
+                            className={`text-xs ${
+                              isDark ? "text-zinc-500" : "text-zinc-600"
+                            }`}
+                          >
+                            Built-in
+                          </div>
+                        )}
+                      </div>
+                      <select
+                        value={rule.preset}
+                        onChange={(e) =>
+                          handleUpdateUserAgentRule(rule.id, {
+                            preset: e.target.value as UserAgentPreset,
+                          })
+                        }
+                        className={fieldClassName}
+                      >
+                        {userAgentPresetOptions.map((option) => (
+                          <option key={option.preset} value={option.preset}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      {!rule.isBuiltIn && (
+                        <button
+                          onClick={() => handleRemoveUserAgentRule(rule.id)}
+                          className={`p-2 rounded-lg transition-colors ${
+                            isDark
+                              ? "hover:bg-zinc-700 text-zinc-400 hover:text-red-400"
+                              : "hover:bg-zinc-100 text-zinc-600 hover:text-red-600"
+                          }`}
+                          title="Remove rule"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      )}
+                      <SettingsSwitch
+                        isDark={isDark}
+                        checked={rule.enabled}
+                        onChange={() => handleUpdateUserAgentRule(rule.id, { enabled: !rule.enabled })}
+                        title="Apply this rule"
+                      />
+                    </div>
+                    {rule.preset === "custom" && (
+                      <input
+                        key={`${rule.id}-${rule.customUserAgent ?? ""}`}
+                        type="text"
+                        defaultValue={rule.customUserAgent ?? ""}
+                        onBlur={(e) =>
+                          handleUpdateUserAgentRule(rule.id, { customUserAgent: e.target.value })
+                        }
+                        placeholder="User agent string"
+                        className={`${inputClassName} font-mono text-xs`}
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {/* Add rule */}
+              <div
+                className={`px-4 py-3 space-y-2 ${
+                  userAgentRules.length > 0
+                    ? isDark
+                      ? "border-t border-zinc-700"
+                      : "border-t border-zinc-200"
+                    : ""
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={userAgentForm.domain}
+                    onChange={(e) => setUserAgentForm({ ...userAgentForm, domain: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleAddUserAgentRule();
+                    }}
+                    placeholder="example.com"
+                    className={`flex-1 min-w-0 ${fieldClassName}`}
+                  />
+                  <select
+                    value={userAgentForm.preset}
+                    onChange={(e) =>
+                      setUserAgentForm({
+                        ...userAgentForm,
+                        preset: e.target.value as UserAgentPreset,
+                      })
+                    }
+                    className={fieldClassName}
+                  >
+                    {userAgentPresetOptions.map((option) => (
+                      <option key={option.preset} value={option.preset}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleAddUserAgentRule}
+                    className={`p-2 rounded-lg transition-colors ${
+                      isDark
+                        ? "hover:bg-zinc-700 text-white"
+                        : "hover:bg-zinc-100 text-zinc-900"
+                    }`}
+                    title="Add rule"
+                  >
+                    <Plus size={20} />
+                  </button>
+                </div>
+                {userAgentForm.preset === "custom" && (
+                  <input
+                    type="text"
+                    value={userAgentForm.customUserAgent ?? ""}
+                    onChange={(e) =>
+                      setUserAgentForm({ ...userAgentForm, customUserAgent: e.target.value })
+                    }
+                    placeholder="User agent string"
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                )}
+              </div>
+            </div>
+            <p
+              className={`px-4 pt-2 text-xs ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Rules also match subdomains, the most specific rule wins. Other sites get the
+              device's own user agent. Changes apply the next time a page loads.
+            </p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
+
+export default UserAgentSettings;
@@ -1,14 +1,44 @@
 import { useState, useEffect } from 'react';
+import { Wifi, Plane, Zap } from 'lucide-react';
+import DeviceCutout from './device-cutout';
+import type { DeviceOrientation, DeviceProfile, NetworkConditions } from '../../types/electron-api';
+import type { StatusBarConfig } from '../utils/status-bar-config';
+
+// Rotated landscape group whose end (the battery) is anchored to the screen edge the top of
+// the device faces, so longer contents grow towards the middle of the bar instead of past it
+const LANDSCAPE_LEFT_END_ANCHOR =
+  'right-1/2 origin-top-right [transform:rotate(-90deg)_translateY(-50%)] whitespace-nowrap';
+const LANDSCAPE_RIGHT_END_ANCHOR =
+  'right-1/2 origin-bottom-right [transform:rotate(90deg)_translateY(50%)] whitespace-nowrap';
 
 interface StatusBarProps {
   themeColor: string;
   textColor: string;
-  orientation: 'portrait' | 'landscape';
+  orientation: DeviceOrientation;
+  size: number; // Thickness of the status bar (height in portrait, width in landscape)
+  cutout: DeviceProfile['cutout'];
+  platform: DeviceProfile['platform'];
+  networkConditions: NetworkConditions | null;
+  config: StatusBarConfig;
 }
 
-function StatusBar({ themeColor, textColor, orientation }: StatusBarProps) {
-  const [time, setTime] = useState('9:41');
-  const isLandscape = orientation === 'landscape';
+function StatusBar({
+  themeColor,
+  textColor,
+  orientation,
+  size,
+  cutout,
+  platform,
+  networkConditions,
+  config,
+}: StatusBarProps) {
+  const [clockTime, setClockTime] = useState('9:41');
+  const isLandscape = orientation === 'landscape-left' || orientation === 'landscape-right';
+  const isLandscapeRight = orientation === 'landscape-right';
+  // Landscape-right reads top to bottom, with the bar on the right edge
+  const landscapeClass = (left: string, right: string) => (isLandscapeRight ? right : left);
+  const isThrottled = !!networkConditions && networkConditions.id !== 'no-throttling';
+  const time = config.time ?? clockTime;
 
   // Update time
   useEffect(() => {
@@ -16,42 +46,173 @@ function StatusBar({ themeColor, textColor, orientation }: StatusBarProps) {
       const now = new Date();
       const hours = now.getHours().toString().padStart(2, '0');
       const minutes = now.getMinutes().toString().padStart(2, '0');
-      setTime(`${hours}:${minutes}`);
+      setClockTime(`${hours}:${minutes}`);
     };
     updateTime();
     const interval = setInterval(updateTime, 60000);
     return () => clearInterval(interval);
   }, []);
 
+  // Signal bars and connection type; an active network throttling profile takes precedence
+  const renderNetworkIndicator = () => {
+    if (networkConditions?.offline) {
+      return <Plane size={14} strokeWidth={2.5} />;
+    }
+
+    const signalBars = isThrottled ? networkConditions.signalBars : config.signalBars;
+    return (
+      <>
+        <div className="flex items-end gap-[1.5px] h-[11px]">
+          {[1, 2, 3, 4].map((bar) => (
+            <div
+              key={bar}
+              className="w-[3px] rounded-[1px]"
+              style={{
+                height: `${bar * 25}%`,
+                backgroundColor: 'currentColor',
+                opacity: bar <= signalBars ? 1 : 0.3,
+              }}
+            />
+          ))}
+        </div>
+        {!isThrottled && config.carrier && (
+          <span className="text-[11px] font-semibold leading-none max-w-[56px] truncate">
+            {config.carrier}
+          </span>
+        )}
+        {isThrottled ? (
+          <span className="text-[11px] font-semibold leading-none">{networkConditions.label}</span>
+        ) : config.connection === 'cellular' ? (
+          <span className="text-[11px] font-semibold leading-none">{config.cellularType}</span>
+        ) : (
+          <Wifi size={14} strokeWidth={2.5} />
+        )}
+      </>
+    );
+  };
+
+  const renderBattery = () => {
+    const level = Math.max(0, Math.min(100, config.batteryLevel));
+    const fillColor = config.isCharging ? '#34c759' : level <= 20 ? '#ff3b30' : 'currentColor';
+
+    return (
+      <>
+        {platform === 'android' && (
+          <span className="text-[11px] font-medium leading-none">{level}%</span>
+        )}
+        <div className="flex items-center">
+          <div
+            className="relative w-[22px] h-[11px] rounded-[3px] border p-[1px]"
+            style={{ borderColor: 'currentColor' }}
+          >
+            <div
+              className="h-full rounded-[1.5px]"
+              style={{ width: `${level}%`, backgroundColor: fillColor }}
+            />
+            {config.isCharging && (
+              <Zap
+                size={9}
+                strokeWidth={0}
+                fill={themeColor}
+                className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2"
+              />
+            )}
+          </div>
+          <div className="w-[1.5px] h-[4px] rounded-r-[1px]" style={{ backgroundColor: 'currentColor' }} />
+        </div>
+      </>
+    );
+  };
+
   return (
     <div
       className={`absolute ${
         isLandscape
-          ? 'top-0 left-0 bottom-0 w-[58px] rounded-l-[32px]'
-          : 'top-0 left-0 right-0 h-[58px] rounded-t-[32px]'
+          ? landscapeClass(
+              'top-0 left-0 bottom-0 rounded-l-[var(--screen-radius)]',
+              'top-0 right-0 bottom-0 rounded-r-[var(--screen-radius)]'
+            )
+          : 'top-0 left-0 right-0 rounded-t-[var(--screen-radius)]'
       } flex items-center justify-center transition-colors duration-300`}
-      style={{ backgroundColor: themeColor, zIndex: 50, pointerEvents: 'none' }}
+      style={{
+        backgroundColor: themeColor,
+        zIndex: 50,
+        pointerEvents: 'none',
+        ...(isLandscape ? { width: size } : { height: size }),
+      }}
     >
-      {/* Dynamic Island */}
-      <div
-        className={`absolute bg-black z-20 ${
-          isLandscape
-            ? 'top-1/2 left-[11.5px] -translate-y-1/2 w-[35px] h-[120px] rounded-[20px]'
-            : 'top-[11.5px] left-1/2 -translate-x-1/2 w-[120px] h-[35px] rounded-[20px]'
-        }`}
-      />
-
-      {/* Time Display */}
-      <div
-        className={`absolute text-[15px] font-semibold tracking-tight z-15 ${
-          isLandscape
-            ? 'bottom-[calc((50%-60px)/2-10px)] left-1/2 -translate-x-1/2 -rotate-90 origin-center whitespace-nowrap'
-            : 'left-[calc((50%-60px)/2-35px)] top-1/2 -translate-y-1/2'
-        }`}
-        style={{ color: textColor }}
-      >
-        {time}
-      </div>
+      {/* Camera cutout, at the bottom of the screen (outside the status bar) when upside down */}
+      {orientation !== 'portrait-upside-down' && (
+        <DeviceCutout
+          cutout={cutout}
+          edge={isLandscape ? (isLandscapeRight ? 'right' : 'left') : 'top'}
+        />
+      )}
+
+      {platform === 'android' ? (
+        <>
+          {/* Android: clock at the start, system icons at the end */}
+          <div
+            className={`absolute text-[13px] font-medium z-15 ${
+              isLandscape
+                ? landscapeClass(
+                    'bottom-[24px] left-1/2 -translate-x-1/2 -rotate-90 origin-center whitespace-nowrap',
+                    'top-[24px] left-1/2 -translate-x-1/2 rotate-90 origin-center whitespace-nowrap'
+                  )
+                : 'left-[20px] top-1/2 -translate-y-1/2'
+            }`}
+            style={{ color: textColor }}
+          >
+            {time}
+          </div>
+          <div
+            className={`absolute flex items-center gap-1 z-15 ${
+              isLandscape
+                ? landscapeClass(
+                    `top-[20px] ${LANDSCAPE_LEFT_END_ANCHOR}`,
+                    `bottom-[20px] ${LANDSCAPE_RIGHT_END_ANCHOR}`
+                  )
+                : 'right-[20px] top-1/2 -translate-y-1/2'
+            }`}
+            style={{ color: textColor }}
+          >
+            {renderNetworkIndicator()}
+            {renderBattery()}
+          </div>
+        </>
+      ) : (
+        <>
+          {/* Time Display */}
+          <div
+            className={`absolute text-[15px] font-semibold tracking-tight z-15 ${
+              isLandscape
+                ? landscapeClass(
+                    'bottom-[calc((50%-60px)/2-10px)] left-1/2 -translate-x-1/2 -rotate-90 origin-center whitespace-nowrap',
+                    'top-[calc((50%-60px)/2-10px)] left-1/2 -translate-x-1/2 rotate-90 origin-center whitespace-nowrap'
+                  )
+                : 'left-[calc((50%-60px)/2-35px)] top-1/2 -translate-y-1/2'
+            }`}
+            style={{ color: textColor }}
+          >
+            {time}
+          </div>
+          {/* Signal, connection and battery */}
+          <div
+            className={`absolute flex items-center gap-[5px] z-15 ${
+              isLandscape
+                ? landscapeClass(
+                    `top-[calc((50%-60px)/2-35px)] ${LANDSCAPE_LEFT_END_ANCHOR}`,
+                    `bottom-[calc((50%-60px)/2-35px)] ${LANDSCAPE_RIGHT_END_ANCHOR}`
+                  )
+                : 'right-[calc((50%-60px)/2-35px)] top-1/2 -translate-y-1/2'
+            }`}
+            style={{ color: textColor }}
+          >
+            {renderNetworkIndicator()}
+            {renderBattery()}
+          </div>
+        </>
+      )}
     </div>
   );
 }
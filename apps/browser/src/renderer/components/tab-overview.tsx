@@ -1,12 +1,33 @@
 import { useState, useEffect } from "react";
+import { Globe, History, ChevronDown, ChevronRight, Ellipsis, Check, Pin, X } from "lucide-react";
+import type {
+  LocaleOverride,
+  RecentlyClosedTab,
+  TabGroup,
+  TabGroupColor,
+} from "../../types/electron-api";
 
 interface Tab {
   id: string;
   title: string;
   url: string;
   preview?: string;
+  localeOverride?: LocaleOverride;
+  groupId?: string;
+  pinned?: boolean;
 }
 
+const GROUP_COLORS: Record<TabGroupColor, string> = {
+  blue: "bg-blue-500",
+  green: "bg-green-500",
+  yellow: "bg-yellow-400",
+  orange: "bg-orange-500",
+  red: "bg-red-500",
+  purple: "bg-purple-500",
+  pink: "bg-pink-500",
+  gray: "bg-zinc-400",
+};
+
 interface TabOverviewProps {
   theme: "light" | "dark";
   orientation: "portrait" | "landscape";
@@ -16,6 +37,11 @@ interface TabOverviewProps {
 function TabOverview({ theme, orientation, onClose }: TabOverviewProps) {
   const [tabs, setTabs] = useState<Tab[]>([]);
   const [activeTabId, setActiveTabId] = useState<string | null>(null);
+  const [recentlyClosed, setRecentlyClosed] = useState<RecentlyClosedTab[]>([]);
+  const [groups, setGroups] = useState<TabGroup[]>([]);
+  const [menuTabId, setMenuTabId] = useState<string | null>(null);
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [groupNameDraft, setGroupNameDraft] = useState("");
 
   useEffect(() => {
     // Get initial tabs
@@ -34,8 +60,24 @@ function TabOverview({ theme, orientation, onClose }: TabOverviewProps) {
       }
     );
 
+    // Closed tabs that can be reopened
+    window.electronAPI?.tabs
+      .getRecentlyClosed()
+      .then((closedTabs: RecentlyClosedTab[]) => setRecentlyClosed(closedTabs));
+    const cleanupRecentlyClosed = window.electronAPI?.tabs.onRecentlyClosedUpdated(
+      (closedTabs: RecentlyClosedTab[]) => setRecentlyClosed(closedTabs)
+    );
+
+    // Tab groups
+    window.electronAPI?.tabs.getGroups().then((tabGroups: TabGroup[]) => setGroups(tabGroups));
+    const cleanupGroupsUpdated = window.electronAPI?.tabs.onGroupsUpdated(
+      (tabGroups: TabGroup[]) => setGroups(tabGroups)
+    );
+
     return () => {
       if (cleanupTabsUpdated) cleanupTabsUpdated();
+      if (cleanupRecentlyClosed) cleanupRecentlyClosed();
+      if (cleanupGroupsUpdated) cleanupGroupsUpdated();
     };
   }, []);
 
@@ -44,20 +86,78 @@ function TabOverview({ theme, orientation, onClose }: TabOverviewProps) {
     onClose();
   };
 
-  const handleTabClose = (e: React.MouseEvent, tabId: string) => {
+  const handleTabClose = async (e: React.MouseEvent, tabId: string) => {
     e.stopPropagation();
 
     // If this is the last tab or the active tab, close the overview after closing the tab
-    if (tabs.length === 1 || tabId === activeTabId) {
-      window.electronAPI?.tabs.close(tabId);
-      onClose();
-    } else {
-      window.electronAPI?.tabs.close(tabId);
+    const closesOverview = tabs.length === 1 || tabId === activeTabId;
+    try {
+      const closed = await window.electronAPI?.tabs.close(tabId);
+      if (closed && closesOverview) onClose();
+    } catch (error) {
+      console.error("Failed to close tab:", error);
+    }
+  };
+
+  const handleNewTab = (groupId: string | null) => {
+    window.electronAPI?.tabs.create(undefined, groupId);
+    onClose();
+  };
+
+  const handleToggleTabMenu = (e: React.MouseEvent, tabId: string) => {
+    e.stopPropagation();
+    setMenuTabId(menuTabId === tabId ? null : tabId);
+  };
+
+  const handleSetPinned = (e: React.MouseEvent, tabId: string, pinned: boolean) => {
+    e.stopPropagation();
+    setMenuTabId(null);
+    window.electronAPI?.tabs.setPinned(tabId, pinned);
+  };
+
+  const handleMoveToNewGroup = async (tabId: string) => {
+    setMenuTabId(null);
+    try {
+      const group = await window.electronAPI?.tabs.createGroup("", [tabId]);
+      if (group) handleStartRenameGroup(group);
+    } catch (error) {
+      console.error("Failed to create tab group:", error);
+    }
+  };
+
+  const handleMoveToGroup = (tabId: string, groupId: string | null) => {
+    setMenuTabId(null);
+    window.electronAPI?.tabs.setGroup(tabId, groupId);
+  };
+
+  const handleStartRenameGroup = (group: TabGroup) => {
+    setEditingGroupId(group.id);
+    setGroupNameDraft(group.name);
+  };
+
+  const handleFinishRenameGroup = () => {
+    if (editingGroupId && groupNameDraft.trim()) {
+      window.electronAPI?.tabs.updateGroup(editingGroupId, { name: groupNameDraft });
     }
+    setEditingGroupId(null);
+  };
+
+  const handleSetGroupColor = (groupId: string, color: TabGroupColor) => {
+    window.electronAPI?.tabs.updateGroup(groupId, { color });
   };
 
-  const handleNewTab = () => {
-    window.electronAPI?.tabs.create();
+  const handleToggleGroupCollapsed = (group: TabGroup) => {
+    window.electronAPI?.tabs.updateGroup(group.id, { collapsed: !group.collapsed });
+  };
+
+  const handleCloseGroup = (groupId: string) => {
+    const closesActiveTab = tabs.some((tab) => tab.groupId === groupId && tab.id === activeTabId);
+    window.electronAPI?.tabs.closeGroup(groupId);
+    if (closesActiveTab) onClose();
+  };
+
+  const handleReopenClosed = (closedTabId: string) => {
+    window.electronAPI?.tabs.reopenClosed(closedTabId);
     onClose();
   };
 
@@ -78,6 +178,307 @@ function TabOverview({ theme, orientation, onClose }: TabOverviewProps) {
   const isDark = theme === "dark";
   const isLandscape = orientation === "landscape";
 
+  const renderTabCard = (tab: Tab) => (
+    <div
+      key={tab.id}
+      onClick={() => handleTabClick(tab.id)}
+      className={`relative rounded-xl overflow-hidden cursor-pointer transition-all duration-200 ${
+        activeTabId === tab.id
+          ? isDark
+            ? "bg-zinc-800 ring-2 ring-white shadow-lg"
+            : "bg-white ring-2 ring-zinc-600 shadow-lg"
+          : isDark
+            ? "bg-zinc-800 hover:bg-zinc-700 shadow-md"
+            : "bg-white hover:bg-zinc-50 shadow-md"
+      }`}
+      style={{ aspectRatio: "3/4" }}
+    >
+      {/* Tab Preview Area */}
+      <div
+        className={`h-3/4 flex items-center justify-center overflow-hidden ${
+          isDark ? "bg-zinc-900" : "bg-zinc-100"
+        }`}
+      >
+        {tab.preview ? (
+          <img
+            src={tab.preview}
+            alt={tab.title}
+            className="w-full h-full object-cover"
+          />
+        ) : (
+          <div className="text-center px-4">
+            <div
+              className={`text-4xl mb-2 ${
+                isDark ? "text-zinc-600" : "text-zinc-400"
+              }`}
+            >
+              🌐
+            </div>
+            <div
+              className={`text-xs font-medium truncate ${
+                isDark ? "text-zinc-400" : "text-zinc-600"
+              }`}
+            >
+              {getDomainFromUrl(tab.url)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Tab Info */}
+      <div className="h-1/4 px-3 py-2 flex flex-col justify-center">
+        <div
+          className={`text-sm font-medium truncate leading-tight mb-0.5 ${
+            isDark ? "text-white" : "text-zinc-900"
+          }`}
+        >
+          {tab.title}
+        </div>
+        <div
+          className={`text-xs truncate leading-tight ${
+            isDark ? "text-zinc-400" : "text-zinc-600"
+          }`}
+        >
+          {getDomainFromUrl(tab.url)}
+        </div>
+      </div>
+
+      {/* Locale override badge */}
+      {tab.localeOverride && (
+        <div
+          className={`absolute top-2 left-2 max-w-[calc(100%-5rem)] px-2 py-0.5 rounded-full flex items-center gap-1 text-[10px] font-medium backdrop-blur-sm ${
+            isDark ? "bg-zinc-900/80 text-zinc-300" : "bg-white/80 text-zinc-700"
+          }`}
+          title="Locale override"
+        >
+          <Globe size={10} className="flex-shrink-0" />
+          <span className="truncate">
+            {[tab.localeOverride.locale, tab.localeOverride.timezone]
+              .filter(Boolean)
+              .join(" · ") || tab.localeOverride.acceptLanguage}
+          </span>
+        </div>
+      )}
+
+      {/* Close Button, pinned tabs have to be unpinned first */}
+      {tab.pinned ? (
+        <button
+          onClick={(e) => handleSetPinned(e, tab.id, false)}
+          title="Unpin tab"
+          className={`absolute top-2 right-2 w-6 h-6 rounded-full flex items-center justify-center transition-all ${
+            isDark
+              ? "bg-zinc-900/80 hover:bg-zinc-700 text-blue-400"
+              : "bg-white/80 hover:bg-zinc-200 text-blue-600"
+          } backdrop-blur-sm`}
+        >
+          <Pin size={12} />
+        </button>
+      ) : (
+        <button
+          onClick={(e) => handleTabClose(e, tab.id)}
+          className={`absolute top-2 right-2 w-6 h-6 rounded-full flex items-center justify-center transition-all ${
+            isDark
+              ? "bg-zinc-900/80 hover:bg-red-600 text-zinc-400 hover:text-white"
+              : "bg-white/80 hover:bg-red-500 text-zinc-600 hover:text-white"
+          } backdrop-blur-sm`}
+        >
+          <svg
+            width="12"
+            height="12"
+            viewBox="0 0 12 12"
+            fill="none"
+            xmlns="http://www.w3.org/2000/svg"
+          >
+            <path
+              d="M2 2L10 10M10 2L2 10"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+            />
+          </svg>
+        </button>
+      )}
+
+      {/* Tab Menu Button */}
+      <button
+        onClick={(e) => handleToggleTabMenu(e, tab.id)}
+        title="Tab options"
+        className={`absolute top-2 right-10 w-6 h-6 rounded-full flex items-center justify-center transition-all ${
+          isDark
+            ? "bg-zinc-900/80 hover:bg-zinc-700 text-zinc-400 hover:text-white"
+            : "bg-white/80 hover:bg-zinc-200 text-zinc-600 hover:text-zinc-900"
+        } backdrop-blur-sm`}
+      >
+        <Ellipsis size={12} />
+      </button>
+
+      {/* Tab Menu: pinning and tab groups */}
+      {menuTabId === tab.id && (
+        <div
+          onClick={(e) => e.stopPropagation()}
+          className={`absolute top-10 right-2 left-2 z-10 max-h-[calc(100%-3rem)] rounded-xl overflow-y-auto shadow-lg text-sm ${
+            isDark ? "bg-zinc-700 text-white" : "bg-white text-zinc-900"
+          }`}
+        >
+          <button
+            onClick={(e) => handleSetPinned(e, tab.id, !tab.pinned)}
+            className={`w-full px-3 py-2 text-left transition-colors ${
+              isDark ? "hover:bg-zinc-600" : "hover:bg-zinc-100"
+            }`}
+          >
+            {tab.pinned ? "Unpin Tab" : "Pin Tab"}
+          </button>
+          {!tab.pinned && (
+            <>
+              <button
+                onClick={() => handleMoveToNewGroup(tab.id)}
+                className={`w-full px-3 py-2 text-left transition-colors ${
+                  isDark ? "hover:bg-zinc-600" : "hover:bg-zinc-100"
+                }`}
+              >
+                New Tab Group
+              </button>
+              {groups.map((group) => (
+                <button
+                  key={group.id}
+                  onClick={() => handleMoveToGroup(tab.id, group.id)}
+                  className={`w-full px-3 py-2 flex items-center gap-2 text-left transition-colors ${
+                    isDark ? "hover:bg-zinc-600" : "hover:bg-zinc-100"
+                  }`}
+                >
+                  <span
+                    className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${GROUP_COLORS[group.color]}`}
+                  />
+                  <span className="flex-1 truncate">{group.name}</span>
+                  {tab.groupId === group.id && <Check size={14} className="flex-shrink-0" />}
+                </button>
+              ))}
+              {tab.groupId && (
+                <button
+                  onClick={() => handleMoveToGroup(tab.id, null)}
+                  className={`w-full px-3 py-2 text-left transition-colors ${
+                    isDark ? "hover:bg-zinc-600" : "hover:bg-zinc-100"
+                  }`}
+                >
+                  Remove from Group
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderNewTabCard = (groupId: string | null) => (
+    <div
+      onClick={() => handleNewTab(groupId)}
+      className={`rounded-xl overflow-hidden cursor-pointer transition-all duration-200 flex items-center justify-center ${
+        isDark
+          ? "bg-zinc-800 hover:bg-zinc-700 border-2 border-dashed border-zinc-600"
+          : "bg-white hover:bg-zinc-50 border-2 border-dashed border-zinc-300"
+      }`}
+      style={{ aspectRatio: "3/4" }}
+    >
+      <div className="text-center">
+        <div
+          className={`text-5xl mb-2 ${
+            isDark ? "text-zinc-600" : "text-zinc-400"
+          }`}
+        >
+          +
+        </div>
+        <div
+          className={`text-sm font-medium ${
+            isDark ? "text-zinc-400" : "text-zinc-600"
+          }`}
+        >
+          New Tab
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderGroupHeader = (group: TabGroup, tabCount: number) => (
+    <div className="mb-3">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => handleToggleGroupCollapsed(group)}
+          title={group.collapsed ? "Expand group" : "Collapse group"}
+          className={`p-1 rounded-lg transition-colors ${
+            isDark ? "hover:bg-zinc-800 text-zinc-400" : "hover:bg-zinc-200 text-zinc-600"
+          }`}
+        >
+          {group.collapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}
+        </button>
+        <span className={`w-3 h-3 rounded-full flex-shrink-0 ${GROUP_COLORS[group.color]}`} />
+        {editingGroupId === group.id ? (
+          <input
+            type="text"
+            value={groupNameDraft}
+            onChange={(e) => setGroupNameDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleFinishRenameGroup();
+              if (e.key === "Escape") setEditingGroupId(null);
+            }}
+            onBlur={handleFinishRenameGroup}
+            autoFocus
+            className={`flex-1 min-w-0 px-2 py-1 rounded-lg text-sm font-semibold outline-none ${
+              isDark ? "bg-zinc-800 text-white" : "bg-white text-zinc-900"
+            }`}
+          />
+        ) : (
+          <button
+            onClick={() => handleStartRenameGroup(group)}
+            title="Rename group"
+            className={`min-w-0 text-sm font-semibold truncate ${
+              isDark ? "text-white" : "text-zinc-900"
+            }`}
+          >
+            {group.name}
+          </button>
+        )}
+        <span className={`text-xs flex-shrink-0 ${isDark ? "text-zinc-500" : "text-zinc-600"}`}>
+          {tabCount}
+        </span>
+        <div className="flex-1" />
+        <button
+          onClick={() => handleCloseGroup(group.id)}
+          title="Close group and its tabs"
+          className={`p-1 rounded-lg transition-colors ${
+            isDark
+              ? "hover:bg-zinc-800 text-zinc-400 hover:text-red-400"
+              : "hover:bg-zinc-200 text-zinc-600 hover:text-red-600"
+          }`}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Color choice while renaming */}
+      {editingGroupId === group.id && (
+        <div className="flex items-center gap-2 pl-9 pt-2">
+          {(Object.keys(GROUP_COLORS) as TabGroupColor[]).map((color) => (
+            <button
+              key={color}
+              // Keep the name field focused so picking a color doesn't end renaming
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => handleSetGroupColor(group.id, color)}
+              title={color}
+              className={`w-5 h-5 rounded-full ${GROUP_COLORS[color]} ${
+                group.color === color
+                  ? isDark
+                    ? "ring-2 ring-offset-2 ring-white ring-offset-zinc-900"
+                    : "ring-2 ring-offset-2 ring-zinc-600 ring-offset-zinc-100"
+                  : ""
+              }`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div
       className={`absolute inset-0 z-50 flex flex-col ${
@@ -127,133 +528,94 @@ function TabOverview({ theme, orientation, onClose }: TabOverviewProps) {
       {/* Tab Grid */}
       <div
         className="flex-1 overflow-y-auto p-6"
-        onClick={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          setMenuTabId(null);
+        }}
       >
         <div
           className={`grid gap-4 ${
             isLandscape ? "grid-cols-3" : "grid-cols-2"
           }`}
         >
-          {tabs.map((tab) => (
-            <div
-              key={tab.id}
-              onClick={() => handleTabClick(tab.id)}
-              className={`relative rounded-xl overflow-hidden cursor-pointer transition-all duration-200 ${
-                activeTabId === tab.id
-                  ? isDark
-                    ? "bg-zinc-800 ring-2 ring-white shadow-lg"
-                    : "bg-white ring-2 ring-zinc-600 shadow-lg"
-                  : isDark
-                    ? "bg-zinc-800 hover:bg-zinc-700 shadow-md"
-                    : "bg-white hover:bg-zinc-50 shadow-md"
-              }`}
-              style={{ aspectRatio: "3/4" }}
-            >
-              {/* Tab Preview Area */}
-              <div
-                className={`h-3/4 flex items-center justify-center overflow-hidden ${
-                  isDark ? "bg-zinc-900" : "bg-zinc-100"
-                }`}
-              >
-                {tab.preview ? (
-                  <img
-                    src={tab.preview}
-                    alt={tab.title}
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="text-center px-4">
-                    <div
-                      className={`text-4xl mb-2 ${
-                        isDark ? "text-zinc-600" : "text-zinc-400"
-                      }`}
-                    >
-                      🌐
-                    </div>
-                    <div
-                      className={`text-xs font-medium truncate ${
-                        isDark ? "text-zinc-400" : "text-zinc-600"
-                      }`}
-                    >
-                      {getDomainFromUrl(tab.url)}
-                    </div>
-                  </div>
-                )}
-              </div>
+          {tabs.filter((tab) => !tab.groupId).map(renderTabCard)}
 
-              {/* Tab Info */}
-              <div className="h-1/4 px-3 py-2 flex flex-col justify-center">
-                <div
-                  className={`text-sm font-medium truncate leading-tight mb-0.5 ${
-                    isDark ? "text-white" : "text-zinc-900"
-                  }`}
-                >
-                  {tab.title}
-                </div>
+          {/* New Tab Card */}
+          {renderNewTabCard(null)}
+        </div>
+
+        {/* Tab Groups */}
+        {groups.map((group) => {
+          const groupTabs = tabs.filter((tab) => tab.groupId === group.id);
+          return (
+            <div key={group.id} className="mt-6">
+              {renderGroupHeader(group, groupTabs.length)}
+              {!group.collapsed && (
                 <div
-                  className={`text-xs truncate leading-tight ${
-                    isDark ? "text-zinc-400" : "text-zinc-600"
+                  className={`grid gap-4 ${
+                    isLandscape ? "grid-cols-3" : "grid-cols-2"
                   }`}
                 >
-                  {getDomainFromUrl(tab.url)}
+                  {groupTabs.map(renderTabCard)}
+                  {renderNewTabCard(group.id)}
                 </div>
-              </div>
-
-              {/* Close Button */}
-              <button
-                onClick={(e) => handleTabClose(e, tab.id)}
-                className={`absolute top-2 right-2 w-6 h-6 rounded-full flex items-center justify-center transition-all ${
-                  isDark
-                    ? "bg-zinc-900/80 hover:bg-red-600 text-zinc-400 hover:text-white"
-                    : "bg-white/80 hover:bg-red-500 text-zinc-600 hover:text-white"
-                } backdrop-blur-sm`}
-              >
-                <svg
-                  width="12"
-                  height="12"
-                  viewBox="0 0 12 12"
-                  fill="none"
-                  xmlns="http://www.w3.org/2000/svg"
-                >
-                  <path
-                    d="M2 2L10 10M10 2L2 10"
-                    stroke="currentColor"
-                    strokeWidth="2"
-                    strokeLinecap="round"
-                  />
-                </svg>
-              </button>
+              )}
             </div>
-          ))}
+          );
+        })}
 
-          {/* New Tab Card */}
-          <div
-            onClick={handleNewTab}
-            className={`rounded-xl overflow-hidden cursor-pointer transition-all duration-200 flex items-center justify-center ${
-              isDark
-                ? "bg-zinc-800 hover:bg-zinc-700 border-2 border-dashed border-zinc-600"
-                : "bg-white hover:bg-zinc-50 border-2 border-dashed border-zinc-300"
-            }`}
-            style={{ aspectRatio: "3/4" }}
-          >
-            <div className="text-center">
-              <div
-                className={`text-5xl mb-2 ${
-                  isDark ? "text-zinc-600" : "text-zinc-400"
-                }`}
-              >
-                +
-              </div>
-              <div
-                className={`text-sm font-medium ${
-                  isDark ? "text-zinc-400" : "text-zinc-600"
-                }`}
-              >
-                New Tab
-              </div>
+        {/* Recently Closed */}
+        {recentlyClosed.length > 0 && (
+          <div className="mt-6">
+            <div
+              className={`px-1 pb-2 text-xs font-semibold uppercase tracking-wider ${
+                isDark ? "text-zinc-500" : "text-zinc-600"
+              }`}
+            >
+              Recently Closed
+            </div>
+            <div
+              className={`rounded-xl overflow-hidden shadow-md ${
+                isDark ? "bg-zinc-800" : "bg-white"
+              }`}
+            >
+              {recentlyClosed.map((closedTab, index) => (
+                <div key={closedTab.id}>
+                  {index > 0 && (
+                    <div className={`h-px mx-4 ${isDark ? "bg-zinc-700" : "bg-zinc-200"}`} />
+                  )}
+                  <button
+                    onClick={() => handleReopenClosed(closedTab.id)}
+                    className={`w-full px-4 py-3 flex items-center gap-3 text-left transition-colors ${
+                      isDark ? "hover:bg-zinc-700" : "hover:bg-zinc-50"
+                    }`}
+                  >
+                    <History
+                      size={16}
+                      className={`flex-shrink-0 ${isDark ? "text-zinc-400" : "text-zinc-600"}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div
+                        className={`text-sm font-medium truncate ${
+                          isDark ? "text-white" : "text-zinc-900"
+                        }`}
+                      >
+                        {closedTab.title}
+                      </div>
+                      <div
+                        className={`text-xs truncate ${
+                          isDark ? "text-zinc-400" : "text-zinc-600"
+                        }`}
+                      >
+                        {getDomainFromUrl(closedTab.url)}
+                      </div>
+                    </div>
+                  </button>
+                </div>
+              ))}
             </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { ArrowBigUp, Delete, ChevronUp, ChevronDown } from 'lucide-react';
+import type { VirtualKeyboardFocus } from '../../types/electron-api';
+import { VIRTUAL_KEYBOARD_ACCESSORY_HEIGHT } from '../utils/device-layout';
+
+interface VirtualKeyboardProps {
+  focus: VirtualKeyboardFocus;
+  theme: 'light' | 'dark';
+  height: number; // Keys plus the accessory bar
+  onKey: (key: string) => void;
+  onDismiss: () => void;
+}
+
+const LETTER_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+const SYMBOL_ROWS = ['1234567890', '-/:;()$&@"', ".,?!'"];
+
+// Number pads for numeric, decimal and tel input modes
+const PAD_ROWS: Record<string, string[][]> = {
+  numeric: [['1', '2', '3'], ['4', '5', '6'], ['7', '8', '9'], ['', '0', 'Backspace']],
+  decimal: [['1', '2', '3'], ['4', '5', '6'], ['7', '8', '9'], ['.', '0', 'Backspace']],
+  tel: [['1', '2', '3'], ['4', '5', '6'], ['7', '8', '9'], ['+*#', '0', 'Backspace']],
+};
+
+// Return key label per enterkeyhint
+const ENTER_KEY_LABELS: Record<string, string> = {
+  enter: 'return',
+  done: 'done',
+  go: 'go',
+  next: 'next',
+  previous: 'return',
+  search: 'search',
+  send: 'send',
+};
+
+function VirtualKeyboard({ focus, theme, height, onKey, onDismiss }: VirtualKeyboardProps) {
+  const [isShifted, setIsShifted] = useState(false);
+  const [isSymbols, setIsSymbols] = useState(false);
+  const isDark = theme === 'dark';
+  const enterKeyHint = focus.enterKeyHint in ENTER_KEY_LABELS ? focus.enterKeyHint : 'enter';
+  const isActionKey = enterKeyHint !== 'enter' && enterKeyHint !== 'previous';
+
+  const keyClassName = `flex-1 h-full rounded-[5px] flex items-center justify-center text-[20px] shadow-[0_1px_0_rgba(0,0,0,0.35)] select-none ${
+    isDark ? 'bg-[#6b6b6b] text-white active:bg-[#4a4a4a]' : 'bg-white text-black active:bg-[#aeb3be]'
+  }`;
+  const functionKeyClassName = `h-full rounded-[5px] flex items-center justify-center text-[15px] shadow-[0_1px_0_rgba(0,0,0,0.35)] select-none ${
+    isDark ? 'bg-[#464646] text-white active:bg-[#6b6b6b]' : 'bg-[#aeb3be] text-black active:bg-white'
+  }`;
+
+  // Keep focus in the page: pressing keys must not blur the field
+  const press = (handler: () => void) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    handler();
+  };
+
+  const typeCharacter = (character: string) => {
+    onKey(isShifted ? character.toUpperCase() : character);
+    setIsShifted(false);
+  };
+
+  const renderEnterKey = (className: string) => (
+    <button
+      onMouseDown={press(() => onKey('Enter'))}
+      className={`${className} ${isActionKey ? '!bg-[#0a84ff] !text-white' : ''}`}
+    >
+      {ENTER_KEY_LABELS[enterKeyHint]}
+    </button>
+  );
+
+  const renderPad = (rows: string[][]) => (
+    <div className="flex flex-col gap-[6px] h-full px-[6px] py-[6px]">
+      {rows.map((row, rowIndex) => (
+        <div key={rowIndex} className="flex gap-[6px] flex-1">
+          {row.map((key, keyIndex) =>
+            key === 'Backspace' ? (
+              <button
+                key={keyIndex}
+                onMouseDown={press(() => onKey('Backspace'))}
+                className={`${functionKeyClassName} flex-1`}
+              >
+                <Delete size={22} />
+              </button>
+            ) : key === '' ? (
+              <div key={keyIndex} className="flex-1" />
+            ) : (
+              <button
+                key={keyIndex}
+                // "+*#" cycles like the iOS phone pad; here it types "+"
+                onMouseDown={press(() => onKey(key[0]))}
+                className={keyClassName}
+              >
+                {key}
+              </button>
+            )
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderLetters = () => {
+    const rows = isSymbols ? SYMBOL_ROWS : LETTER_ROWS;
+    const inputMode = focus.inputMode;
+
+    return (
+      <div className="flex flex-col gap-[10px] h-full px-[3px] pt-[8px] pb-[4px]">
+        {rows.map((row, rowIndex) => (
+          <div key={row} className={`flex gap-[6px] flex-1 ${rowIndex === 1 && !isSymbols ? 'px-[18px]' : ''}`}>
+            {rowIndex === 2 && (
+              <button
+                onMouseDown={press(() =>
+                  isSymbols ? setIsSymbols(false) : setIsShifted(!isShifted)
+                )}
+                className={`${functionKeyClassName} w-[42px] mr-[8px]`}
+              >
+                {isSymbols ? 'ABC' : <ArrowBigUp size={22} fill={isShifted ? 'currentColor' : 'none'} />}
+              </button>
+            )}
+            {row.split('').map((character) => (
+              <button key={character} onMouseDown={press(() => typeCharacter(character))} className={keyClassName}>
+                {isShifted ? character.toUpperCase() : character}
+              </button>
+            ))}
+            {rowIndex === 2 && (
+              <button
+                onMouseDown={press(() => onKey('Backspace'))}
+                className={`${functionKeyClassName} w-[42px] ml-[8px]`}
+              >
+                <Delete size={22} />
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="flex gap-[6px] flex-1">
+          <button
+            onMouseDown={press(() => setIsSymbols(!isSymbols))}
+            className={`${functionKeyClassName} w-[88px]`}
+          >
+            {isSymbols ? 'ABC' : '123'}
+          </button>
+          {inputMode === 'email' && (
+            <button onMouseDown={press(() => onKey('@'))} className={`${keyClassName} !flex-none w-[44px]`}>
+              @
+            </button>
+          )}
+          {inputMode === 'url' && (
+            <button onMouseDown={press(() => onKey('/'))} className={`${keyClassName} !flex-none w-[44px]`}>
+              /
+            </button>
+          )}
+          <button onMouseDown={press(() => onKey(' '))} className={`${keyClassName} text-[15px]`}>
+            {inputMode === 'email' || inputMode === 'url' ? '' : 'space'}
+          </button>
+          {(inputMode === 'email' || inputMode === 'url') && (
+            <button onMouseDown={press(() => onKey('.'))} className={`${keyClassName} !flex-none w-[44px]`}>
+              .
+            </button>
+          )}
+          {renderEnterKey(`${functionKeyClassName} w-[88px]`)}
+        </div>
+      </div>
+    );
+  };
+
+  const padRows = PAD_ROWS[focus.inputMode];
+
+  return (
+    <div
+      className={`absolute left-0 right-0 bottom-0 flex flex-col pointer-events-auto ${
+        isDark ? 'bg-[#2b2b2b]' : 'bg-[#d1d4da]'
+      }`}
+      style={{ height, zIndex: 60 }}
+    >
+      {/* Form accessory bar (previous / next / done), like Safari */}
+      <div
+        className={`flex items-center justify-between px-3 border-b ${
+          isDark ? 'bg-[#1f1f1f] border-black/40 text-[#0a84ff]' : 'bg-[#f0f1f3] border-black/10 text-[#007aff]'
+        }`}
+        style={{ height: VIRTUAL_KEYBOARD_ACCESSORY_HEIGHT }}
+      >
+        <div className="flex items-center gap-4 opacity-40">
+          <ChevronUp size={22} />
+          <ChevronDown size={22} />
+        </div>
+        <button onMouseDown={press(onDismiss)} className="text-[16px] font-semibold">
+          Done
+        </button>
+      </div>
+      <div className="flex-1 min-h-0">{padRows ? renderPad(padRows) : renderLetters()}</div>
+    </div>
+  );
+}
+
+export default VirtualKeyboard;
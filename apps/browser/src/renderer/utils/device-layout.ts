@@ -0,0 +1,102 @@
+import type { DeviceOrientation, DeviceProfile } from "../../types/electron-api";
+
+export interface ScreenInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Android navigation bar thickness per style
+const NAVIGATION_BAR_SIZES: Record<DeviceProfile["navigationBar"], number> = {
+  gesture: 24,
+  "three-button": 48,
+  none: 0,
+};
+
+export function getNavigationBarSize(profile: DeviceProfile | null): number {
+  return NAVIGATION_BAR_SIZES[profile?.navigationBar ?? "none"];
+}
+
+/**
+ * Screen edges occupied by the status bar and navigation bar of the skin.
+ * Falls back to iPhone 15 Pro geometry until the profile arrives from main.
+ */
+export function getSystemBarInsets(
+  profile: DeviceProfile | null,
+  orientation: DeviceOrientation
+): ScreenInsets {
+  const statusBarSize = profile?.safeAreaInsets.top ?? 58;
+  const navigationBarSize = getNavigationBarSize(profile);
+
+  if (orientation === "portrait") {
+    return { top: statusBarSize, right: 0, bottom: navigationBarSize, left: 0 };
+  }
+
+  // Upside down: the cutout at the bottom edge is letterboxed below the navigation bar
+  if (orientation === "portrait-upside-down") {
+    const cutoutSize = getCutoutStripSize(profile);
+    return { top: statusBarSize, right: 0, bottom: navigationBarSize + cutoutSize, left: 0 };
+  }
+
+  // Landscape: the status bar follows the top of the device,
+  // three-button navigation docks to the opposite edge
+  const isSideNavigation = profile?.navigationBar === "three-button";
+  const sideNavigationSize = isSideNavigation ? navigationBarSize : 0;
+  const isLeft = orientation === "landscape-left";
+  return {
+    top: 0,
+    right: isLeft ? sideNavigationSize : statusBarSize,
+    bottom: isSideNavigation ? 0 : navigationBarSize,
+    left: isLeft ? statusBarSize : sideNavigationSize,
+  };
+}
+
+/**
+ * Thickness of the strip that hides the cutout when the device is upside down
+ */
+export function getCutoutStripSize(profile: DeviceProfile | null): number {
+  if (profile?.cutout === "none") return 0;
+  return profile?.safeAreaInsets.top ?? 58;
+}
+
+export function isLandscapeOrientation(orientation: DeviceOrientation): boolean {
+  return orientation === "landscape-left" || orientation === "landscape-right";
+}
+
+/**
+ * Whether pages can be shown upside down: iPhones keep portrait-up, Android phones rotate freely
+ */
+export function supportsUpsideDown(profile: DeviceProfile | null): boolean {
+  return profile?.platform === "android";
+}
+
+/**
+ * WebContentsView bounds for the screen area left over by the system bars
+ */
+export function getWebContentBounds(rect: DOMRect, insets: ScreenInsets) {
+  return {
+    x: Math.round(rect.x + insets.left),
+    y: Math.round(rect.y + insets.top),
+    width: Math.round(rect.width - insets.left - insets.right),
+    height: Math.round(rect.height - insets.top - insets.bottom),
+  };
+}
+
+// Height of the form accessory bar shown above the virtual keyboard
+export const VIRTUAL_KEYBOARD_ACCESSORY_HEIGHT = 44;
+
+/**
+ * Height of the virtual keyboard (keys plus accessory bar) for the focused element's
+ * inputmode, or 0 when no keyboard is shown
+ */
+export function getVirtualKeyboardHeight(
+  inputMode: string | null,
+  orientation: "portrait" | "landscape"
+): number {
+  if (!inputMode || inputMode === "none") return 0;
+
+  const isPad = inputMode === "numeric" || inputMode === "decimal" || inputMode === "tel";
+  const keysHeight = orientation === "portrait" ? (isPad ? 216 : 250) : isPad ? 162 : 172;
+  return keysHeight + VIRTUAL_KEYBOARD_ACCESSORY_HEIGHT;
+}
@@ -0,0 +1,51 @@
+export interface StatusBarConfig {
+  time: string | null; // Fixed time text, null shows the real clock
+  batteryLevel: number; // 0-100
+  isCharging: boolean;
+  signalBars: number; // 0-4
+  connection: "wifi" | "cellular";
+  cellularType: string; // Shown instead of the Wi-Fi icon on cellular, e.g. "5G"
+  carrier: string; // Empty hides the carrier name
+}
+
+const STORAGE_KEY = "statusBarConfig";
+
+// Real clock with a full battery and signal, as the status bar always looked
+export const DEFAULT_STATUS_BAR_CONFIG: StatusBarConfig = {
+  time: null,
+  batteryLevel: 100,
+  isCharging: false,
+  signalBars: 4,
+  connection: "wifi",
+  cellularType: "5G",
+  carrier: "",
+};
+
+// Apple's marketing screenshot status bar
+export const DEMO_STATUS_BAR_CONFIG: StatusBarConfig = {
+  ...DEFAULT_STATUS_BAR_CONFIG,
+  time: "9:41",
+};
+
+export function loadStatusBarConfig(): StatusBarConfig {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_STATUS_BAR_CONFIG, ...JSON.parse(saved) } : DEFAULT_STATUS_BAR_CONFIG;
+  } catch (error) {
+    console.error("Failed to load status bar config:", error);
+    return DEFAULT_STATUS_BAR_CONFIG;
+  }
+}
+
+export function saveStatusBarConfig(config: StatusBarConfig): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+/**
+ * Whether the config matches the demo mode preset
+ */
+export function isDemoStatusBar(config: StatusBarConfig): boolean {
+  return (Object.keys(DEMO_STATUS_BAR_CONFIG) as Array<keyof StatusBarConfig>).every(
+    (key) => config[key] === DEMO_STATUS_BAR_CONFIG[key]
+  );
+}
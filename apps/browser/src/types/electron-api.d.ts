@@ -7,6 +7,19 @@ interface Tab {
   url: string;
   title: string;
   favicon?: string;
+  preview?: string;
+  localeOverride?: LocaleOverride;
+  groupId?: string;
+  pinned?: boolean;
+}
+
+export type TabGroupColor = "blue" | "green" | "yellow" | "orange" | "red" | "purple" | "pink" | "gray";
+
+export interface TabGroup {
+  id: string;
+  name: string;
+  color: TabGroupColor;
+  collapsed: boolean;
 }
 
 interface TabsData {
@@ -19,6 +32,21 @@ interface TabChangedData {
   tabs: Tab[];
 }
 
+export interface RecentlyClosedTab {
+  id: string;
+  title: string;
+  url: string;
+  closedAt: number;
+}
+
+// 0 turns a limit off
+export interface TabDiscardSettings {
+  enabled: boolean;
+  inactiveMinutes: number;
+  maxLoadedTabs: number;
+  memoryLimitMB: number;
+}
+
 interface Bounds {
   x: number;
   y: number;
@@ -35,6 +63,144 @@ interface Bookmark {
   updatedAt: number;
 }
 
+// Landscape-left has the top of the device (and its cutout) on the left
+export type DeviceOrientation =
+  | "portrait"
+  | "portrait-upside-down"
+  | "landscape-left"
+  | "landscape-right";
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  platform: "ios" | "android";
+  viewport: {
+    width: number;
+    height: number;
+  };
+  devicePixelRatio: number;
+  userAgent: string;
+  safeAreaInsets: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  cutout: "dynamic-island" | "notch" | "punch-hole" | "none";
+  navigationBar: "gesture" | "three-button" | "none";
+  cornerRadius: number;
+  isCustom?: boolean;
+}
+
+export interface NetworkConditions {
+  id: string;
+  name: string;
+  offline: boolean;
+  latency: number;
+  downloadKbps: number;
+  uploadKbps: number;
+  label: string;
+  signalBars: number;
+}
+
+export type CustomNetworkConditionsInput = Pick<
+  NetworkConditions,
+  "latency" | "downloadKbps" | "uploadKbps"
+>;
+
+export interface EmulatedMediaFeatures {
+  prefersColorScheme?: "light" | "dark";
+  prefersReducedMotion?: "reduce" | "no-preference";
+  prefersContrast?: "more" | "less" | "no-preference";
+  forcedColors?: "active" | "none";
+  prefersReducedTransparency?: "reduce" | "no-preference";
+}
+
+export interface LocaleOverride {
+  timezone?: string;
+  locale?: string;
+  acceptLanguage?: string;
+}
+
+// Keyboard requested by the focused element of the active tab
+export interface VirtualKeyboardFocus {
+  inputMode: string; // inputmode attribute or the value implied by the input type
+  enterKeyHint: string;
+}
+
+export interface SensorReading {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+export interface GeolocationOverride {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+export interface SavedLocation extends GeolocationOverride {
+  id: string;
+  name: string;
+}
+
+export interface GeolocationRoute {
+  locationIds: string[];
+  speedKmh: number;
+  loop: boolean;
+}
+
+export interface GeolocationState {
+  override: GeolocationOverride | null;
+  savedLocations: SavedLocation[];
+  route: GeolocationRoute | null;
+  isRoutePlaying: boolean;
+}
+
+export type CustomDeviceProfileInput = Pick<
+  DeviceProfile,
+  | "name"
+  | "platform"
+  | "viewport"
+  | "devicePixelRatio"
+  | "userAgent"
+  | "cornerRadius"
+  | "cutout"
+  | "navigationBar"
+>;
+
+export type UserAgentPreset = "mobile" | "desktop" | "custom";
+
+export interface UserAgentRule {
+  id: string;
+  domain: string; // Also matches subdomains
+  preset: UserAgentPreset;
+  customUserAgent?: string;
+  enabled: boolean;
+  isBuiltIn?: boolean;
+}
+
+export type UserAgentRuleInput = Pick<UserAgentRule, "domain" | "preset" | "customUserAgent">;
+
+export interface MirrorDevice {
+  id: string;
+  profileId: string;
+  isLandscape: boolean;
+  enabled: boolean;
+}
+
+export interface MirrorState {
+  enabled: boolean;
+  devices: MirrorDevice[];
+}
+
+// Visual zoom of the device frame; scale is the effective factor ("fit" depends on the screen)
+export interface FrameZoomState {
+  zoom: number | "fit";
+  scale: number;
+}
+
 export interface ElectronAPI {
   platform: NodeJS.Platform;
   closeWindow: () => void;
@@ -53,12 +219,107 @@ export interface ElectronAPI {
   onThemeChanged: (callback: (theme: "light" | "dark") => void) => () => void;
 
   // Orientation APIs
-  getOrientation: () => Promise<"portrait" | "landscape">;
-  toggleOrientation: () => Promise<void>;
+  getOrientation: () => Promise<DeviceOrientation>;
+  toggleOrientation: () => Promise<DeviceOrientation>;
+  setOrientation: (orientation: DeviceOrientation) => Promise<DeviceOrientation>;
   onOrientationChanged: (
-    callback: (orientation: "portrait" | "landscape") => void
+    callback: (orientation: DeviceOrientation) => void
   ) => () => void;
 
+  // Bare viewport mode (no frame, status bar or top bar)
+  bareMode: {
+    get: () => Promise<boolean>;
+    toggle: () => Promise<boolean>;
+    onChanged: (callback: (enabled: boolean) => void) => () => void;
+  };
+
+  // Device frame zoom
+  frameZoom: {
+    get: () => Promise<FrameZoomState>;
+    set: (zoom: number | "fit") => Promise<FrameZoomState>;
+    onChanged: (callback: (state: FrameZoomState) => void) => () => void;
+  };
+
+  // Device profile APIs
+  devices: {
+    getAll: () => Promise<DeviceProfile[]>;
+    getActive: () => Promise<DeviceProfile>;
+    setActive: (profileId: string) => Promise<DeviceProfile>;
+    add: (input: CustomDeviceProfileInput) => Promise<DeviceProfile>;
+    update: (id: string, updates: Partial<CustomDeviceProfileInput>) => Promise<DeviceProfile | null>;
+    duplicate: (id: string) => Promise<DeviceProfile | null>;
+    remove: (id: string) => Promise<boolean>;
+    onActiveChanged: (callback: (profile: DeviceProfile) => void) => () => void;
+    onUpdate: (callback: () => void) => () => void;
+  };
+
+  // Per-domain user agent rules
+  userAgentRules: {
+    getAll: () => Promise<UserAgentRule[]>;
+    add: (input: UserAgentRuleInput) => Promise<UserAgentRule | null>;
+    update: (
+      id: string,
+      updates: Partial<UserAgentRuleInput & { enabled: boolean }>
+    ) => Promise<UserAgentRule | null>;
+    remove: (id: string) => Promise<boolean>;
+    getSitePreset: () => Promise<UserAgentPreset | null>;
+    requestDesktop: (desktop: boolean) => Promise<boolean>;
+    onUpdate: (callback: () => void) => () => void;
+  };
+
+  // Per-tab emulation (active tab)
+  emulation: {
+    getTouch: () => Promise<boolean>;
+    setTouch: (enabled: boolean) => Promise<void>;
+    getMedia: () => Promise<EmulatedMediaFeatures>;
+    setMedia: (features: EmulatedMediaFeatures) => Promise<void>;
+    getLocale: () => Promise<LocaleOverride>;
+    setLocale: (override: LocaleOverride) => Promise<void>;
+    getSensors: () => Promise<SensorReading | null>;
+    setSensors: (reading: SensorReading | null) => Promise<void>;
+    shake: () => Promise<void>;
+  };
+
+  // Virtual keyboard shown in the frame
+  virtualKeyboard: {
+    sendKey: (key: string) => Promise<void>;
+    dismiss: () => Promise<void>;
+    onChanged: (callback: (focus: VirtualKeyboardFocus | null) => void) => () => void;
+  };
+
+  // Network throttling
+  network: {
+    getPresets: () => Promise<NetworkConditions[]>;
+    getActive: () => Promise<NetworkConditions>;
+    setActive: (presetId: string) => Promise<NetworkConditions>;
+    setCustom: (values: CustomNetworkConditionsInput) => Promise<NetworkConditions>;
+    onChanged: (callback: (conditions: NetworkConditions) => void) => () => void;
+  };
+
+  // Geolocation emulation (active tab)
+  geolocation: {
+    getState: () => Promise<GeolocationState>;
+    set: (override: GeolocationOverride | null) => Promise<void>;
+    addLocation: (name: string, position: GeolocationOverride) => Promise<SavedLocation>;
+    removeLocation: (id: string) => Promise<boolean>;
+    startRoute: (route: GeolocationRoute) => Promise<boolean>;
+    stopRoute: () => Promise<void>;
+    onStateChanged: (callback: (state: GeolocationState) => void) => () => void;
+  };
+
+  // Multi-device mirror mode
+  mirror: {
+    getState: () => Promise<MirrorState>;
+    setEnabled: (enabled: boolean) => Promise<void>;
+    addDevice: (profileId: string, isLandscape: boolean) => Promise<boolean>;
+    updateDevice: (
+      id: string,
+      updates: { enabled?: boolean; isLandscape?: boolean }
+    ) => Promise<boolean>;
+    removeDevice: (id: string) => Promise<boolean>;
+    onStateChanged: (callback: (state: MirrorState) => void) => () => void;
+  };
+
   // Fullscreen mode listener
   onFullscreenModeChanged: (
     callback: (isFullscreen: boolean) => void
@@ -73,12 +334,29 @@ export interface ElectronAPI {
   // Tab management APIs
   tabs: {
     getAll: () => Promise<TabsData>;
-    create: (url?: string) => Promise<void>;
+    create: (url?: string, groupId?: string | null) => Promise<void>;
     switch: (tabId: string) => Promise<void>;
-    close: (tabId: string) => Promise<void>;
+    close: (tabId: string) => Promise<boolean>;
     closeAll: () => Promise<void>;
+    setPinned: (tabId: string, pinned: boolean) => Promise<boolean>;
+    getRecentlyClosed: () => Promise<RecentlyClosedTab[]>;
+    reopenClosed: (closedTabId?: string) => Promise<boolean>;
+    getRestoreSession: () => Promise<boolean>;
+    setRestoreSession: (enabled: boolean) => Promise<void>;
+    getGroups: () => Promise<TabGroup[]>;
+    createGroup: (name: string, tabIds?: string[], color?: TabGroupColor) => Promise<TabGroup>;
+    updateGroup: (
+      groupId: string,
+      updates: Partial<Pick<TabGroup, "name" | "color" | "collapsed">>
+    ) => Promise<TabGroup | null>;
+    setGroup: (tabId: string, groupId: string | null) => Promise<boolean>;
+    closeGroup: (groupId: string) => Promise<void>;
+    getDiscardSettings: () => Promise<TabDiscardSettings>;
+    setDiscardSettings: (updates: Partial<TabDiscardSettings>) => Promise<TabDiscardSettings>;
     onTabChanged: (callback: (data: TabChangedData) => void) => () => void;
     onTabsUpdated: (callback: (data: TabsData) => void) => () => void;
+    onRecentlyClosedUpdated: (callback: (closedTabs: RecentlyClosedTab[]) => void) => () => void;
+    onGroupsUpdated: (callback: (groups: TabGroup[]) => void) => () => void;
   };
 
   // WebContentsView control APIs
@@ -1,170 +1,383 @@
 // Preload script for WebContentsView (embedded web content)
 // This runs in the context of loaded web pages with limited privileges
 
-import { ipcRenderer, contextBridge } from "electron";
+import { ipcRenderer, contextBridge, webFrame } from "electron";
 
 // ============================================================================
-// Fullscreen API Polyfill (Plan 1.5 - Final)
+// Page Bridge
 // ============================================================================
-// We need to polyfill the Fullscreen API so web pages think they're in fullscreen
-// even though the window doesn't actually go fullscreen
+// Shims injected into the page's world reach this preload through window events.
+// They carry a secret of this page load that only the shims know, so the page can't
+// trigger privileged actions by dispatching the same events itself
+
+const PAGE_BRIDGE_SECRET = Array.from(crypto.getRandomValues(new Uint32Array(4)), (value) =>
+  value.toString(36)
+).join("");
+
+// Source of the shims' dispatch function; the natives are taken before any page script runs
+const PAGE_BRIDGE_DISPATCH = `((dispatch, NativeCustomEvent) => (type) =>
+  dispatch.call(window, new NativeCustomEvent(type, { detail: ${JSON.stringify(PAGE_BRIDGE_SECRET)} }))
+)(EventTarget.prototype.dispatchEvent, CustomEvent)`;
+
+/**
+ * Listen for an event from the page's world that only the injected shims can send
+ */
+function onPageBridgeEvent(type: string, listener: () => void) {
+  // Registered before any page script, so page listeners never get to read the secret
+  window.addEventListener(
+    type,
+    (event) => {
+      event.stopImmediatePropagation();
+      if (event instanceof CustomEvent && event.detail === PAGE_BRIDGE_SECRET) listener();
+    },
+    true
+  );
+}
 
-console.log("[Preload] ✓ Loaded - Fullscreen API polyfill active");
+// ============================================================================
+// Fullscreen API Emulation
+// ============================================================================
+// The window never really goes fullscreen: the page's world gets an element-level
+// Fullscreen API whose requests stretch the tab within the device frame (TabManager)
+
+console.log("[Preload] ✓ Loaded - Fullscreen API emulation active");
+
+// Fullscreen element and its ancestors are marked so the UA styles below can apply
+const FULLSCREEN_ATTRIBUTE = "data-aka-fullscreen";
+const FULLSCREEN_ANCESTOR_ATTRIBUTE = "data-aka-fullscreen-ancestor";
+
+// Chromium's fullscreen UA stylesheet, plus a black backdrop that hides the rest of the page
+const FULLSCREEN_CSS = `
+[${FULLSCREEN_ATTRIBUTE}]:not(:root) {
+  object-fit: contain;
+  position: fixed !important;
+  inset: 0 !important;
+  margin: 0 !important;
+  box-sizing: border-box !important;
+  min-width: 0 !important;
+  max-width: none !important;
+  min-height: 0 !important;
+  max-height: none !important;
+  width: 100% !important;
+  height: 100% !important;
+  transform: none !important;
+  z-index: 2147483647 !important;
+}
+iframe[${FULLSCREEN_ATTRIBUTE}] {
+  border: none !important;
+  padding: 0 !important;
+}
+:root[${FULLSCREEN_ANCESTOR_ATTRIBUTE}] {
+  background: #000 !important;
+  overflow: hidden !important;
+}
+[${FULLSCREEN_ANCESTOR_ATTRIBUTE}]:not(:root) {
+  background: transparent !important;
+}
+[${FULLSCREEN_ANCESTOR_ATTRIBUTE}]:not(iframe) {
+  z-index: auto !important;
+  position: static !important;
+  opacity: 1 !important;
+  transform: none !important;
+  mask: none !important;
+  clip-path: none !important;
+  filter: none !important;
+  backdrop-filter: none !important;
+  transition: none !important;
+  perspective: none !important;
+  transform-style: flat !important;
+  overflow: visible !important;
+  contain: none !important;
+  will-change: auto !important;
+}
+[${FULLSCREEN_ANCESTOR_ATTRIBUTE}] > :not([${FULLSCREEN_ATTRIBUTE}]):not([${FULLSCREEN_ANCESTOR_ATTRIBUTE}]) {
+  visibility: hidden !important;
+}
+`;
+
+// :fullscreen and its webkit aliases in page stylesheets, rewritten to the attributes
+const FULLSCREEN_PSEUDO_PATTERN = /:(?:fullscreen|-webkit-full-screen)(?![-\w])/g;
+const FULLSCREEN_ANCESTOR_PSEUDO_PATTERN = /:-webkit-full-screen-ancestor(?![-\w])/g;
+
+webFrame.insertCSS(FULLSCREEN_CSS);
+
+webFrame
+  .executeJavaScript(
+    `(() => {
+      const fullscreenAttribute = "${FULLSCREEN_ATTRIBUTE}";
+      const ancestorAttribute = "${FULLSCREEN_ANCESTOR_ATTRIBUTE}";
+      let fullscreenElement = null;
+      let ancestors = [];
+      let pendingElement = null; // Waiting for the frame to go fullscreen
+      let pendingRequests = [];
+      let pendingExits = [];
+      let removalObserver = null;
+      const nativeFullscreenElement = Object.getOwnPropertyDescriptor(Document.prototype, "fullscreenElement").get;
+      const nativeExitFullscreen = Document.prototype.exitFullscreen;
+      const dispatchToPreload = ${PAGE_BRIDGE_DISPATCH};
+
+      // Events are fired both unprefixed and with the webkit prefix Safari uses
+      const fire = (target, type) => {
+        target.dispatchEvent(new Event(type, { bubbles: true, composed: true }));
+        target.dispatchEvent(new Event("webkit" + type, { bubbles: true, composed: true }));
+      };
+      const fireError = (element) => {
+        setTimeout(() => fire(element.isConnected ? element : document, "fullscreenerror"));
+      };
+
+      // Elements inside shadow trees are exposed as their host outside of it
+      const retarget = (root) => {
+        let node = fullscreenElement;
+        while (node && node.getRootNode() !== root) {
+          const nodeRoot = node.getRootNode();
+          node = nodeRoot instanceof ShadowRoot ? nodeRoot.host : null;
+        }
+        return node;
+      };
+
+      const setFullscreenElement = (element) => {
+        if (fullscreenElement) fullscreenElement.removeAttribute(fullscreenAttribute);
+        ancestors.forEach((node) => node.removeAttribute(ancestorAttribute));
+        fullscreenElement = element;
+        ancestors = [];
+        if (!element) return;
+
+        element.setAttribute(fullscreenAttribute, "");
+        for (let node = element.parentElement; node; node = node.parentElement) {
+          node.setAttribute(ancestorAttribute, "");
+          ancestors.push(node);
+        }
+      };
 
-// Track fullscreen state
-let isFullscreenActive = false;
-let fullscreenElement: Element | null = null;
+      function requestFullscreen() {
+        const element = this;
+        if (!element.isConnected) {
+          fireError(element);
+          return Promise.reject(new TypeError("Failed to execute 'requestFullscreen' on 'Element': Element is not connected."));
+        }
+        if (element === fullscreenElement) return Promise.resolve();
+
+        // Already fullscreen: the new element takes over without leaving fullscreen
+        if (fullscreenElement) {
+          const previous = fullscreenElement;
+          setFullscreenElement(element);
+          setTimeout(() => {
+            fire(previous.isConnected ? previous : document, "fullscreenchange");
+            fire(element, "fullscreenchange");
+          });
+          return Promise.resolve();
+        }
 
-// Helper function to apply object-fit style to video elements
-function applyVideoFitStyle(fitValue: string) {
-  const videos = document.querySelectorAll('video');
-  videos.forEach((video) => {
-    if (fitValue) {
-      video.style.objectFit = fitValue;
-    } else {
-      video.style.objectFit = '';
-    }
-  });
-  
-  // Also observe for dynamically added videos
-  if (fitValue === 'contain') {
-    startVideoObserver();
-  } else {
-    stopVideoObserver();
-  }
-}
+        if (!navigator.userActivation.isActive) {
+          fireError(element);
+          return Promise.reject(new TypeError("Permissions check failed"));
+        }
 
-// MutationObserver to handle dynamically added videos
-let videoObserver: MutationObserver | null = null;
+        pendingElement = element;
+        return new Promise((resolve, reject) => {
+          pendingRequests.push({ resolve, reject });
+          dispatchToPreload("aka-fullscreen-request");
+        });
+      }
 
-function startVideoObserver() {
-  if (videoObserver) return;
-  
-  videoObserver = new MutationObserver((mutations) => {
-    mutations.forEach((mutation) => {
-      mutation.addedNodes.forEach((node) => {
-        if (node instanceof HTMLVideoElement) {
-          node.style.objectFit = 'contain';
-        } else if (node instanceof Element) {
-          const videos = node.querySelectorAll('video');
-          videos.forEach((video) => {
-            (video as HTMLVideoElement).style.objectFit = 'contain';
-          });
+      function exitFullscreen() {
+        if (!fullscreenElement && !pendingElement) {
+          // Native fullscreen, e.g. entered by an iframe
+          if (nativeFullscreenElement.call(document)) return nativeExitFullscreen.call(document);
+          return Promise.reject(new TypeError("Document not active"));
         }
+        return new Promise((resolve, reject) => {
+          pendingExits.push({ resolve, reject });
+          dispatchToPreload("aka-fullscreen-exit-request");
+        });
+      }
+
+      // Removing the fullscreen element from the document leaves fullscreen
+      const watchRemoval = () => {
+        removalObserver = new MutationObserver(() => {
+          if (fullscreenElement && !fullscreenElement.isConnected && pendingExits.length === 0) {
+            exitFullscreen().catch(() => {});
+          }
+        });
+        removalObserver.observe(document, { childList: true, subtree: true });
+      };
+
+      window.addEventListener("aka-fullscreen-entered", () => {
+        const element = pendingElement;
+        const requests = pendingRequests;
+        pendingElement = null;
+        pendingRequests = [];
+        // Native fullscreen (e.g. from an iframe) has no pending element
+        if (!element) return;
+
+        setFullscreenElement(element);
+        watchRemoval();
+        requests.forEach((request) => request.resolve());
+        fire(element, "fullscreenchange");
+        if (element instanceof HTMLVideoElement) element.dispatchEvent(new Event("webkitbeginfullscreen"));
       });
-    });
-  });
-  
-  videoObserver.observe(document.body, {
-    childList: true,
-    subtree: true,
-  });
-}
 
-function stopVideoObserver() {
-  if (videoObserver) {
-    videoObserver.disconnect();
-    videoObserver = null;
-  }
-}
+      window.addEventListener("aka-fullscreen-exited", () => {
+        // A request the frame turned down (e.g. from a background tab)
+        if (pendingElement) {
+          const requests = pendingRequests;
+          fireError(pendingElement);
+          pendingElement = null;
+          pendingRequests = [];
+          requests.forEach((request) => request.reject(new TypeError("Permissions check failed")));
+        }
 
-// Listen for fullscreen state from main process
-ipcRenderer.on("set-fullscreen-state", (_event, state: boolean) => {
-  const wasFullscreen = isFullscreenActive;
-  isFullscreenActive = state;
-  
-  if (state && !wasFullscreen) {
-    // Entering fullscreen
-    fullscreenElement = document.documentElement; // Assume whole document
-    
-    // Apply object-fit: contain to all video elements to prevent cropping
-    applyVideoFitStyle('contain');
-    
-    // Force a resize event to make sure the page knows about the new size
-    window.dispatchEvent(new Event('resize'));
-    
-    const event = new Event("fullscreenchange", { bubbles: true });
-    document.dispatchEvent(event);
-  } else if (!state && wasFullscreen) {
-    // Exiting fullscreen
-    fullscreenElement = null;
-    
-    // Restore original object-fit style
-    applyVideoFitStyle('');
-    
-    // Force a resize event
-    window.dispatchEvent(new Event('resize'));
-    
-    const event = new Event("fullscreenchange", { bubbles: true });
-    document.dispatchEvent(event);
-  }
-});
+        const element = fullscreenElement;
+        const exits = pendingExits;
+        pendingExits = [];
+        exits.forEach((exit) => exit.resolve());
+        if (!element) return;
+
+        setFullscreenElement(null);
+        if (removalObserver) removalObserver.disconnect();
+        removalObserver = null;
+        fire(element.isConnected ? element : document, "fullscreenchange");
+        if (element instanceof HTMLVideoElement) element.dispatchEvent(new Event("webkitendfullscreen"));
+      });
 
-// Override fullscreenElement getter
-Object.defineProperty(Document.prototype, "fullscreenElement", {
-  get: function(this: Document): Element | null {
-    return fullscreenElement;
-  },
-  configurable: true,
-});
+      const defineGetter = (proto, name, get) =>
+        Object.defineProperty(proto, name, { get, configurable: true });
+
+      Element.prototype.requestFullscreen = requestFullscreen;
+      Element.prototype.webkitRequestFullscreen = requestFullscreen;
+      Element.prototype.webkitRequestFullScreen = requestFullscreen;
+      Document.prototype.exitFullscreen = exitFullscreen;
+      Document.prototype.webkitExitFullscreen = exitFullscreen;
+      Document.prototype.webkitCancelFullScreen = exitFullscreen;
+
+      ["fullscreenElement", "webkitFullscreenElement", "webkitCurrentFullScreenElement"].forEach((name) =>
+        defineGetter(Document.prototype, name, function () { return retarget(this); })
+      );
+      defineGetter(ShadowRoot.prototype, "fullscreenElement", function () { return retarget(this); });
+      ["fullscreen", "webkitIsFullScreen"].forEach((name) =>
+        defineGetter(Document.prototype, name, () => fullscreenElement !== null)
+      );
+      ["fullscreenEnabled", "webkitFullscreenEnabled"].forEach((name) =>
+        defineGetter(Document.prototype, name, () => true)
+      );
+
+      // iOS Safari's video-only fullscreen
+      const enterVideoFullscreen = function () { requestFullscreen.call(this).catch(() => {}); };
+      const exitVideoFullscreen = function () {
+        if (fullscreenElement === this) exitFullscreen().catch(() => {});
+      };
+      HTMLVideoElement.prototype.webkitEnterFullscreen = enterVideoFullscreen;
+      HTMLVideoElement.prototype.webkitEnterFullScreen = enterVideoFullscreen;
+      HTMLVideoElement.prototype.webkitExitFullscreen = exitVideoFullscreen;
+      HTMLVideoElement.prototype.webkitExitFullScreen = exitVideoFullscreen;
+      defineGetter(HTMLVideoElement.prototype, "webkitSupportsFullscreen", () => true);
+      defineGetter(HTMLVideoElement.prototype, "webkitDisplayingFullscreen", function () {
+        return fullscreenElement === this;
+      });
+    })();`
+  )
+  .catch((error) => {
+    console.warn("[Preload] Failed to install Fullscreen API:", error);
+  });
 
-// Override webkitFullscreenElement getter
-Object.defineProperty(Document.prototype, "webkitFullscreenElement", {
-  get: function(this: Document): Element | null {
-    return fullscreenElement;
-  },
-  configurable: true,
-});
+// Key of the inserted copy of the page's :fullscreen rules
+let pageFullscreenCssKey: string | null = null;
 
-// Store original screen dimensions
-const originalScreenWidth = window.screen.width;
-const originalScreenHeight = window.screen.height;
+function collectFullscreenRules(rules: CSSRuleList): string[] {
+  const output: string[] = [];
 
-// Override screen.width and screen.height to match window size in fullscreen
-Object.defineProperty(window.screen, "width", {
-  get: function(): number {
-    // In fullscreen mode, return window size instead of actual screen size
-    if (isFullscreenActive) {
-      return window.innerWidth;
+  Array.from(rules).forEach((rule) => {
+    if (rule instanceof CSSStyleRule) {
+      const selector = rule.selectorText
+        .replace(FULLSCREEN_ANCESTOR_PSEUDO_PATTERN, `[${FULLSCREEN_ANCESTOR_ATTRIBUTE}]`)
+        .replace(FULLSCREEN_PSEUDO_PATTERN, `[${FULLSCREEN_ATTRIBUTE}]`);
+      if (selector !== rule.selectorText) {
+        output.push(`${selector} { ${rule.style.cssText} }`);
+      }
+    } else if (rule instanceof CSSMediaRule || rule instanceof CSSSupportsRule) {
+      const inner = collectFullscreenRules(rule.cssRules);
+      if (inner.length > 0) {
+        const atRule = rule instanceof CSSMediaRule ? "@media" : "@supports";
+        output.push(`${atRule} ${rule.conditionText} { ${inner.join("\n")} }`);
+      }
     }
-    return originalScreenWidth;
-  },
-  configurable: true,
-});
+  });
+
+  return output;
+}
+
+// Copy the page's :fullscreen rules so they match the emulated fullscreen element
+function applyPageFullscreenRules() {
+  removePageFullscreenRules();
 
-Object.defineProperty(window.screen, "height", {
-  get: function(): number {
-    // In fullscreen mode, return window size instead of actual screen size
-    if (isFullscreenActive) {
-      return window.innerHeight;
+  const rules = Array.from(document.styleSheets).flatMap((sheet) => {
+    try {
+      return collectFullscreenRules(sheet.cssRules);
+    } catch {
+      // Cross-origin stylesheets can't be read
+      return [];
     }
-    return originalScreenHeight;
-  },
-  configurable: true,
+  });
+
+  if (rules.length > 0) {
+    pageFullscreenCssKey = webFrame.insertCSS(rules.join("\n"));
+  }
+}
+
+function removePageFullscreenRules() {
+  if (pageFullscreenCssKey) {
+    webFrame.removeInsertedCSS(pageFullscreenCssKey);
+    pageFullscreenCssKey = null;
+  }
+}
+
+// Requests from the page's world go to the main process, which answers with set-fullscreen-state.
+// The main process can't see user activation, so it is checked again here
+onPageBridgeEvent("aka-fullscreen-request", () => {
+  if (!navigator.userActivation.isActive) {
+    window.dispatchEvent(new Event("aka-fullscreen-exited"));
+    return;
+  }
+  ipcRenderer.send("webview-fullscreen-request", true);
 });
 
-// Also override availWidth and availHeight
-Object.defineProperty(window.screen, "availWidth", {
-  get: function(): number {
-    if (isFullscreenActive) {
-      return window.innerWidth;
-    }
-    return originalScreenWidth;
-  },
-  configurable: true,
+onPageBridgeEvent("aka-fullscreen-exit-request", () => {
+  ipcRenderer.send("webview-fullscreen-request", false);
 });
 
-Object.defineProperty(window.screen, "availHeight", {
-  get: function(): number {
-    if (isFullscreenActive) {
-      return window.innerHeight;
-    }
-    return originalScreenHeight;
-  },
-  configurable: true,
+// Listen for fullscreen state from main process
+ipcRenderer.on("set-fullscreen-state", (_event, state: boolean) => {
+  if (state) {
+    applyPageFullscreenRules();
+    window.dispatchEvent(new Event("aka-fullscreen-entered"));
+  } else {
+    removePageFullscreenRules();
+    window.dispatchEvent(new Event("aka-fullscreen-exited"));
+  }
 });
 
-console.log("[Preload] ✓ Fullscreen API polyfill installed (with screen size override)");
+// ============================================================================
+// Navigator Fingerprint
+// ============================================================================
+// navigator.platform and navigator.userAgentData come from the main process
+// (Emulation.setUserAgentOverride) and navigator.maxTouchPoints follows the tab's
+// touch emulation; the rest of the device fingerprint is patched in the page's
+// world from the user agent the page was loaded with
+
+webFrame
+  .executeJavaScript(
+    `(() => {
+      const userAgent = navigator.userAgent;
+
+      // Safari, iOS browsers and Firefox have no User-Agent Client Hints
+      if (!/Chrome\\//.test(userAgent) || /iPhone|iPad|iPod/.test(userAgent)) {
+        delete Navigator.prototype.userAgentData;
+      }
+    })();`
+  )
+  .catch((error) => {
+    console.warn("[Preload] Failed to patch navigator fingerprint:", error);
+  });
 
 // ============================================================================
 // Theme Color Extraction
@@ -259,8 +472,60 @@ function setupThemeColorMonitoring() {
   }
 }
 
-// Track current orientation
-let currentOrientation: "portrait" | "landscape" = "portrait";
+// Mirror mode followers are shown without a device frame (flag set by TabManager.createMirrorView)
+const isMirrorFollower = process.argv.includes("--aka-mirror-follower");
+
+// Track current orientation (landscape-left has the top of the device on the left)
+type DeviceOrientation =
+  | "portrait"
+  | "portrait-upside-down"
+  | "landscape-left"
+  | "landscape-right";
+let currentOrientation: DeviceOrientation = "portrait";
+
+// Screen corner radius of the emulated device (0 = square screen, no masks)
+let currentCornerRadius = 32;
+
+// Bare viewport mode shows the page without a device frame, so there are no corners to mask
+let isBareMode = false;
+
+// Navigation bar of the emulated device skin ("none" on iOS)
+let currentNavigationBar: "gesture" | "three-button" | "none" = "none";
+
+// Camera cutout of the emulated device skin, letterboxed at the bottom when upside down
+let currentCutout: "dynamic-island" | "notch" | "punch-hole" | "none" = "none";
+
+type ScreenCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+// Only corners of the web view that are also screen corners need a mask,
+// the ones next to the status bar or navigation bar are covered by the frame
+function getMaskedCorners(): ScreenCorner[] {
+  const isLandscape =
+    currentOrientation === "landscape-left" || currentOrientation === "landscape-right";
+  const hasSideNavigation = isLandscape && currentNavigationBar === "three-button";
+  const hasBottomNavigation = currentNavigationBar !== "none" && !hasSideNavigation;
+  const hasBottomCutout = currentOrientation === "portrait-upside-down" && currentCutout !== "none";
+
+  // The status bar follows the top of the device, side navigation sits opposite to it
+  const statusBarSide = isLandscape
+    ? currentOrientation === "landscape-left" ? "left" : "right"
+    : "top";
+  const navigationSide = statusBarSide === "left" ? "right" : "left";
+
+  const covered = {
+    top: statusBarSide === "top",
+    left: statusBarSide === "left" || (hasSideNavigation && navigationSide === "left"),
+    right: statusBarSide === "right" || (hasSideNavigation && navigationSide === "right"),
+    bottom: hasBottomNavigation || hasBottomCutout,
+  };
+
+  const corners: ScreenCorner[] = [];
+  if (!covered.top && !covered.left) corners.push("top-left");
+  if (!covered.top && !covered.right) corners.push("top-right");
+  if (!covered.bottom && !covered.left) corners.push("bottom-left");
+  if (!covered.bottom && !covered.right) corners.push("bottom-right");
+  return corners;
+}
 
 // Shadow DOM container reference for cleanup
 let shadowContainer: HTMLElement | null = null;
@@ -286,6 +551,17 @@ function injectCornerMask() {
   
   shadowContainer = null;
 
+  // Square screens, or skins whose system bars cover every corner, have nothing to mask
+  if (
+    isMirrorFollower ||
+    isBareMode ||
+    currentCornerRadius <= 0 ||
+    getMaskedCorners().length === 0
+  ) {
+    return;
+  }
+  const r = currentCornerRadius;
+
   // Create container element
   const container = document.createElement("div");
   container.id = "webview-corner-mask-container";
@@ -309,107 +585,74 @@ function injectCornerMask() {
   // Create style element inside Shadow DOM
   const style = document.createElement("style");
   
-  if (currentOrientation === "portrait") {
-    // Portrait mode: bottom-left and bottom-right corners
-    style.textContent = `
-      :host {
-        position: fixed;
-        top: 0;
-        left: 0;
-        width: 100%;
-        height: 100%;
-        pointer-events: none;
-      }
-
-      .corner-mask {
-        position: absolute;
-        width: 48px;
-        height: 48px;
-        pointer-events: none;
-      }
-
-      .corner-mask-bottom-left {
-        bottom: -1px;
-        left: -1px;
-        background:
-          radial-gradient(circle at 44px 1px, transparent 32px, #000100 32px, #000100 38px, transparent 40px),
-          radial-gradient(circle at 41px 0px, transparent 34px, #2b2c2c 30px);
-        background-position: -11px 14px;
-        background-repeat: no-repeat;
-      }
-
-      .corner-mask-bottom-right {
-        bottom: -1px;
-        right: -1px;
-        background:
-          radial-gradient(circle at 2px 1px, transparent 32px, #000100 32px, #000100 38px, transparent 40px),
-          radial-gradient(circle at 0px 1px, transparent 40px, #2b2c2c 40px);
-        background-position: 13px 14px;
-        background-repeat: no-repeat;
-      }
-    `;
-
-    // Create mask elements
-    const maskLeft = document.createElement("div");
-    maskLeft.className = "corner-mask corner-mask-bottom-left";
-    
-    const maskRight = document.createElement("div");
-    maskRight.className = "corner-mask corner-mask-bottom-right";
-
-    shadow.appendChild(style);
-    shadow.appendChild(maskLeft);
-    shadow.appendChild(maskRight);
-  } else {
-    // Landscape mode: top-right and bottom-right corners
-    style.textContent = `
-      :host {
-        position: fixed;
-        top: 0;
-        left: 0;
-        width: 100%;
-        height: 100%;
-        pointer-events: none;
-      }
+  const cornerStyles: Record<ScreenCorner, string> = {
+    "top-left": `
+      top: -1px;
+      left: -1px;
+      background:
+        radial-gradient(circle at ${r + 12}px ${r + 12}px, transparent ${r}px, #000100 ${r}px, #000100 ${r + 6}px, transparent ${r + 8}px),
+        radial-gradient(circle at ${r + 9}px ${r + 15}px, transparent ${r + 2}px, #2b2c2c ${r - 2}px);
+      background-position: -11px -11px;
+      background-repeat: no-repeat;
+    `,
+    "top-right": `
+      top: -1px;
+      right: -1px;
+      background:
+        radial-gradient(circle at 2px ${r + 12}px, transparent ${r}px, #000100 ${r}px, #000100 ${r + 6}px, transparent ${r + 8}px),
+        radial-gradient(circle at 0px ${r + 15}px, transparent ${r + 2}px, #2b2c2c ${r - 2}px);
+      background-position: 13px -11px;
+      background-repeat: no-repeat;
+    `,
+    "bottom-left": `
+      bottom: -1px;
+      left: -1px;
+      background:
+        radial-gradient(circle at ${r + 12}px 1px, transparent ${r}px, #000100 ${r}px, #000100 ${r + 6}px, transparent ${r + 8}px),
+        radial-gradient(circle at ${r + 9}px 0px, transparent ${r + 2}px, #2b2c2c ${r - 2}px);
+      background-position: -11px 14px;
+      background-repeat: no-repeat;
+    `,
+    "bottom-right": `
+      bottom: -1px;
+      right: -1px;
+      background:
+        radial-gradient(circle at 2px 1px, transparent ${r}px, #000100 ${r}px, #000100 ${r + 6}px, transparent ${r + 8}px),
+        radial-gradient(circle at 0px 1px, transparent ${r + 8}px, #2b2c2c ${r + 8}px);
+      background-position: 13px 14px;
+      background-repeat: no-repeat;
+    `,
+  };
 
-      .corner-mask {
-        position: absolute;
-        width: 48px;
-        height: 48px;
-        pointer-events: none;
-      }
+  const corners = getMaskedCorners();
 
-      .corner-mask-top-right {
-        top: -1px;
-        right: -1px;
-        background:
-          radial-gradient(circle at 2px 44px, transparent 32px, #000100 32px, #000100 38px, transparent 40px),
-          radial-gradient(circle at 0px 47px, transparent 34px, #2b2c2c 30px);
-        background-position: 13px -11px;
-        background-repeat: no-repeat;
-      }
+  style.textContent = `
+    :host {
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      pointer-events: none;
+    }
 
-      .corner-mask-bottom-right {
-        bottom: -1px;
-        right: -1px;
-        background:
-          radial-gradient(circle at 2px 1px, transparent 32px, #000100 32px, #000100 38px, transparent 40px),
-          radial-gradient(circle at 0px 1px, transparent 40px, #2b2c2c 40px);
-        background-position: 13px 14px;
-        background-repeat: no-repeat;
-      }
-    `;
+    .corner-mask {
+      position: absolute;
+      width: ${r + 16}px;
+      height: ${r + 16}px;
+      pointer-events: none;
+    }
+    ${corners.map((corner) => `.corner-mask-${corner} {${cornerStyles[corner]}}`).join("\n")}
+  `;
 
-    // Create mask elements
-    const maskTopRight = document.createElement("div");
-    maskTopRight.className = "corner-mask corner-mask-top-right";
-    
-    const maskBottomRight = document.createElement("div");
-    maskBottomRight.className = "corner-mask corner-mask-bottom-right";
+  shadow.appendChild(style);
 
-    shadow.appendChild(style);
-    shadow.appendChild(maskTopRight);
-    shadow.appendChild(maskBottomRight);
-  }
+  // Create mask elements
+  corners.forEach((corner) => {
+    const mask = document.createElement("div");
+    mask.className = `corner-mask corner-mask-${corner}`;
+    shadow.appendChild(mask);
+  });
 
   // Store reference for cleanup
   shadowContainer = container;
@@ -489,13 +732,13 @@ function setupMaskProtection() {
 }
 
 // Listen for orientation changes from main process
-ipcRenderer.on("orientation-changed", (_event, orientation: "portrait" | "landscape") => {
+ipcRenderer.on("orientation-changed", (_event, orientation: DeviceOrientation) => {
   currentOrientation = orientation;
   injectCornerMask();
 });
 
 // Request initial orientation from main process
-ipcRenderer.invoke("get-orientation").then((orientation: "portrait" | "landscape") => {
+ipcRenderer.invoke("get-orientation").then((orientation: DeviceOrientation) => {
   currentOrientation = orientation;
   injectCornerMask();
 }).catch(() => {
@@ -503,6 +746,47 @@ ipcRenderer.invoke("get-orientation").then((orientation: "portrait" | "landscape
   injectCornerMask();
 });
 
+type DeviceSkin = {
+  platform: "ios" | "android";
+  cornerRadius: number;
+  navigationBar: typeof currentNavigationBar;
+  cutout: typeof currentCutout;
+};
+
+// Listen for device changes from main process
+ipcRenderer.on("device-profile-changed", (_event, profile: DeviceSkin) => {
+  currentCornerRadius = profile.cornerRadius;
+  currentNavigationBar = profile.navigationBar;
+  currentCutout = profile.cutout;
+  injectCornerMask();
+  setSensorPermissionApi(profile.platform === "ios");
+});
+
+// Request initial device profile from main process
+ipcRenderer.invoke("device-get-active").then((profile: DeviceSkin) => {
+  currentCornerRadius = profile.cornerRadius;
+  currentNavigationBar = profile.navigationBar;
+  currentCutout = profile.cutout;
+  injectCornerMask();
+  setSensorPermissionApi(profile.platform === "ios");
+}).catch(() => {
+  // Keep the default radius if request fails
+});
+
+// Listen for bare mode changes from main process
+ipcRenderer.on("bare-mode-changed", (_event, enabled: boolean) => {
+  isBareMode = enabled;
+  injectCornerMask();
+});
+
+// Request initial bare mode from main process
+ipcRenderer.invoke("bare-mode-get").then((enabled: boolean) => {
+  isBareMode = enabled;
+  injectCornerMask();
+}).catch(() => {
+  // Keep the frame corners if request fails
+});
+
 // Inject corner mask immediately with default orientation
 injectCornerMask();
 
@@ -600,6 +884,499 @@ function setupNavigationGestures() {
 // Setup gesture detection immediately
 setupNavigationGestures();
 
+// ============================================================================
+// Mirror Mode (leader captures scroll and clicks, followers replay them)
+// ============================================================================
+
+type MirrorEvent =
+  | { type: "scroll"; x: number; y: number }
+  | { type: "click"; selector: string };
+
+let isMirrorLeader = false;
+
+ipcRenderer.on("mirror-leader-changed", (_event, isLeader: boolean) => {
+  isMirrorLeader = isLeader && !isMirrorFollower;
+});
+
+// Build a selector that finds the same element in a follower's copy of the page
+function getElementSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement) {
+    if (current.id) {
+      parts.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+
+    let index = 1;
+    let sibling = current.previousElementSibling;
+    while (sibling) {
+      if (sibling.tagName === current.tagName) index++;
+      sibling = sibling.previousElementSibling;
+    }
+    parts.unshift(`${current.tagName.toLowerCase()}:nth-of-type(${index})`);
+    current = current.parentElement;
+  }
+
+  return parts.join(" > ");
+}
+
+// Scroll position as a ratio so devices with different viewport sizes line up
+let mirrorScrollFrame: number | null = null;
+window.addEventListener(
+  "scroll",
+  () => {
+    if (!isMirrorLeader || mirrorScrollFrame !== null) return;
+
+    mirrorScrollFrame = requestAnimationFrame(() => {
+      mirrorScrollFrame = null;
+      const root = document.scrollingElement || document.documentElement;
+      const maxX = root.scrollWidth - window.innerWidth;
+      const maxY = root.scrollHeight - window.innerHeight;
+
+      const mirrorEvent: MirrorEvent = {
+        type: "scroll",
+        x: maxX > 0 ? window.scrollX / maxX : 0,
+        y: maxY > 0 ? window.scrollY / maxY : 0,
+      };
+      ipcRenderer.send("mirror-event", mirrorEvent);
+    });
+  },
+  { passive: true }
+);
+
+document.addEventListener(
+  "click",
+  (event) => {
+    if (!isMirrorLeader || !event.isTrusted || !(event.target instanceof Element)) return;
+
+    // Link navigation is mirrored through the URL, replaying it would navigate twice
+    if (event.target.closest("a[href]")) return;
+
+    const mirrorEvent: MirrorEvent = {
+      type: "click",
+      selector: getElementSelector(event.target),
+    };
+    ipcRenderer.send("mirror-event", mirrorEvent);
+  },
+  true
+);
+
+ipcRenderer.on("mirror-replay", (_event, mirrorEvent: MirrorEvent) => {
+  if (!isMirrorFollower) return;
+
+  if (mirrorEvent.type === "scroll") {
+    const root = document.scrollingElement || document.documentElement;
+    window.scrollTo(
+      mirrorEvent.x * (root.scrollWidth - window.innerWidth),
+      mirrorEvent.y * (root.scrollHeight - window.innerHeight)
+    );
+  } else if (mirrorEvent.type === "click") {
+    try {
+      const element = document.querySelector(mirrorEvent.selector);
+      if (element instanceof HTMLElement) {
+        element.click();
+      }
+    } catch (error) {
+      console.warn("[Preload] Failed to replay mirrored click:", error);
+    }
+  }
+});
+
+// ============================================================================
+// Screen Orientation API Emulation
+// ============================================================================
+// Desktop Chromium has no window.orientation or orientationchange and rejects
+// screen.orientation.lock(), so the page's world gets a shim that reports the
+// emulated device orientation and forwards lock requests to the main process
+
+// screen.orientation type/angle and the legacy window.orientation of each orientation
+const PAGE_ORIENTATIONS: Record<
+  DeviceOrientation,
+  { type: string; angle: number; windowOrientation: number }
+> = {
+  portrait: { type: "portrait-primary", angle: 0, windowOrientation: 0 },
+  "portrait-upside-down": { type: "portrait-secondary", angle: 180, windowOrientation: 180 },
+  "landscape-left": { type: "landscape-primary", angle: 90, windowOrientation: 90 },
+  "landscape-right": { type: "landscape-secondary", angle: 270, windowOrientation: -90 },
+};
+
+// Give up waiting for the viewport to take the new shape (e.g. a hidden tab)
+const ORIENTATION_RESIZE_TIMEOUT_MS = 1000;
+
+webFrame
+  .executeJavaScript(
+    `(() => {
+      const values = ${JSON.stringify(PAGE_ORIENTATIONS)};
+      let orientation = "portrait";
+      let onOrientationChange = null;
+      let pendingLocks = [];
+      const proto = ScreenOrientation.prototype;
+      const dispatchToPreload = ${PAGE_BRIDGE_DISPATCH};
+
+      Object.defineProperty(proto, "type", { get: () => values[orientation].type, configurable: true });
+      Object.defineProperty(proto, "angle", { get: () => values[orientation].angle, configurable: true });
+      Object.defineProperty(window, "orientation", {
+        get: () => values[orientation].windowOrientation,
+        configurable: true,
+      });
+      Object.defineProperty(window, "onorientationchange", {
+        get: () => onOrientationChange,
+        set: (handler) => { onOrientationChange = typeof handler === "function" ? handler : null; },
+        configurable: true,
+      });
+
+      // The debugger's screen override fires its own change event, possibly before the
+      // viewport has resized; only the shim's event (sent once the layout matches) gets through
+      screen.orientation.addEventListener("change", (event) => {
+        if (event.isTrusted) event.stopImmediatePropagation();
+      });
+
+      const settleLocks = (error) => {
+        const locks = pendingLocks;
+        pendingLocks = [];
+        locks.forEach((lock) =>
+          error || lock.orientation !== orientation
+            ? lock.reject(error || new DOMException(
+                "A call to screen.orientation.lock() or unlock() canceled this call.", "AbortError"))
+            : lock.resolve()
+        );
+      };
+
+      const resolveLockType = (lockType) => {
+        const isLandscape = orientation.startsWith("landscape");
+        switch (lockType) {
+          case "any": return orientation;
+          case "natural":
+          case "portrait-primary": return "portrait";
+          case "portrait": return isLandscape ? "portrait" : orientation;
+          case "portrait-secondary": return "portrait-upside-down";
+          case "landscape": return isLandscape ? orientation : "landscape-left";
+          case "landscape-primary": return "landscape-left";
+          case "landscape-secondary": return "landscape-right";
+          default: return null;
+        }
+      };
+
+      proto.lock = function (lockType) {
+        const target = resolveLockType(String(lockType));
+        if (!target) {
+          return Promise.reject(new TypeError(
+            "Failed to execute 'lock' on 'ScreenOrientation': The provided value '" + lockType +
+            "' is not a valid enum value of type OrientationLockType."));
+        }
+        if (target === orientation) return Promise.resolve();
+        return new Promise((resolve, reject) => {
+          pendingLocks.push({ orientation: target, resolve, reject });
+          dispatchToPreload("aka-orientation-lock-" + target);
+        });
+      };
+      proto.unlock = function () {};
+
+      window.addEventListener("aka-orientation-lock-failed", () => {
+        settleLocks(new DOMException("screen.orientation.lock() is not available on this device.", "NotSupportedError"));
+      });
+
+      window.addEventListener("aka-orientation-changed", (event) => {
+        if (event.detail.orientation === orientation) return;
+        orientation = event.detail.orientation;
+        if (!event.detail.notify) return;
+
+        settleLocks(null);
+        screen.orientation.dispatchEvent(new Event("change"));
+        const changeEvent = new Event("orientationchange");
+        window.dispatchEvent(changeEvent);
+        if (onOrientationChange) onOrientationChange.call(window, changeEvent);
+      });
+    })();`
+  )
+  .catch((error) => {
+    console.warn("[Preload] Failed to install Screen Orientation API:", error);
+  });
+
+// Orientation last reported to the page (null until the first sync, which fires no events)
+let pageOrientation: DeviceOrientation | null = null;
+let pageOrientationToken = 0;
+
+function syncPageOrientation(orientation: DeviceOrientation, notify: boolean) {
+  webFrame
+    .executeJavaScript(
+      `window.dispatchEvent(new CustomEvent("aka-orientation-changed", { detail: ${JSON.stringify({
+        orientation,
+        notify,
+      })} }));`
+    )
+    .catch((error) => {
+      console.warn("[Preload] Failed to update screen orientation:", error);
+    });
+}
+
+// Fire the page's events once the viewport has the new shape, so handlers see matching
+// innerWidth/innerHeight and matchMedia("(orientation: landscape)") results
+function updatePageOrientation(orientation: DeviceOrientation) {
+  if (orientation === pageOrientation) return;
+
+  const notify = pageOrientation !== null;
+  pageOrientation = orientation;
+  const token = ++pageOrientationToken;
+  const isLandscape = orientation.startsWith("landscape");
+  const deadline = Date.now() + ORIENTATION_RESIZE_TIMEOUT_MS;
+
+  const check = () => {
+    if (token !== pageOrientationToken) return;
+    const hasResized = window.matchMedia("(orientation: landscape)").matches === isLandscape;
+    if (!notify || hasResized || Date.now() > deadline) {
+      syncPageOrientation(orientation, notify);
+    } else {
+      setTimeout(check, 16);
+    }
+  };
+  check();
+}
+
+ipcRenderer.on("orientation-changed", (_event, orientation: DeviceOrientation) => {
+  updatePageOrientation(orientation);
+});
+
+ipcRenderer.invoke("get-orientation").then((orientation: DeviceOrientation) => {
+  updatePageOrientation(orientation);
+}).catch(() => {
+  // The page keeps reporting portrait
+});
+
+// screen.orientation.lock() from the page rotates the device (only the active tab may)
+(Object.keys(PAGE_ORIENTATIONS) as DeviceOrientation[]).forEach((orientation) => {
+  onPageBridgeEvent(`aka-orientation-lock-${orientation}`, () => {
+    ipcRenderer
+      .invoke("orientation-lock", orientation)
+      .then((result: DeviceOrientation) => {
+        // e.g. upside down on an iPhone
+        if (result !== orientation) {
+          window.dispatchEvent(new Event("aka-orientation-lock-failed"));
+        }
+      })
+      .catch(() => {
+        window.dispatchEvent(new Event("aka-orientation-lock-failed"));
+      });
+  });
+});
+
+// ============================================================================
+// Device Motion & Orientation Emulation
+// ============================================================================
+
+type SensorReading = { alpha: number; beta: number; gamma: number };
+
+// devicemotion fires continuously on real devices (~60Hz)
+const SENSOR_INTERVAL_MS = 16;
+const SHAKE_DURATION_MS = 1000;
+const STANDARD_GRAVITY = 9.80665;
+
+let sensorReading: SensorReading | null = null;
+let previousSensorReading: SensorReading | null = null;
+let sensorTimer: ReturnType<typeof setInterval> | null = null;
+let isOrientationDirty = false;
+let shakeUntil = 0;
+
+// iOS only delivers sensor events once DeviceOrientationEvent.requestPermission() was granted
+let requiresSensorPermission = false;
+let isSensorPermissionGranted = false;
+
+// Fired from the page's world by the requestPermission shim below
+onPageBridgeEvent("aka-sensor-permission-granted", () => {
+  isSensorPermissionGranted = true;
+  isOrientationDirty = true;
+});
+
+// Safari's requestPermission API, installed before any page script so it can use the page
+// bridge; setSensorPermissionApi exposes it on iOS devices only
+webFrame
+  .executeJavaScript(
+    `(() => {
+      const storageKey = "aka-sensor-permission";
+      const dispatchToPreload = ${PAGE_BRIDGE_DISPATCH};
+      let state = null;
+      try { state = sessionStorage.getItem(storageKey); } catch {}
+
+      // Like Safari: needs a user gesture, prompts once, remembers the answer for the session
+      const requestPermission = () => new Promise((resolve, reject) => {
+        if (state) return resolve(state);
+        if (!navigator.userActivation.isActive) {
+          return reject(new DOMException(
+            "Requesting device orientation or motion access requires a user gesture to prompt",
+            "NotAllowedError"
+          ));
+        }
+        state = window.confirm('"' + location.host + '" Would Like to Access Motion and Orientation')
+          ? "granted"
+          : "denied";
+        try { sessionStorage.setItem(storageKey, state); } catch {}
+        if (state === "granted") dispatchToPreload("aka-sensor-permission-granted");
+        resolve(state);
+      });
+
+      window.addEventListener("aka-sensor-permission-api", (event) => {
+        if (event.detail) {
+          DeviceOrientationEvent.requestPermission = requestPermission;
+          DeviceMotionEvent.requestPermission = requestPermission;
+          if (state === "granted") dispatchToPreload("aka-sensor-permission-granted");
+        } else {
+          delete DeviceOrientationEvent.requestPermission;
+          delete DeviceMotionEvent.requestPermission;
+        }
+      });
+    })();`
+  )
+  .catch((error) => {
+    console.warn("[Preload] Failed to install sensor permission API:", error);
+  });
+
+// Expose (iOS) or remove (Android) the requestPermission API in the page's world
+function setSensorPermissionApi(isIOS: boolean) {
+  requiresSensorPermission = isIOS;
+
+  webFrame
+    .executeJavaScript(
+      `window.dispatchEvent(new CustomEvent("aka-sensor-permission-api", { detail: ${isIOS} }));`
+    )
+    .catch((error) => {
+      console.warn("[Preload] Failed to set sensor permission API:", error);
+    });
+}
+
+function dispatchSensorEvents() {
+  if (!sensorReading || (requiresSensorPermission && !isSensorPermissionGranted)) return;
+
+  const { alpha, beta, gamma } = sensorReading;
+
+  if (isOrientationDirty) {
+    isOrientationDirty = false;
+    window.dispatchEvent(
+      new DeviceOrientationEvent("deviceorientation", { alpha, beta, gamma, absolute: false })
+    );
+  }
+
+  // Gravity as seen by the device: flat on its back reports +z, upright reports +y
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const gravity = {
+    x: -STANDARD_GRAVITY * Math.cos(toRadians(beta)) * Math.sin(toRadians(gamma)),
+    y: STANDARD_GRAVITY * Math.sin(toRadians(beta)),
+    z: STANDARD_GRAVITY * Math.cos(toRadians(beta)) * Math.cos(toRadians(gamma)),
+  };
+
+  // Shake: strong side-to-side acceleration that decays over the gesture
+  const now = Date.now();
+  const shakeStrength = now < shakeUntil ? (shakeUntil - now) / SHAKE_DURATION_MS : 0;
+  const shake = Math.sin(now / 25) * 20 * shakeStrength;
+
+  const previous = previousSensorReading ?? sensorReading;
+  const perSecond = 1000 / SENSOR_INTERVAL_MS;
+  previousSensorReading = sensorReading;
+
+  window.dispatchEvent(
+    new DeviceMotionEvent("devicemotion", {
+      acceleration: { x: shake, y: 0, z: 0 },
+      accelerationIncludingGravity: { x: gravity.x + shake, y: gravity.y, z: gravity.z },
+      rotationRate: {
+        alpha: (alpha - previous.alpha) * perSecond,
+        beta: (beta - previous.beta) * perSecond,
+        gamma: (gamma - previous.gamma) * perSecond,
+      },
+      interval: SENSOR_INTERVAL_MS,
+    })
+  );
+}
+
+// Readings for this tab from the sensor panel (null turns emulation off)
+ipcRenderer.on("sensor-update", (_event, reading: SensorReading | null) => {
+  sensorReading = reading;
+  isOrientationDirty = true;
+
+  if (reading && !sensorTimer) {
+    sensorTimer = setInterval(dispatchSensorEvents, SENSOR_INTERVAL_MS);
+  } else if (!reading && sensorTimer) {
+    clearInterval(sensorTimer);
+    sensorTimer = null;
+    previousSensorReading = null;
+  }
+});
+
+ipcRenderer.on("sensor-shake", () => {
+  shakeUntil = Date.now() + SHAKE_DURATION_MS;
+});
+
+// ============================================================================
+// Virtual Keyboard (tells the frame which keyboard an editable element asks for)
+// ============================================================================
+
+type KeyboardFocus = { inputMode: string; enterKeyHint: string };
+
+// Input types that bring up a keyboard, and the inputmode each one implies
+const KEYBOARD_INPUT_TYPES: Record<string, string> = {
+  text: "text",
+  password: "text",
+  search: "search",
+  email: "email",
+  url: "url",
+  tel: "tel",
+  number: "decimal",
+};
+
+let keyboardFocusElement: HTMLElement | null = null;
+
+function getKeyboardFocus(element: Element | null): KeyboardFocus | null {
+  if (!(element instanceof HTMLElement)) return null;
+
+  let inputMode = "text";
+  if (element instanceof HTMLInputElement) {
+    if (!(element.type in KEYBOARD_INPUT_TYPES) || element.readOnly || element.disabled) return null;
+    inputMode = KEYBOARD_INPUT_TYPES[element.type];
+  } else if (element instanceof HTMLTextAreaElement) {
+    if (element.readOnly || element.disabled) return null;
+  } else if (!element.isContentEditable) {
+    return null;
+  }
+
+  // The inputmode attribute wins over the input type, like on iOS
+  const enterKeyHint =
+    element.enterKeyHint ||
+    (inputMode === "search" ? "search" : element instanceof HTMLTextAreaElement ? "enter" : "");
+
+  return { inputMode: element.inputMode || inputMode, enterKeyHint: enterKeyHint || "enter" };
+}
+
+function updateKeyboardFocus() {
+  if (isMirrorFollower) return;
+
+  const focus = getKeyboardFocus(document.activeElement);
+  keyboardFocusElement = focus ? (document.activeElement as HTMLElement) : null;
+  ipcRenderer.send("virtual-keyboard-focus", focus);
+}
+
+document.addEventListener("focusin", updateKeyboardFocus, true);
+
+document.addEventListener(
+  "focusout",
+  () => {
+    // Focus moving to the frame's keyboard blurs the page but keeps the element active
+    setTimeout(() => {
+      if (document.hasFocus()) updateKeyboardFocus();
+    }, 0);
+  },
+  true
+);
+
+// Keep the focused field visible once the keyboard has shrunk the viewport
+window.visualViewport?.addEventListener("resize", () => {
+  keyboardFocusElement?.scrollIntoView({ block: "nearest" });
+});
+
+ipcRenderer.on("virtual-keyboard-dismiss", () => {
+  keyboardFocusElement?.blur();
+  updateKeyboardFocus();
+});
+
 // ============================================================================
 // Expose Bookmark API to webview (for blank-page.html)
 // ============================================================================